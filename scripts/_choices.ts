@@ -0,0 +1,88 @@
+/**
+ * Choice fields: radio groups, dropdowns and option lists. fillForm() in
+ * fill-and-merge.ts sets them from a config's `choices`, keyed by field name:
+ *
+ *   "choices": {
+ *     "DeliverTo": { "type": "radio", "value": "Patient" },
+ *     "Format": { "type": "radio", "value": "electronic" },
+ *     "Purpose": { "type": "dropdown", "value": "Personal use" },
+ *     "RecordTypes": { "type": "optionList", "value": ["Lab results", "Imaging"] }
+ *   }
+ *
+ * A value is matched against the options the form offers: exactly, then
+ * ignoring case and punctuation, then as the start of (or whole words within)
+ * exactly one option, so "electronic" picks "Electronic copy (email)".
+ * Radio buttons often export meaningless values ("0", "Choice2"), so the label
+ * printed beside each button counts as well.
+ */
+import type { PDFDocument, PDFRadioGroup } from 'pdf-lib';
+import { extractPageText, type TextLine } from './_pdf-text.ts';
+import { widgetPage } from './fill-and-merge.ts';
+
+export type ChoiceType = 'radio' | 'dropdown' | 'optionList';
+
+export interface ChoiceMapping {
+  type: ChoiceType;
+  value: string | string[];  // several values only for option lists that allow it
+}
+
+export type ChoiceMappings = Record<string, ChoiceMapping>;
+
+export interface ChoiceOption {
+  value: string;   // what gets selected: the export value, or the option text
+  label?: string;  // text printed beside a radio button
+}
+
+export type OptionMatch =
+  | { option: ChoiceOption }
+  | { option?: undefined; ambiguous: ChoiceOption[] };
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/** The option `wanted` names, or every option it could name when that isn't exactly one */
+export function matchOption(wanted: string, options: ChoiceOption[]): OptionMatch {
+  const w = normalize(wanted);
+  const texts = (o: ChoiceOption) => [o.value, o.label].filter((t): t is string => !!t).map(normalize);
+  const tiers: Array<(o: ChoiceOption) => boolean> = [
+    (o) => o.value === wanted,
+    (o) => texts(o).includes(w),
+    (o) => !!w && texts(o).some((t) => t.startsWith(w) || ` ${t} `.includes(` ${w} `)),
+  ];
+  for (const tier of tiers) {
+    const matches = options.filter(tier);
+    if (matches.length === 1) return { option: matches[0] };
+    if (matches.length > 1) return { ambiguous: matches };
+  }
+  return { ambiguous: [] };
+}
+
+/** The closest text on a widget's row, just right of it */
+function labelRightOf(lines: TextLine[], rect: { x: number; y: number; width: number; height: number }): string | undefined {
+  const right = rect.x + rect.width;
+  let best: { text: string; gap: number } | undefined;
+  for (const line of lines) {
+    const middle = line.y + line.size * 0.35;
+    const gap = line.x - right;
+    if (middle < rect.y - 2 || middle > rect.y + rect.height + 2 || gap < -2 || gap > 150) continue;
+    if (!best || gap < best.gap) best = { text: line.text, gap };
+  }
+  return best?.text;
+}
+
+/** A radio group's options, in widget order, with the label printed beside each button */
+export function radioOptions(doc: PDFDocument, group: PDFRadioGroup, pageText = new Map<number, TextLine[]>()): ChoiceOption[] {
+  const values = group.getOptions();
+  return group.acroField.getWidgets().map((widget, i) => {
+    const page = widgetPage(doc, widget);
+    if (page !== -1 && !pageText.has(page)) pageText.set(page, extractPageText(doc, page));
+    const label = page === -1 ? undefined : labelRightOf(pageText.get(page)!, widget.getRectangle());
+    return { value: values[i] ?? widget.getOnValue()?.decodeText() ?? '', label };
+  });
+}
+
+/** How options are listed in warnings and by list-form-fields.ts */
+export function describeOptions(options: ChoiceOption[]): string {
+  return options.map((o) => (o.label && normalize(o.label) !== normalize(o.value) ? `"${o.value}" (${o.label})` : `"${o.value}"`)).join(', ');
+}
@@ -0,0 +1,257 @@
+/**
+ * Local extract of the ONC Certified Health IT Product List (CHPL).
+ *
+ * CHPL publishes its listings as downloadable JSON and CSV files
+ * (chpl.healthit.gov, "Download the CHPL"), and the search API returns the
+ * same listings as JSON. `check-chpl.ts import <file>` normalizes any of these
+ * into ~/.request-my-ehi/chpl/listings.json (or $CHPL_EXTRACT). Lookups only
+ * read that file, so they work offline and can say what date the answer is
+ * as of: the day the listing was downloaded.
+ */
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, join } from 'path';
+import { toDateString } from './_deadlines.ts';
+import type { VendorCertification } from './_vendor-db.ts';
+import { scoreVendor } from './_vendor-match.ts';
+
+export const EHI_EXPORT_CRITERION = '170.315 (b)(10)';
+
+export interface ChplListing {
+  id?: number;                  // CHPL database id; what vendors.json chpl_ids holds
+  chplProductNumber: string;    // e.g. 15.04.04.2891.Athe.AC.07.1.221101
+  developer: string;
+  product: string;
+  version?: string;
+  certificationDate?: string;   // YYYY-MM-DD
+  status: string;               // Active, Withdrawn by Developer, ...
+  decertificationDate?: string;
+  criteria: string[];           // criteria met, normalized like EHI_EXPORT_CRITERION
+}
+
+export interface ChplExtract {
+  asOf: string;        // YYYY-MM-DD the listing was downloaded
+  importedAt: string;
+  sourceFile: string;
+  listings: ChplListing[];
+}
+
+export interface ChplVerification {
+  listing: ChplListing;
+  ehiExport: boolean;  // certified to (b)(10)
+  active: boolean;
+  asOf: string;
+}
+
+export function extractPath(): string {
+  return process.env.CHPL_EXTRACT || join(homedir(), '.request-my-ehi', 'chpl', 'listings.json');
+}
+
+export function loadExtract(path = extractPath()): ChplExtract {
+  if (!existsSync(path)) {
+    throw new Error(
+      `No CHPL extract at ${path}. Download the listings from chpl.healthit.gov and run: bun check-chpl.ts import <file>`
+    );
+  }
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+export function saveExtract(extract: ChplExtract, path = extractPath()) {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(extract, null, 2) + '\n');
+}
+
+/** Read a CHPL download (JSON or CSV) into an extract dated by the file's mtime unless asOf is given */
+export function importDownload(file: string, asOf?: string): ChplExtract {
+  const listings = parseChplDownload(readFileSync(file, 'utf-8'));
+  if (!listings.length) throw new Error(`No CHPL listings found in ${file}`);
+  return {
+    asOf: asOf ?? toDateString(statSync(file).mtime),
+    importedAt: new Date().toISOString(),
+    sourceFile: basename(file),
+    listings,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** "170.315(b)(10)", "170.315 (b)(10): Electronic Health..." -> "170.315 (b)(10)" */
+export function normalizeCriterion(text: string): string | null {
+  const m = /170\.(\d{3})\s*\(\s*([a-z])\s*\)\s*\(\s*(\d+)\s*\)/i.exec(text);
+  return m ? `170.${m[1]} (${m[2].toLowerCase()})(${m[3]})` : null;
+}
+
+function chplDate(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return toDateString(new Date(value)); // epoch ms
+  const text = String(value).trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  if (/^\d+$/.test(text)) return toDateString(new Date(Number(text)));
+  return undefined;
+}
+
+// CHPL nests most names one level down ({ name }, { version }, { status: { name } })
+function named(value: any): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object') return String(value);
+  return named(value.name ?? value.version ?? value.status);
+}
+
+function listingFromJson(raw: any): ChplListing | null {
+  const chplProductNumber = raw.chplProductNumber ?? raw.chplId;
+  if (!chplProductNumber) return null;
+
+  const criteria = new Set<string>();
+  for (const result of raw.certificationResults ?? []) {
+    if (result.success === false) continue;
+    const c = normalizeCriterion(result.criterion?.number ?? result.number ?? '');
+    if (c) criteria.add(c);
+  }
+  for (const met of raw.criteriaMet ?? []) {
+    const c = normalizeCriterion(typeof met === 'string' ? met : met.number ?? '');
+    if (c) criteria.add(c);
+  }
+
+  return {
+    id: typeof raw.id === 'number' ? raw.id : undefined,
+    chplProductNumber,
+    developer: named(raw.developer) ?? '',
+    product: named(raw.product) ?? '',
+    version: named(raw.version),
+    certificationDate: chplDate(raw.certificationDate),
+    status: named(raw.currentStatus ?? raw.certificationStatus) ?? 'Unknown',
+    decertificationDate: chplDate(raw.decertificationDate),
+    criteria: [...criteria].sort(),
+  };
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [], field = '', quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some((f) => f.trim())) rows.push(row);
+      row = [];
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some((f) => f.trim())) rows.push(row);
+  return rows;
+}
+
+function listingsFromCsv(text: string): ChplListing[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const col = (pattern: RegExp) => header.findIndex((h) => pattern.test(h.trim()));
+  const idCol = col(/^(listing |database )?id$/i);
+  const numberCol = col(/chpl (product number|id)/i);
+  const developerCol = col(/^developer( name)?$/i);
+  const productCol = col(/^product( name)?$/i);
+  const versionCol = col(/^version/i);
+  const dateCol = col(/^certification date/i);
+  const statusCol = col(/certification status|^status$/i);
+  const decertCol = col(/decertification date/i);
+  const criteriaCol = col(/^(certification )?criteria( met)?$/i);
+  // Some downloads have one column per criterion instead of a list
+  const criterionCols = header
+    .map((h, i) => ({ criterion: normalizeCriterion(h), i }))
+    .filter((c): c is { criterion: string; i: number } => !!c.criterion);
+  if (numberCol === -1) throw new Error('CSV has no "CHPL Product Number" column');
+
+  return rows.map((cells) => {
+    const cell = (i: number) => (i === -1 ? '' : (cells[i] ?? '').trim());
+    const criteria = new Set<string>();
+    for (const part of cell(criteriaCol).split(/[;|\n]/)) {
+      const c = normalizeCriterion(part);
+      if (c) criteria.add(c);
+    }
+    for (const { criterion, i } of criterionCols) {
+      if (/^(true|yes|y|x|1)$/i.test(cell(i))) criteria.add(criterion);
+    }
+    return {
+      id: /^\d+$/.test(cell(idCol)) ? Number(cell(idCol)) : undefined,
+      chplProductNumber: cell(numberCol),
+      developer: cell(developerCol),
+      product: cell(productCol),
+      version: cell(versionCol) || undefined,
+      certificationDate: chplDate(cell(dateCol)),
+      status: cell(statusCol) || 'Unknown',
+      decertificationDate: chplDate(cell(decertCol)),
+      criteria: [...criteria].sort(),
+    };
+  }).filter((l) => l.chplProductNumber);
+}
+
+/** Listings from a CHPL download: the JSON download, a search API response, or a CSV */
+export function parseChplDownload(text: string): ChplListing[] {
+  const trimmed = text.trimStart();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return listingsFromCsv(text);
+  const json = JSON.parse(trimmed);
+  const raw: unknown[] = Array.isArray(json) ? json : json.listings ?? json.results ?? [];
+  return raw.map(listingFromJson).filter((l): l is ChplListing => !!l);
+}
+
+// ---------------------------------------------------------------------------
+// Lookups
+// ---------------------------------------------------------------------------
+const PRODUCT_MATCH_SCORE = 0.8;
+
+export interface ListingQuery {
+  id?: string | number;   // CHPL database id or CHPL product number
+  developer?: string;
+  product?: string;
+}
+
+/** Matching listings, active ones first, then newest certification first */
+export function findListings(extract: ChplExtract, query: ListingQuery): ChplListing[] {
+  const id = query.id === undefined ? undefined : String(query.id).trim();
+  const matches = extract.listings.filter((l) => {
+    if (id) return /^\d+$/.test(id) ? l.id === Number(id) : l.chplProductNumber.toLowerCase() === id.toLowerCase();
+    if (query.developer && scoreVendor({ developer: l.developer }, query.developer) < PRODUCT_MATCH_SCORE) return false;
+    if (query.product && scoreVendor({ product_name: l.product }, query.product) < PRODUCT_MATCH_SCORE) return false;
+    return !!(query.developer || query.product);
+  });
+  return matches.sort((a, b) =>
+    Number(isActive(b)) - Number(isActive(a)) ||
+    (b.certificationDate ?? '').localeCompare(a.certificationDate ?? '')
+  );
+}
+
+function isActive(listing: ChplListing): boolean {
+  return /^active$/i.test(listing.status) && !listing.decertificationDate;
+}
+
+export function verifyListing(extract: ChplExtract, listing: ChplListing): ChplVerification {
+  return {
+    listing,
+    ehiExport: listing.criteria.includes(EHI_EXPORT_CRITERION),
+    active: isActive(listing),
+    asOf: extract.asOf,
+  };
+}
+
+/** What the appendix cites; only for an active (b)(10)-certified listing */
+export function toVendorCertification(v: ChplVerification): VendorCertification | null {
+  if (!v.ehiExport || !v.active) return null;
+  const { listing } = v;
+  return {
+    chpl_product_number: listing.chplProductNumber,
+    ...(listing.id !== undefined && { chpl_listing_id: listing.id }),
+    product: [listing.product, listing.version].filter(Boolean).join(' '),
+    ...(listing.certificationDate && { certification_date: listing.certificationDate }),
+    verified_on: v.asOf,
+  };
+}
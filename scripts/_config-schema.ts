@@ -0,0 +1,435 @@
+/**
+ * JSON Schemas for the configs the PDF scripts take, and a small validator.
+ *
+ * The schemas are plain JSON Schema (the subset validate() understands:
+ * type, properties, required, dependentRequired, additionalProperties, items,
+ * minItems, enum, minLength, minimum, pattern, anyOf), so they can also be handed to an editor.
+ * Errors name the path of the bad value, e.g. `patient.dob: is required` or
+ * `fieldMappings.patientNmae: unknown key (did you mean "patientName"?)`.
+ */
+import { editDistance } from './_vendor-match.ts';
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  dependentRequired?: Record<string, string[]>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: readonly unknown[];
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+}
+
+export class ConfigError extends Error {
+  constructor(public label: string, public errors: string[]) {
+    super(`Invalid ${label}:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+const text: JsonSchema = { type: 'string', minLength: 1 };
+const optionalText: JsonSchema = { type: 'string' };
+const coordinate: JsonSchema = { type: 'number', minimum: 0 };
+
+export const PatientSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: text,
+    dob: { ...text, description: 'MM/DD/YYYY' },
+    street: text,
+    cityStateZip: text,
+    phone: optionalText,
+    email: optionalText,
+  },
+  required: ['name', 'dob', 'street', 'cityStateZip'],
+  additionalProperties: false,
+};
+
+export const ProviderSchema: JsonSchema = {
+  type: 'object',
+  properties: { name: text, street: text, cityStateZip: text },
+  required: ['name', 'street', 'cityStateZip'],
+  additionalProperties: false,
+};
+
+export const FIELD_MAPPING_KEYS = [
+  'patientName', 'dob', 'patientStreet', 'patientCityStateZip', 'phone',
+  'providerName', 'providerStreet', 'providerCityStateZip',
+  'recipientName', 'recipientStreet', 'recipientCityStateZip', 'email', 'recipientEmail',
+  'date', 'includeImages', 'ehiExport',
+] as const;
+
+export const FieldMappingsSchema: JsonSchema = {
+  type: 'object',
+  description: 'Maps each known value to the name of a field in the PDF form',
+  properties: Object.fromEntries(FIELD_MAPPING_KEYS.map((key) => [key, text])),
+  additionalProperties: false,
+};
+
+export const ChoiceMappingsSchema: JsonSchema = {
+  type: 'object',
+  description: 'Radio groups, dropdowns and option lists, by field name (_choices.ts)',
+  additionalProperties: {
+    type: 'object',
+    properties: {
+      type: { enum: ['radio', 'dropdown', 'optionList'] },
+      value: {
+        anyOf: [
+          { ...text, description: 'an option' },
+          { type: 'array', items: text, minItems: 1, description: 'a list of options' },
+        ],
+      },
+    },
+    required: ['type', 'value'],
+    additionalProperties: false,
+  },
+};
+
+export const SignaturePositionSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    page: { type: 'integer', minimum: 0, description: '0-indexed' },
+    x: coordinate,
+    topY: { ...coordinate, description: 'Distance from the top of the page, in points' },
+    height: { type: 'number', minimum: 1 },
+  },
+  additionalProperties: false,
+};
+
+export const PhiDescriptionPositionSchema: JsonSchema = {
+  type: 'object',
+  properties: { page: { type: 'integer', minimum: 0, description: '0-indexed' }, x: coordinate, topY: coordinate },
+  required: ['x', 'topY'],
+  additionalProperties: false,
+};
+
+export const OverlaySchema: JsonSchema = {
+  type: 'object',
+  description: 'Text or a mark drawn at a fixed position (_overlays.ts)',
+  properties: {
+    type: { enum: ['text', 'check', 'x', 'date', 'initials'] },
+    page: { type: 'integer', minimum: 0, description: '0-indexed' },
+    x: coordinate,
+    topY: { ...coordinate, description: 'Distance from the top of the page to the top of the text or mark, in points' },
+    text: { ...text, description: 'For type "text"; may use {placeholders} such as {patient.name}' },
+    size: { type: 'number', minimum: 1 },
+    width: { type: 'number', minimum: 1 },
+    height: { type: 'number', minimum: 1 },
+    wrap: { type: 'boolean' },
+    bold: { type: 'boolean' },
+  },
+  required: ['type', 'x', 'topY'],
+  additionalProperties: false,
+};
+
+const overlays: JsonSchema = { type: 'array', items: OverlaySchema };
+
+export const VendorCertificationSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    chpl_product_number: text,
+    chpl_listing_id: { type: 'integer' },
+    product: text,
+    certification_date: text,
+    verified_on: text,
+  },
+  required: ['chpl_product_number', 'product', 'verified_on'],
+  additionalProperties: false,
+};
+
+export const VendorConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    developer: optionalText,
+    product_name: optionalText,
+    export_formats: { type: 'array', items: text },
+    ehi_documentation_url: optionalText,
+    entity_count: { type: 'integer', minimum: 0 },
+    field_count: { type: 'integer', minimum: 0 },
+    summary: optionalText,
+    grade: optionalText,
+    coverage: optionalText,
+    approach: optionalText,
+    userwebTip: optionalText,
+    certification: VendorCertificationSchema,
+  },
+  additionalProperties: false,
+};
+
+export const FormPagesSchema: JsonSchema = {
+  anyOf: [
+    { enum: ['all'], description: '"all"' },
+    { type: 'array', items: { type: 'integer', minimum: 0 }, description: 'a list of 0-indexed pages' },
+    {
+      type: 'object',
+      properties: { from: { type: 'integer', minimum: 0 }, to: { type: 'integer', minimum: 0 } },
+      required: ['from'],
+      additionalProperties: false,
+      description: 'a { "from", "to" } range',
+    },
+  ],
+};
+
+/** generate-cover-letter.ts */
+export const CoverLetterConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: { patientName: optionalText, dob: optionalText, date: optionalText, outputPath: text },
+  dependentRequired: { dob: ['patientName'] },
+  additionalProperties: false,
+};
+
+/** generate-appendix.ts */
+export const AppendixConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: { vendor: VendorConfigSchema, date: optionalText, outputPath: text },
+  additionalProperties: false,
+};
+
+const isoDate: JsonSchema = { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'a YYYY-MM-DD date' };
+
+/** generate-followup-letter.ts */
+export const FollowupConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    kind: { enum: ['reminder', 'information-blocking', 'ocr-complaint'] },
+    requestDate: isoDate,
+    provider: optionalText,
+    providerAddress: optionalText,
+    vendor: optionalText,
+    patientName: optionalText,
+    dob: optionalText,
+    method: optionalText,
+    faxNumber: optionalText,
+    extensionNoticeDate: isoDate,
+    received: optionalText,
+    receivedDate: isoDate,
+    followupDates: { type: 'array', items: isoDate },
+    date: isoDate,
+    outputPath: text,
+  },
+  required: ['requestDate'],
+  additionalProperties: false,
+};
+
+/** fill-and-merge.ts */
+export const FillAndMergeConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    formPath: text,
+    appendixPath: text,
+    coverLetterPath: text,
+    outputPath: text,
+    signaturePath: text,
+    signatureMetadataPath: text,
+    patient: PatientSchema,
+    provider: ProviderSchema,
+    fieldMappings: FieldMappingsSchema,
+    choices: ChoiceMappingsSchema,
+    signaturePosition: SignaturePositionSchema,
+    phiDescriptionPosition: PhiDescriptionPositionSchema,
+    overlays,
+    formPages: FormPagesSchema,
+  },
+  // fieldMappings may come from a saved form profile instead (_form-profiles.ts),
+  // and a flat form filled with overlays needs none
+  required: ['formPath', 'appendixPath', 'outputPath', 'patient', 'provider'],
+  additionalProperties: false,
+};
+
+/** build-package.ts */
+export const PackageManifestSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    outputDir: text,
+    date: text,
+    patient: PatientSchema,
+    provider: ProviderSchema,
+    vendor: { anyOf: [{ ...text, description: 'Vendor slug' }, VendorConfigSchema] },
+    certification: VendorCertificationSchema,
+    form: {
+      type: 'object',
+      properties: {
+        path: text,
+        fieldMappings: FieldMappingsSchema,
+        choices: ChoiceMappingsSchema,
+        signaturePosition: SignaturePositionSchema,
+        phiDescriptionPosition: PhiDescriptionPositionSchema,
+        overlays,
+        pages: FormPagesSchema,
+      },
+      // A flat form filled with overlays needs no fieldMappings
+      required: ['path'],
+      additionalProperties: false,
+    },
+    signaturePath: text,
+    signatureMetadataPath: text,
+    idImagePath: text,
+    coverLetter: { type: 'boolean' },
+  },
+  required: ['patient', 'provider', 'form'],
+  dependentRequired: { certification: ['vendor'] },
+  additionalProperties: false,
+};
+
+/** form-profiles.ts save: what can be set on a profile */
+export const FormProfileInputSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    provider: text,
+    fieldMappings: FieldMappingsSchema,
+    choices: ChoiceMappingsSchema,
+    signaturePosition: SignaturePositionSchema,
+    phiDescriptionPosition: PhiDescriptionPositionSchema,
+    overlays,
+    faxNumber: optionalText,
+    notes: optionalText,
+  },
+  required: ['provider'],
+  additionalProperties: false,
+};
+
+/** _form-profiles.ts: a saved profile, as stored and exported */
+export const FormProfileSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    ...FormProfileInputSchema.properties,
+    id: text,
+    formSha256: { type: 'string', pattern: '^[0-9a-f]{64}$', description: 'SHA-256 of the blank form, in hex' },
+    formName: optionalText,
+    createdAt: text,
+    updatedAt: text,
+  },
+  required: ['id', 'provider', 'formSha256', 'fieldMappings', 'createdAt', 'updatedAt'],
+  additionalProperties: false,
+};
+
+export const FormProfileBundleSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    format: { enum: ['request-my-ehi/form-profiles@1'] },
+    exportedAt: text,
+    profiles: { type: 'array', items: FormProfileSchema },
+  },
+  required: ['format', 'profiles'],
+  additionalProperties: false,
+};
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function typeMatches(expected: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  const actual = typeOf(value);
+  return actual === expected || (expected === 'number' && actual === 'integer');
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function closest(key: string, candidates: string[]): string | undefined {
+  let best: string | undefined, bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const d = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (d < bestDistance) { best = candidate; bestDistance = d; }
+  }
+  return bestDistance <= Math.max(2, Math.floor(key.length / 4)) ? best : undefined;
+}
+
+/** Every problem with `value`, each prefixed with its path; empty when valid */
+export function validate(schema: JsonSchema, value: unknown, path = ''): string[] {
+  const at = path || '(root)';
+
+  if (schema.anyOf) {
+    const attempts = schema.anyOf.map((option) => validate(option, value, path));
+    if (attempts.some((errors) => !errors.length)) return [];
+    // Report against the option whose type fits, if any
+    const fits = (option: JsonSchema) =>
+      option.type ? typeMatches(option.type, value) : !option.enum || option.enum.some((v) => typeOf(v) === typeOf(value));
+    const fitting = schema.anyOf.findIndex(fits);
+    if (fitting !== -1) return attempts[fitting];
+    return [`${at}: expected ${schema.anyOf.map((o) => o.description ?? o.type).join(' or ')}, got ${typeOf(value)}`];
+  }
+
+  if (schema.type && !typeMatches(schema.type, value)) {
+    return [`${at}: expected ${schema.type}, got ${typeOf(value)}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${at}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${at}: must not be empty`);
+  }
+  if (typeof value === 'string' && schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    errors.push(`${at}: ${schema.description ? `expected ${schema.description}` : `must match ${schema.pattern}`}`);
+  }
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${at}: must be at least ${schema.minimum}`);
+  }
+  if (Array.isArray(value) && schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push(`${at}: must have at least ${schema.minItems} item(s)`);
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validate(schema.items!, item, joinPath(path, i))));
+  }
+
+  if (schema.type === 'object' && typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined) errors.push(`${joinPath(path, key)}: is required`);
+    }
+    for (const [key, needs] of Object.entries(schema.dependentRequired ?? {})) {
+      if (obj[key] === undefined) continue;
+      for (const other of needs) {
+        if (obj[other] === undefined) errors.push(`${joinPath(path, other)}: is required when ${key} is set`);
+      }
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      if (properties[key]) {
+        if (child !== undefined) errors.push(...validate(properties[key], child, joinPath(path, key)));
+      } else if (typeof schema.additionalProperties === 'object') {
+        if (child !== undefined) errors.push(...validate(schema.additionalProperties, child, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        const suggestion = closest(key, Object.keys(properties));
+        errors.push(`${joinPath(path, key)}: unknown key${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+      }
+    }
+  }
+  return errors;
+}
+
+/** Throws a ConfigError listing every problem */
+export function assertValid<T>(schema: JsonSchema, value: unknown, label = 'config'): T {
+  const errors = validate(schema, value);
+  if (errors.length) throw new ConfigError(label, errors);
+  return value as T;
+}
+
+/** Parse and validate a JSON config string, reporting JSON syntax errors the same way */
+export function parseConfig<T>(schema: JsonSchema, json: string, label = 'config'): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (err) {
+    throw new ConfigError(label, [`not valid JSON: ${(err as Error).message}`]);
+  }
+  return assertValid<T>(schema, value, label);
+}
@@ -0,0 +1,64 @@
+/**
+ * HIPAA Right of Access deadlines (45 CFR 164.524(b)(2)).
+ *
+ * A covered entity must act on a request within 30 calendar days of receiving
+ * it, and may take one extension of up to 30 more days if it tells the patient
+ * in writing, with a reason and a new date, before the first 30 days run out.
+ * We count from the date the request was sent (for faxes, the delivery date).
+ *
+ * Dates are plain YYYY-MM-DD strings; arithmetic is done in UTC so results
+ * don't shift with the local timezone or DST.
+ */
+
+export const RESPONSE_DAYS = 30;
+export const EXTENSION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseDate(date: string): Date {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+  if (!m) throw new Error(`Expected a YYYY-MM-DD date, got "${date}"`);
+  const parsed = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]));
+  // Date.UTC rolls 2026-02-30 over into March; a real date comes back unchanged
+  if (toDateString(parsed) !== `${m[1]}-${m[2]}-${m[3]}`) throw new Error(`No such date: "${date}"`);
+  return parsed;
+}
+
+export function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Today's local calendar date as YYYY-MM-DD */
+export function today(): string {
+  const d = new Date();
+  return toDateString(new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate())));
+}
+
+export function addDays(date: string, days: number): string {
+  return toDateString(new Date(parseDate(date).getTime() + days * DAY_MS));
+}
+
+/** Whole days from `from` to `to` (negative if `to` is earlier) */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / DAY_MS);
+}
+
+/** "March 5, 2026" - for letters */
+export function formatLongDate(date: string): string {
+  return parseDate(date).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+export interface HipaaDeadlines {
+  dueDate: string;          // 30 days after the request
+  extendedDueDate: string;  // 60 days after, if an extension was noticed in time
+  deadline: string;         // whichever of the two applies
+  extended: boolean;
+}
+
+export function hipaaDeadlines(sentDate: string, extensionNoticeDate?: string): HipaaDeadlines {
+  const dueDate = addDays(sentDate, RESPONSE_DAYS);
+  const extendedDueDate = addDays(dueDate, EXTENSION_DAYS);
+  // A late extension notice doesn't extend anything
+  const extended = !!extensionNoticeDate && daysBetween(extensionNoticeDate, dueDate) >= 0;
+  return { dueDate, extendedDueDate, deadline: extended ? extendedDueDate : dueDate, extended };
+}
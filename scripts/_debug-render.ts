@@ -0,0 +1,159 @@
+/**
+ * Debug rendering for placing fields and overlays: a copy of a form with a
+ * coordinate grid, every AcroForm widget outlined and labelled, and the planned
+ * signature, PHI description and overlays drawn as colored boxes.
+ *
+ * The grid is in the convention the configs use: x from the left edge, topY
+ * down from the top of each page, in points, with a line every 50pt and a
+ * label every 100pt. Used by `list-form-fields.ts --debug` (the blank form)
+ * and `fill-and-merge.ts --debug` (the filled form).
+ *
+ *   blue     form widgets, labelled with the field name, x and topY
+ *   red      signaturePosition (4:1 when the signature image isn't known)
+ *   green    phiDescriptionPosition
+ *   orange   overlays, labelled with their index and type
+ */
+import { rgb, StandardFonts, PDFDocument, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+import {
+  flattenForm,
+  PHI_DESCRIPTION_TEXT,
+  widgetPage,
+  type PhiDescriptionPosition,
+  type SignaturePosition,
+} from './fill-and-merge.ts';
+import { blockHeight, DEFAULT_SIZE, expandPlaceholders, layoutText, type Overlay, type OverlayValues } from './_overlays.ts';
+
+export interface PlacementPlan {
+  signaturePosition?: SignaturePosition;
+  signatureSize?: { width: number; height: number };  // of the placed image, when known
+  phiDescriptionPosition?: PhiDescriptionPosition;
+  overlays?: Overlay[];
+  values?: OverlayValues;  // to measure overlay text as it will be drawn
+}
+
+const GRID_STEP = 50;
+const GRID_LABEL_STEP = 100;
+const LABEL_SIZE = 5.5;
+const COLORS = {
+  grid: rgb(0.55, 0.55, 0.6),
+  widget: rgb(0, 0.35, 0.85),
+  signature: rgb(0.85, 0.1, 0.1),
+  phiDescription: rgb(0, 0.55, 0.2),
+  overlay: rgb(0.9, 0.5, 0),
+};
+
+/** Standard fonts only encode WinAnsi; field names can hold anything */
+function printable(text: string): string {
+  return text.replace(/[^\x20-\x7e]/g, '?');
+}
+
+function drawGrid(page: PDFPage, font: PDFFont) {
+  const { width, height } = page.getSize();
+  const line = { thickness: 0.25, color: COLORS.grid, opacity: 0.5 };
+  const label = { size: LABEL_SIZE, font, color: COLORS.grid };
+  for (let topY = 0; topY <= height; topY += GRID_STEP) {
+    const y = height - topY;
+    page.drawLine({ start: { x: 0, y }, end: { x: width, y }, ...line });
+    if (topY % GRID_LABEL_STEP === 0 && topY > 0) {
+      page.drawText(`topY ${topY}`, { x: 2, y: y + 1, ...label });
+      page.drawText(`${topY}`, { x: width - font.widthOfTextAtSize(`${topY}`, LABEL_SIZE) - 2, y: y + 1, ...label });
+    }
+  }
+  for (let x = 0; x <= width; x += GRID_STEP) {
+    page.drawLine({ start: { x, y: 0 }, end: { x, y: height }, ...line });
+    if (x % GRID_LABEL_STEP === 0 && x > 0) page.drawText(`x ${x}`, { x: x + 1, y: height - LABEL_SIZE - 2, ...label });
+  }
+}
+
+/** Outline a box given by its top-left corner in config coordinates, with a label above it */
+function drawBox(page: PDFPage, font: PDFFont, color: RGB, box: { x: number; topY: number; width: number; height: number }, text: string) {
+  const y = page.getHeight() - box.topY - box.height;
+  page.drawRectangle({
+    x: box.x, y, width: box.width, height: box.height,
+    borderColor: color, borderWidth: 0.75, color, opacity: 0.08, borderOpacity: 0.9,
+  });
+  // Above the box, or inside it when it touches the top of the page
+  const labelY = box.topY > LABEL_SIZE + 2 ? y + box.height + 1 : y + box.height - LABEL_SIZE - 1;
+  page.drawText(printable(text), { x: box.x, y: labelY, size: LABEL_SIZE, font, color });
+}
+
+/** The area an overlay will cover, as well as it can be known ahead of drawing */
+function overlayBox(overlay: Overlay, fonts: { regular: PDFFont; bold: PDFFont }, values: OverlayValues = {}) {
+  if (overlay.type === 'check' || overlay.type === 'x') {
+    const size = overlay.size ?? DEFAULT_SIZE;
+    return { x: overlay.x, topY: overlay.topY, width: size, height: size };
+  }
+  let text = overlay.type === 'date' ? '{date}' : overlay.type === 'initials' ? '{initials}' : overlay.text ?? '';
+  try {
+    const expanded = expandPlaceholders(text, values);
+    if (!expanded.missing.length) text = expanded.text;
+  } catch {
+    // Unknown placeholder: measure the text as written; filling reports the error
+  }
+  const font = overlay.bold ? fonts.bold : fonts.regular;
+  const { lines, size } = layoutText(text, font, overlay);
+  const measured = {
+    width: Math.max(...lines.map((l) => font.widthOfTextAtSize(l, size))),
+    height: blockHeight(font, size, lines.length),
+  };
+  return { x: overlay.x, topY: overlay.topY, width: overlay.width ?? measured.width, height: overlay.height ?? measured.height };
+}
+
+/**
+ * Render the debug copy. Widget positions come from `formBytes`; the drawing
+ * goes onto `options.base` if given (e.g. the filled form), else the form
+ * itself, flattened so the outlines aren't hidden under field backgrounds.
+ */
+export async function renderDebugPdf(
+  formBytes: ArrayBuffer | Uint8Array,
+  plan: PlacementPlan = {},
+  options: { base?: Uint8Array } = {},
+): Promise<Uint8Array> {
+  const form = await PDFDocument.load(formBytes);
+  const doc = await PDFDocument.load(options.base ?? formBytes);
+  if (doc.getForm().getFields().length) flattenForm(doc.getForm());
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const pages = doc.getPages();
+  const onPage = (index = 0) => pages[index];
+
+  for (const page of pages) drawGrid(page, font);
+
+  for (const field of form.getForm().getFields()) {
+    for (const widget of field.acroField.getWidgets()) {
+      const page = onPage(widgetPage(form, widget));
+      if (!page) continue;
+      const rect = widget.getRectangle();
+      const topY = page.getHeight() - rect.y - rect.height;
+      drawBox(page, font, COLORS.widget, { x: rect.x, topY, width: rect.width, height: rect.height },
+        `${field.getName()} (x=${rect.x.toFixed(0)}, topY=${topY.toFixed(0)})`);
+    }
+  }
+
+  const { signaturePosition: sig, phiDescriptionPosition: phi } = plan;
+  if (sig && onPage(sig.page)) {
+    // Same defaults as fillForm; topY there is the bottom of the image
+    const height = plan.signatureSize?.height ?? (sig.height || 18);
+    const width = plan.signatureSize?.width ?? height * 4;
+    const x = sig.x || 60, topY = sig.topY || 686;
+    drawBox(onPage(sig.page), font, COLORS.signature, { x, topY: topY - height, width, height },
+      `signaturePosition (x=${x}, topY=${topY})`);
+  }
+  if (phi && onPage(phi.page)) {
+    // topY there is the text's baseline
+    const ascent = bold.heightAtSize(10, { descender: false });
+    drawBox(onPage(phi.page), font, COLORS.phiDescription, {
+      x: phi.x,
+      topY: phi.topY - ascent,
+      width: bold.widthOfTextAtSize(PHI_DESCRIPTION_TEXT, 10),
+      height: bold.heightAtSize(10),
+    }, `phiDescriptionPosition (x=${phi.x}, topY=${phi.topY})`);
+  }
+  (plan.overlays ?? []).forEach((overlay, i) => {
+    const page = onPage(overlay.page);
+    if (!page) return;
+    drawBox(page, font, COLORS.overlay, overlayBox(overlay, { regular: font, bold }, plan.values), `overlays[${i}] ${overlay.type}`);
+  });
+
+  return doc.save();
+}
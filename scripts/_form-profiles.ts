@@ -0,0 +1,182 @@
+/**
+ * Saved form profiles: the field mappings and choices, signature box, PHI
+ * description box, overlays and fax number worked out for one provider's request form, so the next
+ * request to that provider doesn't start from scratch.
+ *
+ * Profiles live in ~/.request-my-ehi/form-profiles.json (or $FORM_PROFILES).
+ * Each is keyed by the SHA-256 of the blank form PDF and the provider's name:
+ * a form with the same hash is the same form, whoever sent it; a profile found
+ * only by provider name was made for a different version of the form, so only
+ * what profileForFields() keeps of it is safe to apply.
+ */
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type { FieldMappings, PhiDescriptionPosition, SignaturePosition } from './fill-and-merge.ts';
+import type { Overlay } from './_overlays.ts';
+import type { ChoiceMappings } from './_choices.ts';
+import { assertValid, FormProfileBundleSchema } from './_config-schema.ts';
+import { scoreVendor } from './_vendor-match.ts';
+
+export interface FormProfile {
+  id: string;                    // <provider-slug>-<first 8 of formSha256>
+  provider: string;
+  formSha256: string;
+  formName?: string;             // file name the form was saved from
+  fieldMappings: FieldMappings;
+  choices?: ChoiceMappings;
+  signaturePosition?: SignaturePosition;
+  phiDescriptionPosition?: PhiDescriptionPosition;
+  overlays?: Overlay[];
+  faxNumber?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What callers supply; id and timestamps are filled in */
+export type FormProfileInput = Omit<FormProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface ProfileMatch {
+  profile: FormProfile;
+  matchedBy: 'form' | 'provider';
+}
+
+export interface ProfileBundle {
+  format: typeof BUNDLE_FORMAT;
+  exportedAt: string;
+  profiles: FormProfile[];
+}
+
+export const BUNDLE_FORMAT = 'request-my-ehi/form-profiles@1';
+const PROVIDER_MATCH_SCORE = 0.8;
+
+export function defaultProfilesPath(): string {
+  return process.env.FORM_PROFILES || join(homedir(), '.request-my-ehi', 'form-profiles.json');
+}
+
+export function loadProfiles(path = defaultProfilesPath()): FormProfile[] {
+  if (!existsSync(path)) return [];
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+export function saveProfiles(profiles: FormProfile[], path = defaultProfilesPath()) {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(profiles, null, 2) + '\n');
+}
+
+export function formSha256(bytes: ArrayBuffer | Uint8Array): string {
+  return createHash('sha256').update(new Uint8Array(bytes)).digest('hex');
+}
+
+function profileId(provider: string, sha256: string): string {
+  const slug = provider.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'provider';
+  return `${slug}-${sha256.slice(0, 8)}`;
+}
+
+function sameProvider(a: string, b: string): boolean {
+  return scoreVendor({ developer: a }, b) >= PROVIDER_MATCH_SCORE;
+}
+
+/**
+ * The profile for a form: one saved from the same PDF (preferring one for the
+ * same provider), or else the provider's most recently updated profile.
+ */
+export function findProfile(
+  profiles: FormProfile[],
+  query: { formSha256?: string; provider?: string },
+): ProfileMatch | null {
+  const newest = (list: FormProfile[]) => [...list].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+  const byForm = profiles.filter((p) => p.formSha256 === query.formSha256);
+  if (byForm.length) {
+    const forProvider = query.provider ? byForm.filter((p) => sameProvider(p.provider, query.provider!)) : [];
+    return { profile: newest(forProvider.length ? forProvider : byForm), matchedBy: 'form' };
+  }
+  const byProvider = query.provider ? profiles.filter((p) => sameProvider(p.provider, query.provider!)) : [];
+  return byProvider.length ? { profile: newest(byProvider), matchedBy: 'provider' } : null;
+}
+
+/** Add a profile, or replace the one for the same form and provider (keeping its createdAt) */
+export function upsertProfile(profiles: FormProfile[], input: FormProfileInput, now = new Date().toISOString()): FormProfile {
+  const id = profileId(input.provider, input.formSha256);
+  const i = profiles.findIndex((p) => p.id === id);
+  const profile: FormProfile = { id, ...input, createdAt: i === -1 ? now : profiles[i].createdAt, updatedAt: now };
+  if (i === -1) profiles.push(profile);
+  else profiles[i] = profile;
+  return profile;
+}
+
+/**
+ * What carries over from a profile saved from another version of the form:
+ * the field mappings and choices for fields `fieldNames` still has. Signature
+ * and PHI description positions and overlays are page coordinates, which mean
+ * nothing on a different PDF, so they are dropped.
+ */
+export function profileForFields(profile: FormProfile, fieldNames: string[]): FormProfile {
+  const present = new Set(fieldNames);
+  const fieldMappings = Object.fromEntries(
+    Object.entries(profile.fieldMappings).filter(([, field]) => field && present.has(field)),
+  ) as FieldMappings;
+  const choices = Object.entries(profile.choices ?? {}).filter(([field]) => present.has(field));
+  return {
+    ...profile,
+    fieldMappings,
+    choices: choices.length ? Object.fromEntries(choices) : undefined,
+    signaturePosition: undefined,
+    phiDescriptionPosition: undefined,
+    overlays: undefined,
+  };
+}
+
+/** Fill in what a config leaves out from a profile; the config's own values win */
+export function applyProfile<
+  T extends Pick<FormProfile, 'choices' | 'signaturePosition' | 'phiDescriptionPosition' | 'overlays'> & { fieldMappings?: FieldMappings },
+>(
+  config: T,
+  profile: FormProfile,
+): T & { fieldMappings: FieldMappings } {
+  return {
+    ...config,
+    fieldMappings: { ...profile.fieldMappings, ...config.fieldMappings },
+    choices: profile.choices || config.choices ? { ...profile.choices, ...config.choices } : undefined,
+    signaturePosition: config.signaturePosition ?? profile.signaturePosition,
+    phiDescriptionPosition: config.phiDescriptionPosition ?? profile.phiDescriptionPosition,
+    overlays: config.overlays ?? profile.overlays,
+  };
+}
+
+export function exportProfiles(profiles: FormProfile[], ids?: string[]): ProfileBundle {
+  const chosen = ids?.length ? profiles.filter((p) => ids.includes(p.id)) : profiles;
+  const unknown = (ids ?? []).filter((id) => !profiles.some((p) => p.id === id));
+  if (unknown.length) throw new Error(`No form profile with id ${unknown.map((id) => `"${id}"`).join(', ')}`);
+  return { format: BUNDLE_FORMAT, exportedAt: new Date().toISOString(), profiles: chosen };
+}
+
+/**
+ * Merge an exported bundle into `profiles`. A profile that is already present
+ * (same form and provider) is only replaced if the incoming one is newer, or
+ * if `overwrite` is set.
+ */
+export function importProfiles(
+  profiles: FormProfile[],
+  bundle: unknown,
+  options: { overwrite?: boolean } = {},
+): { added: string[]; updated: string[]; skipped: string[] } {
+  const { profiles: incoming } = assertValid<ProfileBundle>(FormProfileBundleSchema, bundle, 'form profile export');
+  const result = { added: [] as string[], updated: [] as string[], skipped: [] as string[] };
+  for (const profile of incoming) {
+    const id = profileId(profile.provider, profile.formSha256);
+    const i = profiles.findIndex((p) => p.id === id);
+    if (i === -1) {
+      profiles.push({ ...profile, id });
+      result.added.push(id);
+    } else if (options.overwrite || profile.updatedAt > profiles[i].updatedAt) {
+      profiles[i] = { ...profile, id };
+      result.updated.push(id);
+    } else {
+      result.skipped.push(id);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,190 @@
+/**
+ * Overlays: text and marks drawn onto a form page at fixed positions, for
+ * forms with no fillable fields (or fields in the wrong places). fillForm()
+ * in fill-and-merge.ts draws a config's `overlays` list with drawOverlays().
+ *
+ * Each overlay is placed by page (0-indexed) and x/topY in points, with topY
+ * measured from the top of the page to the top of the text or mark:
+ *
+ *   { "type": "text", "page": 0, "x": 72, "topY": 140, "text": "{patient.name}" }
+ *   { "type": "text", "x": 72, "topY": 400, "width": 250, "height": 30,
+ *     "text": "All records, including my EHI export. See Appendix A (attached)" }
+ *   { "type": "check", "x": 51, "topY": 512 }        a checkmark in a size x size square
+ *   { "type": "x", "x": 51, "topY": 530, "size": 8 }  an X mark
+ *   { "type": "date", "x": 400, "topY": 690 }         the request date
+ *   { "type": "initials", "x": 520, "topY": 610 }     the patient's initials
+ *
+ * Text may use {placeholders} for the request's values (see PLACEHOLDERS).
+ * With a width, text wraps onto as many lines as it needs ("wrap": false keeps
+ * it on one line, shrunk to fit the width); with a height too, the font
+ * shrinks until the wrapped text fits the box, down to MIN_FONT_SIZE.
+ */
+import { rgb, type PDFDocument, type PDFFont } from 'pdf-lib';
+
+export type OverlayType = 'text' | 'check' | 'x' | 'date' | 'initials';
+
+export interface Overlay {
+  type: OverlayType;
+  page?: number;    // 0-indexed, defaults to 0 (first page)
+  x: number;
+  topY: number;     // from the top of the page to the top of the text or mark
+  text?: string;    // type "text" only; may use {placeholders}
+  size?: number;    // font size, or the side of a check or X mark (default 10)
+  width?: number;   // text box width: wrap (or shrink) to fit it
+  height?: number;  // text box height: shrink the font until the text fits
+  wrap?: boolean;   // default true; false keeps text on one line
+  bold?: boolean;
+}
+
+export interface DrawnOverlay {
+  type: OverlayType;
+  page: number;
+  text?: string;  // what was written, for text, date and initials
+  size: number;   // the font size used, after any shrinking
+}
+
+export const PLACEHOLDERS = [
+  'patient.name', 'patient.dob', 'patient.street', 'patient.cityStateZip', 'patient.phone', 'patient.email',
+  'provider.name', 'provider.street', 'provider.cityStateZip', 'date', 'initials',
+] as const;
+
+export type OverlayValues = Partial<Record<(typeof PLACEHOLDERS)[number], string>>;
+
+export const DEFAULT_SIZE = 10;
+export const MIN_FONT_SIZE = 6;
+const LINE_SPACING = 1.2;
+const SHRINK_STEP = 0.5;
+const INK = rgb(0.05, 0.05, 0.15);
+
+/** "Jane Q. Patient" -> "JQP" */
+export function initials(name: string): string {
+  return name.split(/\s+/).map((word) => word.replace(/[^\p{L}]/gu, '').charAt(0).toUpperCase()).join('');
+}
+
+/** Fill in {placeholders}; `missing` lists the ones with no value */
+export function expandPlaceholders(text: string, values: OverlayValues): { text: string; missing: string[] } {
+  const missing: string[] = [];
+  const expanded = text.replace(/\{([\w.]+)\}/g, (_, name: string) => {
+    if (!(PLACEHOLDERS as readonly string[]).includes(name)) {
+      throw new Error(`Unknown placeholder {${name}}; use one of ${PLACEHOLDERS.map((p) => `{${p}}`).join(', ')}`);
+    }
+    const value = values[name as keyof OverlayValues];
+    if (!value) missing.push(name);
+    return value ?? '';
+  });
+  return { text: expanded, missing };
+}
+
+/** Break text into lines no wider than maxWidth; words longer than a line are split */
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const fits = (s: string) => font.widthOfTextAtSize(s, size) <= maxWidth;
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && fits(`${line} ${word}`)) {
+        line = `${line} ${word}`;
+        continue;
+      }
+      if (line) lines.push(line);
+      // A word wider than the line goes on in pieces
+      while (!fits(word) && word.length > 1) {
+        let n = word.length - 1;
+        while (n > 1 && !fits(word.slice(0, n))) n--;
+        lines.push(word.slice(0, n));
+        word = word.slice(n);
+      }
+      line = word;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Height of `lineCount` lines, from the top of the first to the bottom of the last */
+export function blockHeight(font: PDFFont, size: number, lineCount: number): number {
+  return font.heightAtSize(size) + (lineCount - 1) * size * LINE_SPACING;
+}
+
+/**
+ * Lay text out at `size`, shrinking it until it fits the box. `fits` is false
+ * when even MIN_FONT_SIZE overflows; the lines are still returned at that size.
+ */
+export function layoutText(
+  text: string,
+  font: PDFFont,
+  box: { size?: number; width?: number; height?: number; wrap?: boolean },
+): { lines: string[]; size: number; fits: boolean } {
+  const { width, height, wrap = true } = box;
+  let size = box.size ?? DEFAULT_SIZE;
+  for (;;) {
+    const lines = width && wrap ? wrapText(text, font, size, width) : text.split('\n');
+    const fitsWidth = !width || lines.every((l) => font.widthOfTextAtSize(l, size) <= width);
+    const fitsHeight = !height || blockHeight(font, size, lines.length) <= height;
+    // Unboxed text, and wrapped text with no height, are drawn at the size given
+    const canShrink = (!!width && !wrap) || !!height;
+    if ((fitsWidth && fitsHeight) || !canShrink) return { lines, size, fits: fitsWidth && fitsHeight };
+    if (size - SHRINK_STEP < MIN_FONT_SIZE) return { lines, size, fits: false };
+    size -= SHRINK_STEP;
+  }
+}
+
+function markPath(type: 'check' | 'x', s: number): string {
+  if (type === 'check') return `M ${0.1 * s} ${0.55 * s} L ${0.4 * s} ${0.85 * s} L ${0.9 * s} ${0.1 * s}`;
+  return `M ${0.1 * s} ${0.1 * s} L ${0.9 * s} ${0.9 * s} M ${0.9 * s} ${0.1 * s} L ${0.1 * s} ${0.9 * s}`;
+}
+
+/**
+ * Draw each overlay on its page. Throws on an overlay that can't be placed (no
+ * such page, text overlay without text, unknown placeholder); an overlay with
+ * a blank value or text that overflows its box becomes a warning.
+ */
+export function drawOverlays(
+  doc: PDFDocument,
+  overlays: Overlay[],
+  values: OverlayValues,
+  fonts: { regular: PDFFont; bold: PDFFont },
+): { drawn: DrawnOverlay[]; warnings: string[] } {
+  const pages = doc.getPages();
+  const drawn: DrawnOverlay[] = [];
+  const warnings: string[] = [];
+
+  overlays.forEach((overlay, i) => {
+    const where = `overlays[${i}]`;
+    const pageIndex = overlay.page ?? 0;
+    const page = pages[pageIndex];
+    if (!page) throw new Error(`${where}.page is ${pageIndex}, but the form has ${pages.length} page(s) (0-${pages.length - 1})`);
+    const top = page.getHeight() - overlay.topY;
+
+    if (overlay.type === 'check' || overlay.type === 'x') {
+      const size = overlay.size ?? DEFAULT_SIZE;
+      page.drawSvgPath(markPath(overlay.type, size), {
+        x: overlay.x,
+        y: top,
+        borderColor: INK,
+        borderWidth: Math.max(size / 8, 0.75),
+      });
+      drawn.push({ type: overlay.type, page: pageIndex, size });
+      return;
+    }
+
+    const source = overlay.type === 'date' ? '{date}' : overlay.type === 'initials' ? '{initials}' : overlay.text;
+    if (source === undefined) throw new Error(`${where}: a text overlay needs "text"`);
+    const { text, missing } = expandPlaceholders(source, values);
+    if (missing.length) {
+      warnings.push(`Left ${where} blank: no ${missing.join(', ')}`);
+      return;
+    }
+
+    const font = overlay.bold ? fonts.bold : fonts.regular;
+    const { lines, size, fits } = layoutText(text, font, overlay);
+    if (!fits) warnings.push(`${where} does not fit its ${overlay.width ?? '?'} x ${overlay.height ?? '?'} box, even at ${size}pt`);
+    const ascent = font.heightAtSize(size, { descender: false });
+    lines.forEach((line, n) => {
+      page.drawText(line, { x: overlay.x, y: top - ascent - n * size * LINE_SPACING, size, font, color: INK });
+    });
+    drawn.push({ type: overlay.type, page: pageIndex, text, size });
+  });
+
+  return { drawn, warnings };
+}
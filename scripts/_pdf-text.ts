@@ -0,0 +1,411 @@
+/**
+ * Positioned text from a PDF page's content stream, for finding the labels
+ * printed next to form fields.
+ *
+ * This is not a full text extractor: glyph widths come from the font's
+ * /Widths when it has them (otherwise half the font size), text is decoded
+ * through the font's ToUnicode CMap when there is one (otherwise byte by
+ * byte), and fonts that need neither are assumed to be ASCII-compatible.
+ * That is enough for the labels on fillable forms, which are what it is for.
+ */
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  type PDFDocument,
+  type PDFObject,
+} from 'pdf-lib';
+
+export interface TextLine {
+  text: string;
+  x: number;       // left edge of the first glyph, in PDF points
+  y: number;       // baseline, from the bottom of the page
+  width: number;   // estimated
+  size: number;    // font size after scaling
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: Uint8Array }
+  | { kind: 'name'; value: string }
+  | { kind: 'array'; value: Token[] }
+  | { kind: 'op'; value: string };
+
+interface Font {
+  decode(bytes: Uint8Array): Array<{ text: string; width: number }>;  // width in text space units
+}
+
+interface Run {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(a: Matrix, b: Matrix): Matrix {
+  return [
+    a[0] * b[0] + a[1] * b[2], a[0] * b[1] + a[1] * b[3],
+    a[2] * b[0] + a[3] * b[2], a[2] * b[1] + a[3] * b[3],
+    a[4] * b[0] + a[5] * b[2] + b[4], a[4] * b[1] + a[5] * b[3] + b[5],
+  ];
+}
+
+function translate(tx: number, ty: number): Matrix {
+  return [1, 0, 0, 1, tx, ty];
+}
+
+// ---------------------------------------------------------------------------
+// Content stream tokenizer
+// ---------------------------------------------------------------------------
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+function* tokenize(bytes: Uint8Array): Generator<Token> {
+  let i = 0;
+  const stack: Token[][] = [];
+
+  function emit(token: Token): Token | undefined {
+    if (stack.length) { stack[stack.length - 1].push(token); return undefined; }
+    return token;
+  }
+
+  function readRegular(): string {
+    const start = i;
+    while (i < bytes.length && !WHITESPACE.has(bytes[i]) && !DELIMITERS.has(bytes[i])) i++;
+    return String.fromCharCode(...bytes.subarray(start, i));
+  }
+
+  while (i < bytes.length) {
+    const c = bytes[i];
+    let token: Token | undefined;
+    if (WHITESPACE.has(c)) { i++; continue; }
+    if (c === 0x25) {  // % comment
+      while (i < bytes.length && bytes[i] !== 0x0a && bytes[i] !== 0x0d) i++;
+      continue;
+    }
+    if (c === 0x28) {  // ( literal string )
+      const out: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < bytes.length) {
+        const b = bytes[i++];
+        if (b === 0x5c) {
+          const e = bytes[i++];
+          const escapes: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+          if (escapes[e] !== undefined) out.push(escapes[e]);
+          else if (e >= 0x30 && e <= 0x37) {
+            let octal = e - 0x30;
+            for (let n = 0; n < 2 && bytes[i] >= 0x30 && bytes[i] <= 0x37; n++) octal = octal * 8 + bytes[i++] - 0x30;
+            out.push(octal & 0xff);
+          } else if (e === 0x0d) {
+            if (bytes[i] === 0x0a) i++;
+          } else if (e !== 0x0a) out.push(e);
+        } else if (b === 0x28) { depth++; out.push(b); }
+        else if (b === 0x29) { if (--depth === 0) break; out.push(b); }
+        else out.push(b);
+      }
+      token = emit({ kind: 'string', value: Uint8Array.from(out) });
+    } else if (c === 0x3c && bytes[i + 1] === 0x3c) {  // << dict >>: only inline in BDC/BI, skip it
+      let depth = 0;
+      while (i < bytes.length) {
+        if (bytes[i] === 0x3c && bytes[i + 1] === 0x3c) { depth++; i += 2; }
+        else if (bytes[i] === 0x3e && bytes[i + 1] === 0x3e) { i += 2; if (--depth === 0) break; }
+        else i++;
+      }
+      continue;
+    } else if (c === 0x3c) {  // <hex string>
+      const end = bytes.indexOf(0x3e, i);
+      const hex = String.fromCharCode(...bytes.subarray(i + 1, end === -1 ? bytes.length : end)).replace(/\s/g, '');
+      const padded = hex.length % 2 ? `${hex}0` : hex;
+      const out = new Uint8Array(padded.length / 2);
+      for (let n = 0; n < out.length; n++) out[n] = parseInt(padded.slice(n * 2, n * 2 + 2), 16);
+      i = end === -1 ? bytes.length : end + 1;
+      token = emit({ kind: 'string', value: out });
+    } else if (c === 0x5b) {  // [
+      stack.push([]);
+      i++;
+      continue;
+    } else if (c === 0x5d) {  // ]
+      i++;
+      const items = stack.pop();
+      if (items) token = emit({ kind: 'array', value: items });
+    } else if (c === 0x2f) {  // /Name
+      i++;
+      token = emit({ kind: 'name', value: readRegular() });
+    } else if (DELIMITERS.has(c)) {
+      i++;
+      continue;
+    } else {
+      const word = readRegular();
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        token = emit({ kind: 'number', value: parseFloat(word) });
+      } else if (word === 'BI') {
+        // Inline image: skip its data, which can contain anything, up to EI
+        const end = findInlineImageEnd(bytes, i);
+        i = end;
+        continue;
+      } else {
+        stack.length = 0;  // an operator ends any unterminated array
+        token = { kind: 'op', value: word };
+      }
+    }
+    if (token) yield token;
+  }
+}
+
+function findInlineImageEnd(bytes: Uint8Array, from: number): number {
+  for (let i = from; i < bytes.length - 2; i++) {
+    if (bytes[i] === 0x45 && bytes[i + 1] === 0x49 && WHITESPACE.has(bytes[i - 1]) &&
+        (i + 2 === bytes.length || WHITESPACE.has(bytes[i + 2]))) {
+      return i + 2;
+    }
+  }
+  return bytes.length;
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+// ---------------------------------------------------------------------------
+function streamBytes(stream: PDFObject | undefined): Uint8Array {
+  if (stream instanceof PDFRawStream) return decodePDFRawStream(stream).decode();
+  if (stream instanceof PDFStream) return (stream as PDFStream & { getUnencodedContents(): Uint8Array }).getUnencodedContents();
+  return new Uint8Array();
+}
+
+function utf16(hex: string): string {
+  let out = '';
+  for (let i = 0; i + 4 <= hex.length; i += 4) out += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  return out;
+}
+
+/** Code -> text from a ToUnicode CMap's bfchar and bfrange sections */
+function parseToUnicode(cmap: string): { map: Map<number, string>; codeBytes: number } {
+  const map = new Map<number, string>();
+  let codeBytes = 1;
+  const range = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/;
+  for (const section of cmap.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+    const m = section[1].match(range);
+    if (m) codeBytes = Math.max(codeBytes, m[1].length / 2);
+  }
+  for (const section of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const m of section[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(m[1], 16), utf16(m[2]));
+    }
+  }
+  for (const section of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const m of section[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const lo = parseInt(m[1], 16), hi = parseInt(m[2], 16);
+      if (m[3].startsWith('[')) {
+        [...m[3].matchAll(/<([0-9a-fA-F]*)>/g)].forEach((d, n) => map.set(lo + n, utf16(d[1])));
+      } else {
+        const dst = m[3].slice(1, -1);
+        const base = utf16(dst);
+        for (let code = lo; code <= hi && code - lo < 0x10000; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - lo));
+        }
+      }
+    }
+  }
+  return { map, codeBytes };
+}
+
+function loadFont(doc: PDFDocument, dict: PDFDict | undefined): Font {
+  const lookupNumber = (key: string) => {
+    const n = dict?.lookup(PDFName.of(key));
+    return n instanceof PDFNumber ? n.asNumber() : undefined;
+  };
+  const subtype = dict?.lookup(PDFName.of('Subtype'))?.toString();
+  const toUnicode = dict?.lookup(PDFName.of('ToUnicode'));
+  const cmap = toUnicode ? parseToUnicode(new TextDecoder('latin1').decode(streamBytes(toUnicode))) : undefined;
+  const codeBytes = subtype === '/Type0' ? 2 : cmap?.codeBytes ?? 1;
+
+  // Glyph widths, in text space units per unit of font size
+  let scale = 1 / 1000;
+  const fontMatrix = dict?.lookup(PDFName.of('FontMatrix'));
+  if (subtype === '/Type3' && fontMatrix instanceof PDFArray) {
+    const a = fontMatrix.lookup(0);
+    if (a instanceof PDFNumber) scale = a.asNumber();
+  }
+  const firstChar = lookupNumber('FirstChar') ?? 0;
+  const widthsArray = dict?.lookup(PDFName.of('Widths'));
+  const widths = widthsArray instanceof PDFArray
+    ? widthsArray.asArray().map((w) => (doc.context.lookup(w) as PDFNumber | undefined)?.asNumber?.() ?? 0)
+    : undefined;
+
+  return {
+    decode(bytes) {
+      const glyphs: Array<{ text: string; width: number }> = [];
+      for (let i = 0; i + codeBytes <= bytes.length; i += codeBytes) {
+        let code = 0;
+        for (let n = 0; n < codeBytes; n++) code = code * 256 + bytes[i + n];
+        const text = cmap ? cmap.map.get(code) ?? '' : codeBytes === 1 ? String.fromCharCode(code) : '';
+        const w = widths?.[code - firstChar];
+        glyphs.push({ text, width: w !== undefined && w > 0 ? w * scale : 0.5 });
+      }
+      return glyphs;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Interpreter
+// ---------------------------------------------------------------------------
+function runsFromContent(
+  doc: PDFDocument,
+  content: Uint8Array,
+  resources: PDFDict | undefined,
+  ctm: Matrix,
+  runs: Run[],
+  depth: number,
+) {
+  const fonts = new Map<string, Font>();
+  const fontDict = resources?.lookup(PDFName.of('Font'));
+  const xObjects = resources?.lookup(PDFName.of('XObject'));
+  function font(name: string): Font {
+    if (!fonts.has(name)) {
+      const dict = fontDict instanceof PDFDict ? fontDict.lookup(PDFName.of(name)) : undefined;
+      fonts.set(name, loadFont(doc, dict instanceof PDFDict ? dict : undefined));
+    }
+    return fonts.get(name)!;
+  }
+
+  const stack: Matrix[] = [];
+  let tm: Matrix = IDENTITY, tlm: Matrix = IDENTITY;
+  let current: Font | undefined, size = 0, leading = 0, charSpacing = 0, wordSpacing = 0, hScale = 1;
+  let spaceBefore = false;
+  let operands: Token[] = [];
+  const num = (n: number) => (operands[n]?.kind === 'number' ? (operands[n].value as number) : 0);
+
+  function nextLine(tx: number, ty: number) {
+    tlm = multiply(translate(tx, ty), tlm);
+    tm = tlm;
+  }
+
+  function show(bytes: Uint8Array) {
+    if (!current) return;
+    const m = multiply(tm, ctm);
+    const scaleY = Math.hypot(m[2], m[3]);
+    let text = '', advance = 0;
+    for (const glyph of current.decode(bytes)) {
+      text += glyph.text;
+      advance += (glyph.width * size + charSpacing + (glyph.text === ' ' ? wordSpacing : 0)) * hScale;
+    }
+    if (text.trim()) {
+      if (spaceBefore) text = ` ${text}`;
+      runs.push({ text, x: m[4], y: m[5], width: advance * Math.hypot(m[0], m[1]), size: size * scaleY });
+      spaceBefore = false;
+    }
+    tm = multiply(translate(advance, 0), tm);
+  }
+
+  for (const token of tokenize(content)) {
+    if (token.kind !== 'op') { operands.push(token); continue; }
+    switch (token.value) {
+      case 'q': stack.push(ctm); break;
+      case 'Q': ctm = stack.pop() ?? ctm; break;
+      case 'cm': ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], ctm); break;
+      case 'BT': tm = tlm = IDENTITY; spaceBefore = false; break;
+      case 'Tf':
+        if (operands[0]?.kind === 'name') current = font(operands[0].value);
+        size = num(1);
+        break;
+      case 'Tc': charSpacing = num(0); break;
+      case 'Tw': wordSpacing = num(0); break;
+      case 'Tz': hScale = num(0) / 100; break;
+      case 'TL': leading = num(0); break;
+      case 'Td': nextLine(num(0), num(1)); break;
+      case 'TD': leading = -num(1); nextLine(num(0), num(1)); break;
+      case 'Tm': tm = tlm = [num(0), num(1), num(2), num(3), num(4), num(5)]; break;
+      case 'T*': nextLine(0, -leading); break;
+      case 'Tj':
+        if (operands[0]?.kind === 'string') show(operands[0].value);
+        break;
+      case "'":
+        nextLine(0, -leading);
+        if (operands[0]?.kind === 'string') show(operands[0].value);
+        break;
+      case '"':
+        wordSpacing = num(0);
+        charSpacing = num(1);
+        nextLine(0, -leading);
+        if (operands[2]?.kind === 'string') show(operands[2].value);
+        break;
+      case 'TJ':
+        if (operands[0]?.kind !== 'array') break;
+        for (const item of operands[0].value) {
+          if (item.kind === 'string') show(item.value);
+          else if (item.kind === 'number') {
+            // Big negative adjustments are how many generators write word spaces
+            if (item.value < -200) spaceBefore = true;
+            tm = multiply(translate((-item.value / 1000) * size * hScale, 0), tm);
+          }
+        }
+        break;
+      case 'Do': {
+        if (depth > 5 || operands[0]?.kind !== 'name' || !(xObjects instanceof PDFDict)) break;
+        const xObject = xObjects.lookup(PDFName.of(operands[0].value));
+        if (!(xObject instanceof PDFStream) || xObject.dict.lookup(PDFName.of('Subtype'))?.toString() !== '/Form') break;
+        const matrix = xObject.dict.lookup(PDFName.of('Matrix'));
+        const m = matrix instanceof PDFArray
+          ? (matrix.asArray().map((v) => (v instanceof PDFNumber ? v.asNumber() : 0)) as Matrix)
+          : IDENTITY;
+        const own = xObject.dict.lookup(PDFName.of('Resources'));
+        runsFromContent(doc, streamBytes(xObject), own instanceof PDFDict ? own : resources, multiply(m, ctm), runs, depth + 1);
+        break;
+      }
+    }
+    operands = [];
+  }
+}
+
+/** Join runs that sit on the same baseline and close together into lines */
+function toLines(runs: Run[]): TextLine[] {
+  const lines: TextLine[] = [];
+  let line: TextLine | undefined;
+  for (const run of runs) {
+    const end = line ? line.x + line.width : 0;
+    if (line && Math.abs(run.y - line.y) <= Math.max(1, line.size * 0.2) &&
+        run.x >= end - line.size && run.x - end <= line.size * 1.5) {
+      if (run.x - end > line.size * 0.2 && !line.text.endsWith(' ') && !run.text.startsWith(' ')) line.text += ' ';
+      line.text += run.text;
+      line.width = Math.max(line.width, run.x + run.width - line.x);
+    } else {
+      line = { text: run.text, x: run.x, y: run.y, width: run.width, size: run.size };
+      lines.push(line);
+    }
+  }
+  return lines
+    .map((l) => ({ ...l, text: l.text.replace(/\s+/g, ' ').trim() }))
+    .filter((l) => l.text);
+}
+
+/** The text lines drawn on one page (0-indexed), in content stream order */
+export function extractPageText(doc: PDFDocument, pageIndex: number): TextLine[] {
+  const page = doc.getPage(pageIndex);
+  const contents = page.node.Contents();
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map((ref) => doc.context.lookup(ref))
+    : [contents instanceof PDFRef ? doc.context.lookup(contents) : contents];
+  const parts = streams.map((s) => streamBytes(s as PDFObject | undefined));
+  // Streams in a /Contents array are one content stream split up
+  const joined = new Uint8Array(parts.reduce((n, p) => n + p.length + 1, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    joined[offset + part.length] = 0x0a;
+    offset += part.length + 1;
+  }
+  const runs: Run[] = [];
+  runsFromContent(doc, joined, page.node.Resources(), IDENTITY, runs, 0);
+  return toLines(runs);
+}
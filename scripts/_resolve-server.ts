@@ -3,10 +3,12 @@ import { dirname, join } from 'path';
 
 const scriptDir = dirname(Bun.main);
 let relayUrl: string | undefined;
+let relayToken: string | undefined;
 
 try {
   const config = JSON.parse(readFileSync(join(scriptDir, 'config.json'), 'utf-8'));
   relayUrl = config.relayUrl;
+  relayToken = config.relayToken;
 } catch {}
 
 export function resolveServerUrl(cliArg?: string): string {
@@ -15,3 +17,12 @@ export function resolveServerUrl(cliArg?: string): string {
   console.error('Error: No server URL. Pass as first argument or set relayUrl in scripts/config.json');
   process.exit(1);
 }
+
+/**
+ * Headers for relay requests: the API token from EHI_RELAY_TOKEN or
+ * scripts/config.json (relayToken), when the relay issued one
+ */
+export function relayHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  const token = process.env.EHI_RELAY_TOKEN || relayToken;
+  return token ? { ...headers, Authorization: `Bearer ${token}` } : headers;
+}
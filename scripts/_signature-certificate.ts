@@ -0,0 +1,221 @@
+/**
+ * The "Electronic Signature Certificate" page: the evidence behind an
+ * e-signature, for the provider. fill-and-merge.ts and build-package.ts
+ * append it to the package when given the signature-metadata.json that
+ * poll-signature.ts wrote.
+ *
+ * It shows who signed, when the signing session was created and when the
+ * signature was submitted (from the relay's audit log, in UTC), the session
+ * id, a SHA-256 of each captured image and of each document the signer was
+ * shown, and the E-SIGN/UETA consent text the signer checked. Anything the metadata doesn't record (older
+ * poll-signature.ts runs kept less) is printed as "Not recorded".
+ */
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import { wrapText } from './_overlays.ts';
+
+export interface SignatureAuditEntry {
+  timestamp: string;
+  event: string;  // "created", "submitted", "expired"
+  ip?: string;
+  userAgent?: string;
+  consentText?: string;       // "consented"
+  documentSha256?: string[];  // "consented"
+}
+
+/** One capture of a session with slots (see create-signature-session.ts --slots) */
+export interface SignatureSlotRecord {
+  id: string;
+  kind: 'signature' | 'initials' | 'typedName';
+  signer: string;
+  label?: string;
+  text?: string;  // typed names only
+  capturedAt?: string;
+  sha256?: string;
+}
+
+/** signature-metadata.json, as poll-signature.ts writes it */
+export interface SignatureMetadata {
+  sessionId?: string;
+  signerName?: string;
+  timestamp: string;          // when the signer submitted, by their device's clock
+  consentText?: string;       // the consent statement the signer checked
+  consentedAt?: string;
+  documentsShown?: Array<{ name: string; type: string; sha256: string }>;  // previewed on the signing page
+  signatureSha256?: string;   // of signature.png; sessions without slots
+  slots?: SignatureSlotRecord[];
+  auditLog: SignatureAuditEntry[];
+}
+
+const PAGE = { width: 612, height: 792, margin: 72 };
+const LABEL_WIDTH = 150;
+const SIZE = 10;
+const HASH_SIZE = 8;
+const LINE = SIZE * 1.4;
+const NOT_RECORDED = 'Not recorded';
+
+export function sha256Hex(bytes: Uint8Array | ArrayBuffer): string {
+  return createHash('sha256').update(new Uint8Array(bytes)).digest('hex');
+}
+
+export function loadSignatureMetadata(path: string): SignatureMetadata {
+  if (!existsSync(path)) throw new Error(`Signature metadata not found: ${path}`);
+  let metadata: SignatureMetadata;
+  try {
+    metadata = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`${path}: ${(err as Error).message}`);
+  }
+  if (typeof metadata?.timestamp !== 'string' || !Array.isArray(metadata.auditLog)) {
+    throw new Error(`${path} is not a signature-metadata.json from poll-signature.ts`);
+  }
+  return metadata;
+}
+
+/** The SHA-256 of every image the metadata describes */
+export function recordedImageHashes(metadata: SignatureMetadata): string[] {
+  const hashes = metadata.slots ? metadata.slots.map((s) => s.sha256) : [metadata.signatureSha256];
+  return hashes.filter((h): h is string => !!h);
+}
+
+/** A warning when the signature being placed is not an image the metadata describes */
+export function signatureMismatchWarning(metadata: SignatureMetadata, signatureBytes: Uint8Array | ArrayBuffer): string | undefined {
+  const recorded = recordedImageHashes(metadata);
+  if (!recorded.length || recorded.includes(sha256Hex(signatureBytes))) return undefined;
+  return 'The signature image is not one the signature metadata records (its SHA-256 differs), so the certificate does not describe it';
+}
+
+/** "2026-02-18T18:05:00.123Z" -> "2026-02-18 18:05:00 UTC" */
+function formatTimestamp(timestamp: string | undefined): string {
+  if (!timestamp) return NOT_RECORDED;
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return timestamp;
+  return date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+}
+
+const KIND_NAMES = { signature: 'Signature', initials: 'Initials', typedName: 'Typed name' };
+
+/** Standard fonts only encode WinAnsi; names and consent text can hold anything */
+function printable(text: string): string {
+  return text.replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/[^\x20-\x7e\xa0-\xff\n]/g, '?');
+}
+
+/** Writes top to bottom, starting a new page when the current one is full */
+class Writer {
+  page!: PDFPage;
+  y = 0;
+
+  constructor(
+    private doc: PDFDocument,
+    private fonts: { regular: PDFFont; bold: PDFFont; mono: PDFFont },
+  ) {
+    this.newPage();
+  }
+
+  newPage() {
+    this.page = this.doc.addPage([PAGE.width, PAGE.height]);
+    this.y = PAGE.height - PAGE.margin;
+  }
+
+  /** Room for `height` more points on this page, or a new page */
+  need(height: number) {
+    if (this.y - height < PAGE.margin) this.newPage();
+  }
+
+  text(text: string, options: { bold?: boolean; size?: number; gap?: number } = {}) {
+    const size = options.size ?? SIZE;
+    const font = options.bold ? this.fonts.bold : this.fonts.regular;
+    for (const line of wrapText(printable(text), font, size, PAGE.width - 2 * PAGE.margin)) {
+      this.need(size * 1.4);
+      this.y -= size * 1.4;
+      this.page.drawText(line, { x: PAGE.margin, y: this.y, size, font });
+    }
+    this.y -= options.gap ?? 0;
+  }
+
+  /** A label in the left column and its value, wrapped, in the right */
+  row(label: string, value: string, options: { mono?: boolean } = {}) {
+    const size = options.mono ? HASH_SIZE : SIZE;
+    const font = options.mono ? this.fonts.mono : this.fonts.regular;
+    const lines = wrapText(printable(value), font, size, PAGE.width - 2 * PAGE.margin - LABEL_WIDTH);
+    this.need(lines.length * LINE);
+    this.y -= LINE;
+    this.page.drawText(label, { x: PAGE.margin, y: this.y, size: SIZE, font: this.fonts.bold });
+    lines.forEach((line, n) => {
+      if (n) this.y -= LINE;
+      this.page.drawText(line, { x: PAGE.margin + LABEL_WIDTH, y: this.y, size, font });
+    });
+  }
+
+  rule() {
+    this.need(LINE);
+    this.y -= LINE / 2;
+    this.page.drawLine({
+      start: { x: PAGE.margin, y: this.y },
+      end: { x: PAGE.width - PAGE.margin, y: this.y },
+      thickness: 0.5,
+      color: rgb(0.6, 0.6, 0.6),
+    });
+  }
+}
+
+/**
+ * Render the certificate. `signerName` is the fallback for metadata that
+ * names no signer (sessions created without --signer-name or slots).
+ */
+export async function renderSignatureCertificate(
+  metadata: SignatureMetadata,
+  options: { signerName?: string } = {},
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const out = new Writer(doc, {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    mono: await doc.embedFont(StandardFonts.Courier),
+  });
+  const event = (name: string) => metadata.auditLog.find((e) => e.event === name)?.timestamp;
+  const slotSigners = [...new Set((metadata.slots ?? []).map((s) => s.signer))];
+
+  out.text('Electronic Signature Certificate', { bold: true, size: 16, gap: 6 });
+  out.text(
+    'The signatures on the attached request were captured electronically. This page records how, so that ' +
+      'each image can be matched to the signing session it came from.',
+    { gap: 4 },
+  );
+  out.rule();
+  const signer = slotSigners.length ? slotSigners.join(', ') : metadata.signerName ?? options.signerName ?? NOT_RECORDED;
+  out.row(slotSigners.length > 1 ? 'Signers' : 'Signer', signer);
+  out.row('Session ID', metadata.sessionId ?? NOT_RECORDED, { mono: !!metadata.sessionId });
+  out.row('Session created', formatTimestamp(event('created')));
+  out.row('Signature submitted', formatTimestamp(event('submitted') ?? metadata.timestamp));
+  if (metadata.consentedAt) out.row('Consent given', formatTimestamp(metadata.consentedAt));
+  for (const doc of metadata.documentsShown ?? []) {
+    out.rule();
+    out.row('Document shown', doc.name);
+    out.row('Document SHA-256', doc.sha256, { mono: true });
+  }
+
+  if (metadata.slots) {
+    for (const slot of metadata.slots) {
+      out.rule();
+      out.row(KIND_NAMES[slot.kind] ?? slot.kind, slot.label ? `${slot.label} (${slot.signer})` : slot.signer);
+      if (slot.text) out.row('Name typed', slot.text);
+      out.row('Captured', formatTimestamp(slot.capturedAt));
+      out.row('Image SHA-256', slot.sha256 ?? NOT_RECORDED, { mono: !!slot.sha256 });
+    }
+  } else {
+    out.row('Signature image SHA-256', metadata.signatureSha256 ?? NOT_RECORDED, { mono: !!metadata.signatureSha256 });
+  }
+
+  out.rule();
+  out.text('Consent shown to the signer', { bold: true, gap: 2 });
+  const consented = metadata.auditLog.find((e) => e.event === 'consented');
+  out.text(metadata.consentText ?? consented?.consentText ?? NOT_RECORDED, { gap: 8 });
+  out.text(
+    'Times are from the signing service\'s audit log, in UTC. A SHA-256 is computed over the PNG file as ' +
+      'received; any change to the image gives a different value.',
+    { size: 8 },
+  );
+  return doc.save();
+}
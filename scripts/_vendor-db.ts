@@ -0,0 +1,287 @@
+/**
+ * EHI Export vendor database with a local snapshot cache.
+ *
+ * vendors.json and the per-vendor analysis markdown are published at
+ * joshuamandel.com. Snapshots of both are kept under ~/.request-my-ehi/vendors
+ * (or $VENDOR_CACHE_DIR):
+ *
+ *   snapshots/<id>/vendors.json
+ *   snapshots/<id>/analyses/<slug>.md
+ *   snapshots/<id>/meta.json
+ *   pinned                          id of the snapshot lookups use by default
+ *
+ * Lookups read the pinned snapshot so results don't change between runs; the
+ * first lookup with an empty cache fetches and pins one. A live lookup falls
+ * back to the pinned snapshot when the fetch fails.
+ */
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+const DEFAULT_SOURCE = 'https://joshuamandel.com/ehi-export-analysis/data';
+const FETCH_TIMEOUT_MS = 15_000;
+const FETCH_CONCURRENCY = 8;
+
+export interface Vendor {
+  developer?: string;
+  product_name?: string;
+  family?: string;
+  slug?: string;
+  grade?: string;
+  coverage?: string;
+  approach?: string;
+  export_formats?: string[];
+  entity_count?: number;
+  field_count?: number;
+  ehi_documentation_url?: string;
+  summary?: string;
+  has_data_dictionary?: boolean;
+  has_sample_data?: boolean;
+  includes_billing?: boolean;
+  patient_communications?: string;
+  chpl_ids?: number[];
+}
+
+/** The vendor object generate-appendix.ts accepts */
+export interface VendorConfig {
+  developer?: string;
+  product_name?: string;
+  export_formats?: string[];
+  ehi_documentation_url?: string;
+  entity_count?: number;
+  field_count?: number;
+  summary?: string;
+  grade?: string;
+  coverage?: string;
+  approach?: string;
+  userwebTip?: string;
+  certification?: VendorCertification;
+}
+
+/** A (b)(10)-certified CHPL listing, from check-chpl.ts --json */
+export interface VendorCertification {
+  chpl_product_number: string;
+  chpl_listing_id?: number;
+  product: string;              // certified product and version as listed
+  certification_date?: string;  // YYYY-MM-DD
+  verified_on: string;          // date of the CHPL extract it was checked against
+}
+
+const VENDOR_CONFIG_FIELDS = [
+  'developer', 'product_name', 'export_formats', 'ehi_documentation_url', 'entity_count',
+  'field_count', 'summary', 'grade', 'coverage', 'approach',
+] as const;
+
+/** Just the fields of a database record that the appendix uses */
+export function toVendorConfig(v: Vendor): VendorConfig {
+  const config: Record<string, unknown> = {};
+  for (const field of VENDOR_CONFIG_FIELDS) {
+    if (v[field] !== undefined && v[field] !== null) config[field] = v[field];
+  }
+  return config as VendorConfig;
+}
+
+export interface SnapshotMeta {
+  id: string;
+  fetchedAt: string;
+  source: string;
+  vendorCount: number;
+  analysisCount: number;
+  sha256: string; // of vendors.json as fetched
+}
+
+export interface VendorDb {
+  vendors: Vendor[];
+  snapshot?: string; // undefined when the data came straight from the network
+  warning?: string;
+}
+
+export function sourceUrl(): string {
+  return (process.env.VENDOR_DB_URL || DEFAULT_SOURCE).replace(/\/$/, '');
+}
+
+export function cacheDir(): string {
+  return process.env.VENDOR_CACHE_DIR || join(homedir(), '.request-my-ehi', 'vendors');
+}
+
+function snapshotDir(id: string): string {
+  return join(cacheDir(), 'snapshots', id);
+}
+
+async function fetchText(url: string): Promise<string | null> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+  return res.text();
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+export function listSnapshots(): SnapshotMeta[] {
+  const dir = join(cacheDir(), 'snapshots');
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((id) => existsSync(join(dir, id, 'meta.json')))
+    .map((id) => JSON.parse(readFileSync(join(dir, id, 'meta.json'), 'utf-8')) as SnapshotMeta)
+    .sort((a, b) => a.fetchedAt.localeCompare(b.fetchedAt));
+}
+
+export function pinnedSnapshotId(): string | undefined {
+  const path = join(cacheDir(), 'pinned');
+  return existsSync(path) ? readFileSync(path, 'utf-8').trim() || undefined : undefined;
+}
+
+export function pinSnapshot(id: string) {
+  if (!existsSync(join(snapshotDir(id), 'meta.json'))) {
+    throw new Error(`No vendor snapshot "${id}" in ${cacheDir()}`);
+  }
+  writeFileSync(join(cacheDir(), 'pinned'), id + '\n');
+}
+
+export function loadSnapshot(id: string): Vendor[] {
+  const path = join(snapshotDir(id), 'vendors.json');
+  if (!existsSync(path)) throw new Error(`No vendor snapshot "${id}" in ${cacheDir()}`);
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+/** Write a snapshot; returns the existing one instead if vendors.json is unchanged */
+export function saveSnapshot(
+  vendorsJson: string,
+  analyses: Record<string, string> = {},
+  fetchedAt = new Date()
+): { meta: SnapshotMeta; created: boolean } {
+  const sha256 = createHash('sha256').update(vendorsJson).digest('hex');
+  const existing = listSnapshots().find((s) => s.sha256 === sha256);
+  if (existing) return { meta: existing, created: false };
+
+  // 2026-10-18T18:30:00.000Z -> 20261018T183000Z
+  let id = fetchedAt.toISOString().replace(/[-:]/g, '').slice(0, 15) + 'Z';
+  if (existsSync(snapshotDir(id))) id += `-${sha256.slice(0, 8)}`;
+  const dir = snapshotDir(id);
+  mkdirSync(join(dir, 'analyses'), { recursive: true });
+  writeFileSync(join(dir, 'vendors.json'), vendorsJson);
+  for (const [slug, md] of Object.entries(analyses)) {
+    writeFileSync(join(dir, 'analyses', `${slug}.md`), md);
+  }
+  const meta: SnapshotMeta = {
+    id,
+    fetchedAt: fetchedAt.toISOString(),
+    source: sourceUrl(),
+    vendorCount: (JSON.parse(vendorsJson) as Vendor[]).length,
+    analysisCount: Object.keys(analyses).length,
+    sha256,
+  };
+  writeFileSync(join(dir, 'meta.json'), JSON.stringify(meta, null, 2) + '\n');
+  return { meta, created: true };
+}
+
+/** Fetch vendors.json and every analysis into a new snapshot */
+export async function refreshSnapshot(options: { pin?: boolean } = {}): Promise<{ meta: SnapshotMeta; created: boolean }> {
+  const vendorsJson = await fetchText(`${sourceUrl()}/vendors.json`);
+  if (!vendorsJson) throw new Error(`${sourceUrl()}/vendors.json not found`);
+  const vendors: Vendor[] = JSON.parse(vendorsJson);
+
+  const analyses: Record<string, string> = {};
+  const slugs = vendors.map((v) => v.slug).filter((slug): slug is string => !!slug);
+  for (let i = 0; i < slugs.length; i += FETCH_CONCURRENCY) {
+    await Promise.all(slugs.slice(i, i + FETCH_CONCURRENCY).map(async (slug) => {
+      const md = await fetchText(`${sourceUrl()}/analyses/${slug}.md`).catch(() => null);
+      if (md) analyses[slug] = md;
+    }));
+  }
+
+  const result = saveSnapshot(vendorsJson, analyses);
+  if (options.pin ?? true) pinSnapshot(result.meta.id);
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Lookups
+// ---------------------------------------------------------------------------
+export async function loadVendorDb(options: { snapshot?: string; live?: boolean } = {}): Promise<VendorDb> {
+  if (options.snapshot) {
+    return { vendors: loadSnapshot(options.snapshot), snapshot: options.snapshot };
+  }
+
+  const pinned = pinnedSnapshotId();
+  if (pinned && !options.live) {
+    return { vendors: loadSnapshot(pinned), snapshot: pinned };
+  }
+
+  try {
+    if (!pinned) {
+      // Empty cache: the first lookup pins what it fetched
+      const { meta } = await refreshSnapshot({ pin: true });
+      return { vendors: loadSnapshot(meta.id), snapshot: meta.id };
+    }
+    const vendorsJson = await fetchText(`${sourceUrl()}/vendors.json`);
+    if (!vendorsJson) throw new Error('vendors.json not found');
+    return { vendors: JSON.parse(vendorsJson) };
+  } catch (err) {
+    if (!pinned) throw new Error(`Could not fetch the vendor database and no cached snapshot exists: ${(err as Error).message}`);
+    return {
+      vendors: loadSnapshot(pinned),
+      snapshot: pinned,
+      warning: `Could not fetch the vendor database (${(err as Error).message}); using cached snapshot ${pinned}`,
+    };
+  }
+}
+
+/** Analysis markdown for a vendor, from the same source the vendor list came from */
+export async function loadAnalysis(db: VendorDb, slug: string): Promise<string | null> {
+  if (db.snapshot) {
+    const path = join(snapshotDir(db.snapshot), 'analyses', `${slug}.md`);
+    return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+  }
+  try {
+    return await fetchText(`${sourceUrl()}/analyses/${slug}.md`);
+  } catch {
+    const pinned = pinnedSnapshotId();
+    return pinned ? loadAnalysis({ vendors: [], snapshot: pinned }, slug) : null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+export const DIFF_FIELDS = ['grade', 'coverage', 'export_formats', 'ehi_documentation_url'] as const;
+
+export interface VendorChange {
+  key: string;
+  developer?: string;
+  product_name?: string;
+  changes: Array<{ field: (typeof DIFF_FIELDS)[number]; from: unknown; to: unknown }>;
+}
+
+export interface VendorDiff {
+  added: Vendor[];
+  removed: Vendor[];
+  changed: VendorChange[];
+}
+
+function vendorKey(v: Vendor): string {
+  return v.slug || `${v.developer ?? ''}|${v.product_name ?? ''}`;
+}
+
+export function diffVendors(from: Vendor[], to: Vendor[]): VendorDiff {
+  const before = new Map(from.map((v) => [vendorKey(v), v]));
+  const after = new Map(to.map((v) => [vendorKey(v), v]));
+
+  const changed: VendorChange[] = [];
+  for (const [key, next] of after) {
+    const prev = before.get(key);
+    if (!prev) continue;
+    const changes = DIFF_FIELDS
+      .filter((field) => JSON.stringify(prev[field] ?? null) !== JSON.stringify(next[field] ?? null))
+      .map((field) => ({ field, from: prev[field] ?? null, to: next[field] ?? null }));
+    if (changes.length) changed.push({ key, developer: next.developer, product_name: next.product_name, changes });
+  }
+
+  return {
+    added: to.filter((v) => !before.has(vendorKey(v))),
+    removed: from.filter((v) => !after.has(vendorKey(v))),
+    changed,
+  };
+}
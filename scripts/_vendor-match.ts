@@ -0,0 +1,170 @@
+/**
+ * Ranked vendor matching for lookup-vendor.ts.
+ *
+ * rankVendors scores every vendor against a free-text query using the
+ * developer, product, family and slug. It tolerates spacing ("athena health"),
+ * word order and typos ("athenahelth"), and terms split across fields
+ * ("Cerner Millennium"). inferVendorFromPortal maps a patient portal URL or
+ * hostname to the EHR vendor that usually runs it.
+ */
+import type { Vendor } from './_vendor-db.ts';
+
+export interface VendorMatch {
+  vendor: Vendor;
+  score: number; // 0..1
+}
+
+export const MIN_MATCH_SCORE = 0.5;
+
+const STOP_WORDS = new Set(['inc', 'llc', 'corp', 'corporation', 'co', 'ltd', 'the', 'and', 'of']);
+
+function tokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((t) => t && !STOP_WORDS.has(t));
+}
+
+function compact(text: string): string {
+  return tokens(text).join('');
+}
+
+/** Optimal string alignment distance (Levenshtein plus adjacent transpositions) */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Typos allowed for a term of this length
+function allowedEdits(length: number): number {
+  return length < 5 ? 0 : length < 9 ? 1 : 2;
+}
+
+function tokenScore(query: string, candidate: string): number {
+  if (query === candidate) return 1;
+  if (query.length >= 3 && candidate.startsWith(query)) return 0.9;
+  if (query.length >= 4 && candidate.includes(query)) return 0.8;
+  const dist = editDistance(query, candidate);
+  if (dist <= allowedEdits(Math.min(query.length, candidate.length))) {
+    return 0.85 * (1 - dist / Math.max(query.length, candidate.length));
+  }
+  return 0;
+}
+
+function vendorFields(v: Vendor): string[] {
+  return [v.developer, v.product_name, v.family, v.slug].filter((f): f is string => !!f);
+}
+
+export function scoreVendor(vendor: Vendor, query: string): number {
+  const q = compact(query);
+  if (!q) return 0;
+  const fields = vendorFields(vendor);
+
+  // Whole-query match against a single field, ignoring spacing and punctuation
+  let best = 0;
+  for (const field of fields) {
+    const f = compact(field);
+    if (f === q) return 1;
+    if (q.length >= 3 && f.includes(q)) best = Math.max(best, 0.95);
+    else best = Math.max(best, tokenScore(q, f) * 0.95);
+  }
+
+  // Per-term match against every field's words, so terms can come from different fields
+  const queryTokens = tokens(query);
+  const pool = fields.flatMap(tokens);
+  const perToken = queryTokens.map((qt) => Math.max(0, ...pool.map((t) => tokenScore(qt, t))));
+  const matched = perToken.filter((s) => s > 0).length;
+  if (matched) {
+    const mean = perToken.reduce((a, b) => a + b, 0) / perToken.length;
+    best = Math.max(best, mean * 0.9 * (matched / perToken.length));
+  }
+  return best;
+}
+
+export function rankVendors(vendors: Vendor[], query: string, minScore = MIN_MATCH_SCORE): VendorMatch[] {
+  return vendors
+    .map((vendor) => ({ vendor, score: scoreVendor(vendor, query) }))
+    .filter((m) => m.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+}
+
+// ---------------------------------------------------------------------------
+// Patient portals
+// ---------------------------------------------------------------------------
+export interface PortalPattern {
+  portal: string;
+  hosts?: string[];         // the host is, or ends with, one of these domains
+  hostPrefixes?: string[];  // the host starts with one of these labels, e.g. "mychart."
+  paths?: string[];         // the path contains one of these, lowercase
+  vendorTerms: string[];    // search terms for the vendor, tried in order
+}
+
+// Maintained by hand; add portals here as they come up
+export const PORTAL_PATTERNS: PortalPattern[] = [
+  { portal: 'MyChart', hostPrefixes: ['mychart.', 'mychart-'], hosts: ['mychart.com', 'epic.com'], paths: ['/mychart'], vendorTerms: ['epic'] },
+  { portal: 'athenaPatient', hosts: ['athenahealth.com', 'athenapatient.com'], vendorTerms: ['athenahealth', 'athena'] },
+  { portal: 'FollowMyHealth', hosts: ['followmyhealth.com', 'allscripts.com', 'veradigm.com'], vendorTerms: ['veradigm', 'allscripts'] },
+  { portal: 'HealtheLife', hosts: ['healtheintent.com', 'healthelife.com', 'cernerhealth.com', 'cerner.com', 'oraclehealth.com'], vendorTerms: ['oracle health', 'cerner'] },
+  { portal: 'NextMD / NextGen Patient Portal', hosts: ['nextmd.com', 'nextgen.com'], vendorTerms: ['nextgen'] },
+  { portal: 'healow', hostPrefixes: ['mycw'], hosts: ['healow.com', 'eclinicalweb.com', 'ecwcloud.com', 'eclinicalworks.com'], vendorTerms: ['eclinicalworks'] },
+  { portal: 'MEDITECH Patient Portal', hosts: ['meditech.com', 'meditech.cloud', 'mhealthportal.com'], vendorTerms: ['meditech'] },
+  { portal: 'Greenway Patient Portal', hosts: ['greenwayhealth.com', 'mygreenwayportal.com'], vendorTerms: ['greenway'] },
+  { portal: 'Practice Fusion Patient Portal', hosts: ['patientfusion.com', 'practicefusion.com'], vendorTerms: ['practice fusion'] },
+  { portal: 'OnPatient', hosts: ['onpatient.com', 'drchrono.com'], vendorTerms: ['drchrono'] },
+  { portal: 'Tebra / Kareo Patient Portal', hosts: ['kareo.com', 'tebra.com'], vendorTerms: ['tebra', 'kareo'] },
+  { portal: 'Elation Passport', hosts: ['elationpassport.com', 'elationhealth.com'], vendorTerms: ['elation'] },
+  { portal: 'ModMed Patient Portal', hosts: ['modmed.com', 'ema.md'], vendorTerms: ['modernizing medicine', 'modmed'] },
+  { portal: 'AdvancedMD Patient Portal', hosts: ['advancedmd.com', 'advancedmdportal.com'], vendorTerms: ['advancedmd'] },
+  { portal: 'CharmHealth PHR', hosts: ['charmhealth.com'], vendorTerms: ['charm'] },
+];
+
+export interface PortalInference {
+  host: string;
+  portal: string;
+  vendorTerms: string[];
+}
+
+export function parsePortalHost(input: string): { host: string; path: string } {
+  const trimmed = input.trim();
+  const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  return { host: url.hostname.toLowerCase().replace(/^www\./, ''), path: url.pathname.toLowerCase() };
+}
+
+export function inferVendorFromPortal(input: string): PortalInference | null {
+  let host: string, path: string;
+  try {
+    ({ host, path } = parsePortalHost(input));
+  } catch {
+    return null;
+  }
+  for (const p of PORTAL_PATTERNS) {
+    const hostMatch = p.hosts?.some((d) => host === d || host.endsWith(`.${d}`));
+    const prefixMatch = p.hostPrefixes?.some((prefix) => host.startsWith(prefix));
+    const pathMatch = p.paths?.some((fragment) => path.includes(fragment));
+    if (hostMatch || prefixMatch || pathMatch) {
+      return { host, portal: p.portal, vendorTerms: p.vendorTerms };
+    }
+  }
+  return null;
+}
+
+/** Vendors for a portal: the first of its search terms that matches anything */
+export function rankVendorsForPortal(vendors: Vendor[], inference: PortalInference): VendorMatch[] {
+  for (const term of inference.vendorTerms) {
+    const matches = rankVendors(vendors, term, 0.8);
+    if (matches.length) return matches;
+  }
+  return [];
+}
@@ -0,0 +1,313 @@
+#!/usr/bin/env bun
+/**
+ * Build a complete EHI request package from one manifest: cover letter, filled
+ * provider form, optional ID page, the vendor appendix and optional signature
+ * certificate, merged into one PDF.
+ *
+ * Usage:
+ *   bun build-package.ts <manifest.json> [--strict]
+ *
+ *   --strict   Fail, without writing anything, if any mapped form field or overlay could not be set
+ *
+ * The manifest is checked against PackageManifestSchema (_config-schema.ts).
+ *
+ * manifest.json:
+ * {
+ *   "outputDir": "./ehi-requests",              (optional; each run gets its own subdirectory)
+ *   "date": "02/18/2026",                       (optional; defaults to today)
+ *   "patient": { "name", "dob", "street", "cityStateZip", "phone"?, "email"? },
+ *   "provider": { "name", "street", "cityStateZip" },
+ *   "vendor": "athenaclinicals",                (optional; slug from lookup-vendor.ts, or a
+ *                                                VendorConfig object; omit for Epic)
+ *   "certification": { ... },                   (optional; from check-chpl.ts --json)
+ *   "form": {
+ *     "path": "./provider-form.pdf",
+ *     "fieldMappings": { "patientName": "field-name-in-pdf", ... },
+ *     "choices": { "DeliverTo": { "type": "radio", "value": "Patient" }, ... },  (optional; see _choices.ts)
+ *     "signaturePosition": { "page": 0, "x": 60, "topY": 686, "height": 18 },   (optional)
+ *     "phiDescriptionPosition": { "page": 0, "x": 72, "topY": 400 },           (optional)
+ *     "overlays": [{ "type": "check", "x": 51, "topY": 512 }, ...],          (optional; see _overlays.ts.
+ *                                       Flat forms can use these instead of fieldMappings)
+ *     "pages": "all"                   (optional; "all", [0, 2] or { "from": 0, "to": 2 }.
+ *                                       Default: the first page plus every page that got
+ *                                       a field value, the signature or the PHI description)
+ *   },
+ *   "signaturePath": "./signature.png",         (optional; from poll-signature.ts)
+ *   "signatureMetadataPath": "./signature-metadata.json",  (optional; from poll-signature.ts.
+ *                                       Adds an Electronic Signature Certificate page)
+ *   "idImagePath": "./drivers-license.png",     (optional; adds an ID page)
+ *   "coverLetter": true                         (optional; false to leave it out)
+ * }
+ *
+ * Writes to <outputDir>/<timestamp>-<provider>/:
+ *   ehi-request.pdf    the package to send
+ *   summary.json       what went onto each page, and any warnings
+ *   manifest.json      the manifest this run was built from
+ *   parts/             cover-letter.pdf, appendix.pdf, form-filled.pdf, id-page.pdf,
+ *                      signature-certificate.pdf
+ *
+ * Prints the summary JSON to stdout.
+ */
+import { PDFDocument } from 'pdf-lib';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import {
+  fillForm,
+  omittedContentWarnings,
+  resolveFormPages,
+  type FieldMappings,
+  type FormPages,
+  type Patient,
+  type PhiDescriptionPosition,
+  type Provider,
+  type SignaturePosition,
+} from './fill-and-merge.ts';
+import type { Overlay } from './_overlays.ts';
+import type { ChoiceMappings } from './_choices.ts';
+import { loadVendorDb, toVendorConfig, type VendorCertification, type VendorConfig } from './_vendor-db.ts';
+import { assertValid, ConfigError, PackageManifestSchema, parseConfig } from './_config-schema.ts';
+import { loadSignatureMetadata, renderSignatureCertificate, signatureMismatchWarning } from './_signature-certificate.ts';
+
+export interface PackageManifest {
+  outputDir?: string;
+  date?: string;
+  patient: Patient;
+  provider: Provider;
+  vendor?: string | VendorConfig;
+  certification?: VendorCertification;
+  form: {
+    path: string;
+    fieldMappings?: FieldMappings;
+    choices?: ChoiceMappings;
+    signaturePosition?: SignaturePosition;
+    phiDescriptionPosition?: PhiDescriptionPosition;
+    overlays?: Overlay[];
+    pages?: FormPages;
+  };
+  signaturePath?: string;
+  signatureMetadataPath?: string;
+  idImagePath?: string;
+  coverLetter?: boolean;
+}
+
+export type PackagePart = 'cover-letter' | 'form' | 'id' | 'appendix' | 'signature-certificate';
+
+export interface PageSummary {
+  page: number;         // 1-indexed page of the package
+  part: PackagePart;
+  source: string;       // file the page was copied from
+  sourcePage: number;   // 1-indexed page within that file
+  fields?: string[];    // form fields filled on this page
+  overlays?: string[];  // overlays drawn on this page: their text, or "check" / "x"
+  signature?: boolean;
+  phiDescription?: boolean;
+}
+
+export interface PackageSummary {
+  outputPath: string;
+  runDir: string;
+  createdAt: string;
+  pageCount: number;
+  patient: string;
+  provider: string;
+  vendor: string;
+  pages: PageSummary[];
+  warnings: string[];
+}
+
+const SCRIPTS_DIR = import.meta.dir;
+
+function fail(message: string): never {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'request';
+}
+
+/** A fresh directory for this run: <outputDir>/<YYYYMMDD-HHMMSS>-<provider> */
+function createRunDir(outputDir: string, provider: string, now = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  const base = join(resolve(outputDir), `${stamp}-${slugify(provider)}`);
+  let dir = base;
+  for (let n = 2; existsSync(dir); n++) dir = `${base}-${n}`;
+  mkdirSync(join(dir, 'parts'), { recursive: true });
+  return dir;
+}
+
+/** Run one of the generator scripts; they all take their inputs as arguments */
+function runScript(script: string, ...args: string[]) {
+  const proc = Bun.spawnSync(['bun', join(SCRIPTS_DIR, script), ...args], { stderr: 'pipe', stdout: 'pipe' });
+  if (proc.exitCode !== 0) {
+    throw new Error(`${script} failed: ${proc.stderr.toString().trim() || `exit code ${proc.exitCode}`}`);
+  }
+}
+
+async function resolveVendor(manifest: PackageManifest): Promise<VendorConfig | undefined> {
+  let vendor: VendorConfig | undefined;
+  if (typeof manifest.vendor === 'string') {
+    const db = await loadVendorDb();
+    const found = db.vendors.find((v) => v.slug === manifest.vendor);
+    if (!found) throw new Error(`No vendor with slug "${manifest.vendor}" (see lookup-vendor.ts)`);
+    vendor = toVendorConfig(found);
+  } else {
+    vendor = manifest.vendor;
+  }
+  if (manifest.certification) {
+    if (!vendor) throw new Error('"certification" needs a "vendor"');
+    vendor = { ...vendor, certification: manifest.certification };
+  }
+  return vendor;
+}
+
+/** The ID page from templates/drivers-license-page.md */
+function renderIdPage(manifest: PackageManifest, outputPath: string) {
+  const md = readFileSync(join(SCRIPTS_DIR, '..', 'templates', 'drivers-license-page.md'), 'utf-8')
+    .replace('{{PATIENT_NAME}}', manifest.patient.name)
+    .replace('{{DOB}}', manifest.patient.dob)
+    .replace('{{IMAGE_PATH}}', resolve(manifest.idImagePath!));
+  const mdPath = outputPath.replace(/\.pdf$/, '.md');
+  writeFileSync(mdPath, md);
+  runScript('md-to-pdf.ts', mdPath, outputPath);
+}
+
+export interface BuildOptions {
+  strict?: boolean;  // throw if any mapped form field or overlay could not be set
+}
+
+export async function buildPackage(manifest: PackageManifest, options: BuildOptions = {}): Promise<PackageSummary> {
+  assertValid(PackageManifestSchema, manifest, 'manifest');
+  const { patient, provider, form } = manifest;
+  if (!form.fieldMappings && !form.choices && !form.overlays) {
+    throw new ConfigError('manifest', ['form: needs fieldMappings, choices or overlays']);
+  }
+  if (!existsSync(form.path)) throw new Error(`Form not found: ${form.path}`);
+  if (manifest.idImagePath && !existsSync(manifest.idImagePath)) throw new Error(`ID image not found: ${manifest.idImagePath}`);
+  if (manifest.signaturePath && !existsSync(manifest.signaturePath)) throw new Error(`Signature not found: ${manifest.signaturePath}`);
+  const signatureMetadata = manifest.signatureMetadataPath ? loadSignatureMetadata(manifest.signatureMetadataPath) : undefined;
+
+  const vendor = await resolveVendor(manifest);
+  const filled = await fillForm(await Bun.file(form.path).arrayBuffer(), {
+    patient,
+    provider,
+    fieldMappings: form.fieldMappings ?? {},
+    choices: form.choices,
+    signaturePath: manifest.signaturePath,
+    signaturePosition: form.signaturePosition,
+    phiDescriptionPosition: form.phiDescriptionPosition,
+    overlays: form.overlays,
+    date: manifest.date,
+  });
+  if (options.strict && filled.warnings.length) {
+    throw new Error(`--strict: mapped form fields or overlays not set:\n${filled.warnings.map((w) => `  - ${w}`).join('\n')}`);
+  }
+  const formPages = resolveFormPages(form.pages, filled);
+
+  const runDir = createRunDir(manifest.outputDir ?? './ehi-requests', provider.name);
+  const parts = join(runDir, 'parts');
+  writeFileSync(join(runDir, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n');
+  const warnings: string[] = [...filled.warnings];
+
+  const coverPath = join(parts, 'cover-letter.pdf');
+  if (manifest.coverLetter !== false) {
+    runScript('generate-cover-letter.ts', JSON.stringify({ patientName: patient.name, dob: patient.dob, date: manifest.date, outputPath: coverPath }));
+  }
+
+  const appendixPath = join(parts, 'appendix.pdf');
+  runScript('generate-appendix.ts', JSON.stringify({ vendor, date: manifest.date, outputPath: appendixPath }));
+
+  const filledPath = join(parts, 'form-filled.pdf');
+  writeFileSync(filledPath, filled.bytes);
+
+  const idPath = join(parts, 'id-page.pdf');
+  if (manifest.idImagePath) renderIdPage(manifest, idPath);
+
+  const certificatePath = join(parts, 'signature-certificate.pdf');
+  if (signatureMetadata) {
+    writeFileSync(certificatePath, await renderSignatureCertificate(signatureMetadata, { signerName: patient.name }));
+    const mismatch = manifest.signaturePath && signatureMismatchWarning(signatureMetadata, readFileSync(manifest.signaturePath));
+    if (mismatch) warnings.push(mismatch);
+  }
+
+  warnings.push(...omittedContentWarnings(filled, formPages));
+  if (manifest.signaturePath && !form.signaturePosition) {
+    warnings.push('signaturePath was given without form.signaturePosition, so the form is unsigned');
+  }
+
+  const merged = await PDFDocument.create();
+  const pages: PageSummary[] = [];
+  async function append(part: PackagePart, path: string, indices?: number[], details?: (i: number) => Partial<PageSummary>) {
+    const doc = await PDFDocument.load(readFileSync(path));
+    const which = indices ?? doc.getPageIndices();
+    const copied = await merged.copyPages(doc, which);
+    copied.forEach((p, n) => {
+      merged.addPage(p);
+      pages.push({ page: merged.getPageCount(), part, source: path, sourcePage: which[n] + 1, ...details?.(which[n]) });
+    });
+  }
+
+  if (manifest.coverLetter !== false) await append('cover-letter', coverPath);
+  await append('form', filledPath, formPages, (i) => ({
+    fields: filled.filled.filter((f) => f.page === i).map((f) => f.name),
+    overlays: filled.overlays.filter((o) => o.page === i).map((o) => o.text ?? o.type),
+    signature: filled.signature?.page === i,
+    phiDescription: filled.phiDescription?.page === i,
+  }));
+  if (manifest.idImagePath) await append('id', idPath);
+  await append('appendix', appendixPath);
+  if (signatureMetadata) await append('signature-certificate', certificatePath);
+
+  const outputPath = join(runDir, 'ehi-request.pdf');
+  writeFileSync(outputPath, await merged.save());
+
+  const summary: PackageSummary = {
+    outputPath,
+    runDir,
+    createdAt: new Date().toISOString(),
+    pageCount: merged.getPageCount(),
+    patient: patient.name,
+    provider: provider.name,
+    vendor: vendor ? [vendor.developer, vendor.product_name].filter(Boolean).join(' / ') : 'Epic Systems (default)',
+    pages,
+    warnings,
+  };
+  writeFileSync(join(runDir, 'summary.json'), JSON.stringify(summary, null, 2) + '\n');
+  return summary;
+}
+
+if (import.meta.main) {
+  const argv = Bun.argv.slice(2);
+  const manifestPath = argv.find((a) => !a.startsWith('--'));
+  if (!manifestPath) {
+    console.error('Usage: bun build-package.ts <manifest.json> [--strict]');
+    process.exit(1);
+  }
+
+  let manifest: PackageManifest;
+  try {
+    manifest = parseConfig<PackageManifest>(PackageManifestSchema, readFileSync(manifestPath, 'utf-8'), manifestPath);
+  } catch (err) {
+    fail((err as Error).message);
+  }
+  // Paths in the manifest are relative to the manifest file
+  const base = dirname(resolve(manifestPath));
+  const rel = (p: string | undefined) => (p === undefined ? p : resolve(base, p));
+  manifest = {
+    ...manifest,
+    outputDir: rel(manifest.outputDir) ?? join(base, 'ehi-requests'),
+    form: { ...manifest.form, path: rel(manifest.form.path)! },
+    signaturePath: rel(manifest.signaturePath),
+    signatureMetadataPath: rel(manifest.signatureMetadataPath),
+    idImagePath: rel(manifest.idImagePath),
+  };
+
+  try {
+    const summary = await buildPackage(manifest, { strict: argv.includes('--strict') });
+    for (const warning of summary.warnings) console.error(`Warning: ${warning}`);
+    console.error(`Wrote ${summary.pageCount}-page package to ${summary.outputPath}`);
+    console.log(JSON.stringify(summary, null, 2));
+  } catch (err) {
+    fail((err as Error).message);
+  }
+}
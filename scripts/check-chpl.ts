@@ -0,0 +1,125 @@
+#!/usr/bin/env bun
+/**
+ * Check whether a certified health IT product holds § 170.315(b)(10)
+ * (EHI Export) certification, using a local extract of the ONC CHPL.
+ *
+ * Usage:
+ *   bun check-chpl.ts import <downloaded-file> [--as-of YYYY-MM-DD]
+ *                                     Load a CHPL listing download (JSON or CSV) as the
+ *                                     local extract. The extract is dated by the file's
+ *                                     modification time unless --as-of is given.
+ *   bun check-chpl.ts <chpl-id>       CHPL listing id (as in vendors.json chpl_ids) or
+ *                                     CHPL product number (15.04.04.2891.Athe.AC.07.1.221101)
+ *   bun check-chpl.ts --developer <name> [--product <name>]
+ *   bun check-chpl.ts --vendor <slug> Use the vendor database's CHPL ids for that vendor
+ *
+ * Options:
+ *   --json    Print results as JSON. Each (b)(10)-certified, active listing includes a
+ *             "certification" object to add to the generate-appendix.ts vendor config.
+ *
+ * The extract lives at ~/.request-my-ehi/chpl/listings.json (override with CHPL_EXTRACT).
+ * Download listings from https://chpl.healthit.gov (Resources > Download the CHPL).
+ */
+import {
+  EHI_EXPORT_CRITERION,
+  extractPath,
+  findListings,
+  importDownload,
+  loadExtract,
+  saveExtract,
+  toVendorCertification,
+  verifyListing,
+  type ChplExtract,
+  type ChplListing,
+  type ChplVerification,
+} from './_chpl.ts';
+import { loadVendorDb } from './_vendor-db.ts';
+
+const argv = Bun.argv.slice(2);
+const VALUE_OPTIONS = ['--as-of', '--developer', '--product', '--vendor'];
+
+function getArg(name: string): string | undefined {
+  const i = argv.indexOf(name);
+  return i !== -1 && i + 1 < argv.length ? argv[i + 1] : undefined;
+}
+
+function fail(message: string): never {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+}
+
+const args = argv.filter((a, i) => !a.startsWith('--') && !VALUE_OPTIONS.includes(argv[i - 1]));
+
+if (args[0] === 'import') {
+  if (!args[1]) fail('Usage: bun check-chpl.ts import <downloaded-file> [--as-of YYYY-MM-DD]');
+  const asOf = getArg('--as-of');
+  if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) fail(`--as-of must be YYYY-MM-DD, got "${asOf}"`);
+  let extract: ChplExtract;
+  try {
+    extract = importDownload(args[1], asOf);
+  } catch (err) {
+    fail((err as Error).message);
+  }
+  saveExtract(extract);
+  const certified = extract.listings.filter((l) => l.criteria.includes(EHI_EXPORT_CRITERION)).length;
+  console.log(`Imported ${extract.listings.length} listings (${certified} certified to ${EHI_EXPORT_CRITERION}) as of ${extract.asOf}`);
+  console.log(`Saved to ${extractPath()}`);
+  process.exit(0);
+}
+
+const developer = getArg('--developer');
+const product = getArg('--product');
+const vendorSlug = getArg('--vendor');
+if (!args[0] && !developer && !product && !vendorSlug) {
+  console.error('Usage: bun check-chpl.ts <chpl-id> | --developer <name> [--product <name>] | --vendor <slug> [--json]');
+  console.error('       bun check-chpl.ts import <downloaded-file> [--as-of YYYY-MM-DD]');
+  process.exit(1);
+}
+
+let extract: ChplExtract;
+try {
+  extract = loadExtract();
+} catch (err) {
+  fail((err as Error).message);
+}
+
+let listings: ChplListing[];
+if (vendorSlug) {
+  const db = await loadVendorDb().catch((err) => fail((err as Error).message));
+  const vendor = db.vendors.find((v) => v.slug === vendorSlug);
+  if (!vendor) fail(`No vendor with slug "${vendorSlug}" (see lookup-vendor.ts)`);
+  listings = vendor.chpl_ids?.length
+    ? vendor.chpl_ids.flatMap((id) => findListings(extract, { id }))
+    : findListings(extract, { developer: vendor.developer, product: vendor.product_name });
+} else if (args[0]) {
+  listings = findListings(extract, { id: args[0] });
+} else {
+  listings = findListings(extract, { developer, product });
+}
+
+const results = listings.map((l) => verifyListing(extract, l));
+
+if (argv.includes('--json')) {
+  console.log(JSON.stringify({
+    asOf: extract.asOf,
+    results: results.map((r) => ({ ...r, certification: toVendorCertification(r) })),
+  }, null, 2));
+  process.exit(results.length ? 0 : 1);
+}
+
+function printResult({ listing: l, ehiExport, active }: ChplVerification) {
+  console.log(`${[l.product, l.version].filter(Boolean).join(' ')} (${l.developer})`);
+  console.log(`  CHPL product number:  ${l.chplProductNumber}`);
+  if (l.id !== undefined) console.log(`  CHPL listing id:      ${l.id}`);
+  console.log(`  Status:               ${l.status}${l.certificationDate ? `, certified ${l.certificationDate}` : ''}` +
+    (l.decertificationDate ? `, decertified ${l.decertificationDate}` : ''));
+  console.log(`  (b)(10) EHI export:   ${ehiExport ? (active ? 'CERTIFIED' : 'certified, but the listing is not active') : 'NOT certified'}`);
+}
+
+if (!results.length) {
+  console.log('No matching CHPL listings.');
+} else {
+  results.forEach((r, i) => { if (i) console.log(''); printResult(r); });
+}
+console.log(`\n(CHPL extract as of ${extract.asOf}, ${extract.listings.length} listings)`);
+process.exit(results.length ? 0 : 1);
@@ -3,26 +3,61 @@
  * Check the status of a fax job.
  *
  * Usage:
- *   bun check-fax-status.ts [server-url] <fax-id>
+ *   bun check-fax-status.ts [server-url] <fax-id> [options]
  *
- * Server URL is read from scripts/config.json (relayUrl) if not provided.
+ * Options:
+ *   --receipt          Download the signed delivery confirmation PDF (delivered faxes only)
+ *   --output <path>    Where to write the receipt (default: /tmp/fax-receipt-<fax-id>.pdf)
+ *
+ * Server URL is read from scripts/config.json (relayUrl) if not provided. A relay that
+ * issues API tokens gets one from EHI_RELAY_TOKEN or scripts/config.json (relayToken).
  *
  * Output (JSON to stdout):
  *   { faxId, status, to, filename, pages, createdAt, completedAt, errorMessage, events }
+ *   With --receipt, also { receiptPath, documentSha256, deliveredAt }, read from
+ *   the signed data attached to the saved PDF
  */
-import { resolveServerUrl } from './_resolve-server.ts';
+import { writeFileSync } from 'fs';
+import { decodePDFRawStream, PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream, PDFString, PDFHexString } from 'pdf-lib';
+import { relayHeaders, resolveServerUrl } from './_resolve-server.ts';
+
+const argv = Bun.argv.slice(2);
+
+function getArg(name: string): string | undefined {
+  const i = argv.indexOf(name);
+  return i !== -1 && i + 1 < argv.length ? argv[i + 1] : undefined;
+}
+
+const wantReceipt = argv.includes('--receipt');
+const outputPath = getArg('--output');
 
-const args = Bun.argv.slice(2);
+// Positional args are everything that isn't an option or an option's value
+const args = argv.filter((a, i) => !a.startsWith('--') && argv[i - 1] !== '--output');
 const hasExplicitUrl = args[0] && (args[0].startsWith('http') || args[0].includes('://'));
 const serverUrl = resolveServerUrl(hasExplicitUrl ? args[0] : undefined);
 const faxId = hasExplicitUrl ? args[1] : args[0];
 
 if (!faxId) {
-  console.error('Usage: bun check-fax-status.ts [server-url] <fax-id>');
+  console.error('Usage: bun check-fax-status.ts [server-url] <fax-id> [--receipt] [--output <path>]');
   process.exit(1);
 }
 
-const res = await fetch(`${serverUrl}/api/fax/status/${faxId}`);
+/** The contents of the file attached to a PDF as `name` (the /EmbeddedFiles name tree's top level) */
+async function readAttachment(pdfBytes: Uint8Array, name: string): Promise<Uint8Array | undefined> {
+  const doc = await PDFDocument.load(pdfBytes);
+  const names = doc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict)
+    ?.lookupMaybe(PDFName.of('EmbeddedFiles'), PDFDict)
+    ?.lookupMaybe(PDFName.of('Names'), PDFArray);
+  for (let i = 0; names && i + 1 < names.size(); i += 2) {
+    const key = names.lookup(i);
+    if (!(key instanceof PDFString || key instanceof PDFHexString) || key.decodeText() !== name) continue;
+    const file = names.lookup(i + 1, PDFDict).lookupMaybe(PDFName.of('EF'), PDFDict)?.lookup(PDFName.of('F'));
+    if (file instanceof PDFRawStream) return decodePDFRawStream(file).decode();
+  }
+  return undefined;
+}
+
+const res = await fetch(`${serverUrl}/api/fax/status/${faxId}`, { headers: relayHeaders() });
 
 if (!res.ok) {
   const err = await res.text();
@@ -31,4 +66,33 @@ if (!res.ok) {
 }
 
 const data = await res.json();
+
+if (wantReceipt) {
+  if (data.status !== 'delivered') {
+    console.error(`Fax is ${data.status}; a receipt is only available once it is delivered`);
+    process.exit(1);
+  }
+
+  // Each request signs a new receipt, so the details come out of this PDF
+  // rather than from a second request for the JSON
+  const pdfRes = await fetch(`${serverUrl}/api/fax/receipt/${faxId}`, { headers: relayHeaders() });
+  if (!pdfRes.ok) {
+    console.error(`Server error (${pdfRes.status}): ${await pdfRes.text()}`);
+    process.exit(1);
+  }
+  const pdfBytes = new Uint8Array(await pdfRes.arrayBuffer());
+  const attached = await readAttachment(pdfBytes, 'fax-receipt.json');
+  if (!attached) {
+    console.error('The receipt PDF has no fax-receipt.json attached');
+    process.exit(1);
+  }
+
+  const receiptPath = outputPath || `/tmp/fax-receipt-${faxId}.pdf`;
+  writeFileSync(receiptPath, pdfBytes);
+  const { receipt } = JSON.parse(new TextDecoder().decode(attached));
+  data.receiptPath = receiptPath;
+  data.documentSha256 = receipt.documentSha256;
+  data.deliveredAt = receipt.deliveredAt;
+}
+
 console.log(JSON.stringify(data, null, 2));
@@ -9,15 +9,31 @@
  *   --instructions <text|@file>   Instructions shown to signer (optional, has default)
  *   --signer-name <name>          Pre-fill signer name (optional)
  *   --request-drivers-license      Show DL upload UI on signing page
+ *   --slots <json|@file>          Captures to collect, in order (default: one signature), e.g.
+ *                                   [{"id":"initials-hiv","kind":"initials","signer":"Jane Doe",
+ *                                     "label":"Initial to release HIV test results"},
+ *                                    {"id":"signature","kind":"signature","signer":"Jane Doe"},
+ *                                    {"id":"guardian","kind":"signature","signer":"John Doe (parent)"}]
+ *                                 kind is "signature", "initials" or "typedName"
+ *   --preview <file>              Show this document (PDF, PNG or JPEG) above the signature;
+ *                                 repeat for several. Encrypted with a one-off key that
+ *                                 only the signUrl's #fragment carries, so the server
+ *                                 can't read it
  *   --expiry-minutes <n>          Session expiry (default: 60)
  *
  * Output (JSON to stdout):
- *   { sessionId, signUrl, privateKeyJwk }
+ *   { sessionId, signUrl, privateKeyJwk, preview? }
+ *
+ * preview lists each previewed file's name and SHA-256; the signer's page
+ * reports the same hashes for what it showed (see signature-metadata.json).
  */
 import { readFileSync } from 'fs';
-import { resolveServerUrl } from './_resolve-server.ts';
+import { basename, extname } from 'path';
+import { relayHeaders, resolveServerUrl } from './_resolve-server.ts';
+import { sha256Hex } from './_signature-certificate.ts';
 
 const DEFAULT_INSTRUCTIONS = 'Please draw your signature below. It will be placed on your health records request form.';
+const DEFAULT_SLOT_INSTRUCTIONS = 'Please complete each step below. Your signatures and initials will be placed on your health records request form.';
 
 const args = Bun.argv.slice(2);
 const serverUrl = resolveServerUrl(args[0]);
@@ -27,7 +43,34 @@ function getArg(name: string): string | undefined {
   return idx >= 0 && idx + 1 < args.length ? args[idx + 1] : undefined;
 }
 
-let instructions = getArg('--instructions') || DEFAULT_INSTRUCTIONS;
+function getArgs(name: string): string[] {
+  return args.flatMap((a, i) => (a === name && i + 1 < args.length ? [args[i + 1]] : []));
+}
+
+const PREVIEW_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+};
+
+function bufToBase64(buf: ArrayBuffer | Uint8Array): string {
+  return Buffer.from(buf instanceof Uint8Array ? buf : new Uint8Array(buf)).toString('base64');
+}
+
+let slotsArg = getArg('--slots');
+if (slotsArg?.startsWith('@')) {
+  slotsArg = readFileSync(slotsArg.slice(1), 'utf-8');
+}
+let slots: unknown;
+try {
+  slots = slotsArg ? JSON.parse(slotsArg) : undefined;
+} catch (err) {
+  console.error(`Error: --slots is not valid JSON: ${(err as Error).message}`);
+  process.exit(1);
+}
+
+let instructions = getArg('--instructions') || (slots ? DEFAULT_SLOT_INSTRUCTIONS : DEFAULT_INSTRUCTIONS);
 if (instructions.startsWith('@')) {
   instructions = readFileSync(instructions.slice(1), 'utf-8');
 }
@@ -46,16 +89,44 @@ const keyPair = await crypto.subtle.generateKey(
 const publicKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
 const privateKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
 
+// Encrypt the preview documents under a fresh AES-GCM key for the signing page
+let preview: { ciphertext: string; iv: string } | undefined;
+let previewKey: string | undefined;
+const previewFiles: Array<{ name: string; sha256: string }> = [];
+const previewPaths = getArgs('--preview');
+if (previewPaths.length) {
+  const documents = previewPaths.map((path) => {
+    const type = PREVIEW_TYPES[extname(path).toLowerCase()];
+    if (!type) {
+      console.error(`Error: --preview ${path}: use a PDF, PNG or JPEG file`);
+      process.exit(1);
+    }
+    const bytes = readFileSync(path);
+    const name = basename(path);
+    previewFiles.push({ name, sha256: sha256Hex(bytes) });
+    return { name, type, data: bytes.toString('base64') };
+  });
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify({ documents }))
+  );
+  preview = { ciphertext: bufToBase64(ciphertext), iv: bufToBase64(iv) };
+  previewKey = Buffer.from(await crypto.subtle.exportKey('raw', key)).toString('base64url');
+}
+
 // Create session on server
 const res = await fetch(`${serverUrl}/api/signatures/sessions`, {
   method: 'POST',
-  headers: { 'Content-Type': 'application/json' },
+  headers: relayHeaders({ 'Content-Type': 'application/json' }),
   body: JSON.stringify({
     publicKey: publicKeyJwk,
     instructions,
     signerName,
     expiryMinutes,
     requestDriversLicense: requestDriversLicense || undefined,
+    slots,
+    preview,
   }),
 });
 
@@ -69,6 +140,8 @@ const data = await res.json();
 
 console.log(JSON.stringify({
   sessionId: data.sessionId,
-  signUrl: data.signUrl,
+  // The fragment never reaches the server; the signing page reads the preview key from it
+  signUrl: previewKey ? `${data.signUrl}#key=${previewKey}` : data.signUrl,
   privateKeyJwk,
+  preview: previewFiles.length ? previewFiles : undefined,
 }, null, 2));
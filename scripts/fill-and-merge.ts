@@ -4,7 +4,29 @@
  * This is a template -- the agent should adapt field names and mappings
  * based on the specific provider's form.
  *
- * Usage: bun fill-and-merge.ts <config.json>
+ * Usage: bun fill-and-merge.ts <config.json> [--strict] [--save-profile] [--no-profile] [--debug [<out.pdf>]]
+ *
+ *   --strict         Fail, without writing anything, if any mapped field or overlay could
+ *                    not be set (no such field in the PDF, or no value to put in it)
+ *   --save-profile   After a clean fill, save this form's mappings and positions as
+ *                    the provider's form profile (see form-profiles.ts)
+ *   --no-profile     Don't look up a saved form profile
+ *   --debug          Also write the filled form with a topY/x grid, every widget
+ *                    outlined and labelled, and the signature, PHI description and
+ *                    overlays boxed (default: <outputPath>-debug.pdf; see _debug-render.ts)
+ *
+ * The config is checked against FillAndMergeConfigSchema (_config-schema.ts)
+ * before anything is filled; errors name the bad key, e.g. patient.dob.
+ *
+ * If a saved form profile was made from this very form (same SHA-256), its
+ * fieldMappings, choices, signaturePosition, phiDescriptionPosition and
+ * overlays are used for anything the config leaves out, so a config for a
+ * known form only needs the paths, patient and provider. A profile found only
+ * by provider name was made from another version of the form: just its
+ * fieldMappings and choices for fields this form still has are used, never
+ * its positions or overlays.
+ *
+ * build-package.ts imports fillForm() to do the filling step of a full package.
  *
  * config.json should contain:
  * {
@@ -13,6 +35,7 @@
  *   "coverLetterPath": "/tmp/cover-letter.pdf",  (optional)
  *   "outputPath": "./ehi-request-complete.pdf",
  *   "signaturePath": "/tmp/signature-transparent.png",  (optional)
+ *   "signatureMetadataPath": "/tmp/signature-metadata.json",  (optional; from poll-signature.ts)
  *   "patient": {
  *     "name": "...",
  *     "dob": "MM/DD/YYYY",
@@ -31,13 +54,52 @@
  *     "dob": "field-name-in-pdf",
  *     ...
  *   },
- *   "signaturePosition": { "x": 60, "topY": 686, "height": 18 }
+ *   "signaturePosition": { "page": 0, "x": 60, "topY": 686, "height": 18 },   (optional)
+ *   "phiDescriptionPosition": { "page": 0, "x": 72, "topY": 400 },           (optional)
+ *   "choices": { "DeliverTo": { "type": "radio", "value": "Patient" }, ... },       (optional)
+ *   "overlays": [{ "type": "text", "x": 72, "topY": 140, "text": "{patient.name}" }, ...],  (optional)
+ *   "formPages": "all"                                                        (optional)
  * }
+ *
+ * Pages are 0-indexed everywhere, and topY is measured down from the top of
+ * the page the position is on. formPages picks the pages of the filled form
+ * that go into the merged PDF: "all", a list like [0, 2], or a range like
+ * { "from": 0, "to": 2 } ("to" defaults to the last page). Without it, the
+ * first page goes in, plus every page that got a field value, the signature
+ * or the PHI description.
+ *
+ * choices sets radio groups, dropdowns and option lists by field name, each
+ * value matched against the options the form offers (see _choices.ts).
+ *
+ * overlays draws text, checkmarks, X marks, the date and the patient's
+ * initials at fixed positions (see _overlays.ts), for flat or scanned forms
+ * with no fields to fill; such a config can leave out fieldMappings.
+ *
+ * signatureMetadataPath adds an Electronic Signature Certificate page at the
+ * end of the merged PDF (see _signature-certificate.ts).
  */
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import { existsSync } from 'fs';
+import {
+  PDFDocument,
+  PDFDropdown,
+  PDFOptionList,
+  PDFRadioGroup,
+  rgb,
+  StandardFonts,
+  type PDFField,
+  type PDFForm,
+  type PDFWidgetAnnotation,
+} from 'pdf-lib';
+import { existsSync, readFileSync } from 'fs';
+import { basename } from 'path';
+import { FillAndMergeConfigSchema, parseConfig } from './_config-schema.ts';
+import { applyProfile, findProfile, formSha256, loadProfiles, profileForFields, saveProfiles, upsertProfile } from './_form-profiles.ts';
+import { drawOverlays, initials, type DrawnOverlay, type Overlay, type OverlayValues } from './_overlays.ts';
+import { renderDebugPdf } from './_debug-render.ts';
+import { describeOptions, matchOption, radioOptions, type ChoiceMapping, type ChoiceMappings } from './_choices.ts';
+import type { TextLine } from './_pdf-text.ts';
+import { loadSignatureMetadata, renderSignatureCertificate, signatureMismatchWarning } from './_signature-certificate.ts';
 
-interface Patient {
+export interface Patient {
   name: string;
   dob: string;
   street: string;
@@ -46,13 +108,13 @@ interface Patient {
   email?: string;
 }
 
-interface Provider {
+export interface Provider {
   name: string;
   street: string;
   cityStateZip: string;
 }
 
-interface FieldMappings {
+export interface FieldMappings {
   patientName?: string;
   dob?: string;
   patientStreet?: string;
@@ -65,172 +127,453 @@ interface FieldMappings {
   recipientStreet?: string;
   recipientCityStateZip?: string;
   email?: string;
+  recipientEmail?: string;
   date?: string;
   includeImages?: string;
   ehiExport?: string;
 }
 
-interface SignaturePosition {
+export interface SignaturePosition {
   page?: number;  // 0-indexed, defaults to 0 (first page)
   x?: number;
   topY?: number;
   height?: number;
 }
 
-interface PhiDescriptionPosition {
+export interface PhiDescriptionPosition {
+  page?: number;  // 0-indexed, defaults to 0 (first page)
   x: number;
   topY: number;
 }
 
-interface Config {
+/** Which pages of the filled form to merge; see the header comment */
+export type FormPages = 'all' | number[] | { from: number; to?: number };
+
+/** Drawn at phiDescriptionPosition, in 10pt Helvetica Bold, on forms with no field for it */
+export const PHI_DESCRIPTION_TEXT = 'See Appendix A (attached)';
+
+/** The parts of Config that fillForm needs */
+export type FillConfig = Pick<
+  Config,
+  'patient' | 'provider' | 'signaturePath' | 'signaturePosition' | 'phiDescriptionPosition' | 'overlays' | 'choices'
+> & {
+  fieldMappings: FieldMappings;
+  date?: string;  // MM/DD/YYYY for the date field, defaults to today
+};
+
+export interface FillResult {
+  bytes: Uint8Array;   // the filled, flattened form
+  filled: Array<{ name: string; page: number; value?: string }>;  // fields set, checked or chosen (with the option), and their 0-indexed page
+  warnings: string[];  // mapped fields and overlays that could not be set or were left blank
+  pageCount: number;
+  overlays: DrawnOverlay[];
+  signature?: { page: number; x: number; topY: number; width: number; height: number };  // 0-indexed page
+  phiDescription?: { page: number };
+}
+
+export interface Config {
   formPath: string;
   appendixPath: string;
   coverLetterPath?: string;
   outputPath: string;
   signaturePath?: string;
+  signatureMetadataPath?: string;  // adds the signature certificate page
   patient: Patient;
   provider: Provider;
-  fieldMappings: FieldMappings;
+  fieldMappings?: FieldMappings;  // from the matching form profile when omitted
+  choices?: ChoiceMappings;       // radio groups, dropdowns and option lists, by field name
   signaturePosition?: SignaturePosition;
   phiDescriptionPosition?: PhiDescriptionPosition;
+  overlays?: Overlay[];
+  formPages?: FormPages;
 }
 
-const configPath = Bun.argv[2];
-if (!configPath) {
-  console.error('Usage: bun fill-and-merge.ts <config.json>');
-  process.exit(1);
+/** 0-indexed page a widget is on, or -1 if no page lists it */
+export function widgetPage(doc: PDFDocument, widget: PDFWidgetAnnotation): number {
+  const pages = doc.getPages();
+  // Widgets usually name their page (/P); otherwise find the page whose /Annots lists them
+  const pageRef = widget.P();
+  const widgetRef = doc.context.getObjectRef(widget.dict);
+  return pageRef
+    ? pages.findIndex((p) => p.ref === pageRef)
+    : pages.findIndex((p) => !!widgetRef && p.node.Annots()?.asArray().includes(widgetRef));
 }
 
-const configFile = Bun.file(configPath);
-const config: Config = await configFile.json();
-const { formPath, appendixPath, coverLetterPath, outputPath, signaturePath, patient, provider, fieldMappings, signaturePosition } = config;
-
-// Load the provider's form
-const formBytes = await Bun.file(formPath).arrayBuffer();
-const doc = await PDFDocument.load(formBytes);
-const form = doc.getForm();
-const pages = doc.getPages();
-const page = pages[0];  // First page for form fields
-const { height } = page.getSize();
-
-// Helper to safely set a text field
-function setText(fieldName: string | undefined, value: string | undefined) {
-  if (!fieldName || value === undefined) return;
-  try {
-    form.getTextField(fieldName).setText(value);
-  } catch (e: any) {
-    console.warn(`Could not set field "${fieldName}": ${e.message}`);
+/** 0-indexed page of a field's first widget */
+export function fieldPage(doc: PDFDocument, field: PDFField): number {
+  for (const widget of field.acroField.getWidgets()) {
+    const i = widgetPage(doc, widget);
+    if (i !== -1) return i;
   }
+  return 0;
 }
 
-// Helper to safely check a checkbox
-function checkBox(fieldName: string | undefined) {
-  if (!fieldName) return;
-  try {
-    form.getCheckBox(fieldName).check();
-  } catch (e: any) {
-    console.warn(`Could not check "${fieldName}": ${e.message}`);
+/** The 0-indexed pages of a filled form to merge, sorted */
+export function resolveFormPages(selection: FormPages | undefined, filled: FillResult): number[] {
+  const { pageCount } = filled;
+  let pages: number[];
+  if (selection === undefined) {
+    // The first page, plus any page that got content
+    pages = [0, ...filled.filled.map((f) => f.page), ...filled.overlays.map((o) => o.page)];
+    if (filled.signature) pages.push(filled.signature.page);
+    if (filled.phiDescription) pages.push(filled.phiDescription.page);
+  } else if (selection === 'all') pages = [...Array(pageCount).keys()];
+  else if (Array.isArray(selection)) pages = selection;
+  else {
+    const to = selection.to ?? pageCount - 1;
+    if (to < selection.from) throw new Error(`formPages: "to" (${to}) is before "from" (${selection.from})`);
+    pages = Array.from({ length: to - selection.from + 1 }, (_, i) => selection.from + i);
+  }
+  const outside = pages.filter((p) => p >= pageCount);
+  if (outside.length) {
+    throw new Error(`formPages: the form has ${pageCount} page(s) (0-${pageCount - 1}), so there is no page ${outside.join(', ')}`);
   }
+  return [...new Set(pages)].sort((a, b) => a - b);
 }
 
-// Fill patient info
-setText(fieldMappings.patientName, patient.name);
-setText(fieldMappings.dob, patient.dob);
-setText(fieldMappings.patientStreet, patient.street);
-setText(fieldMappings.patientCityStateZip, patient.cityStateZip);
-setText(fieldMappings.phone, patient.phone);
-
-// Fill provider info (Section 2: I request records from)
-setText(fieldMappings.providerName, provider.name);
-setText(fieldMappings.providerStreet, provider.street);
-setText(fieldMappings.providerCityStateZip, provider.cityStateZip);
-
-// Fill recipient info (Section 3: Deliver to -- patient themselves)
-setText(fieldMappings.recipientName, `${patient.name} (myself)`);
-setText(fieldMappings.recipientStreet, patient.street);
-setText(fieldMappings.recipientCityStateZip, patient.cityStateZip);
-setText(fieldMappings.email, patient.email);
-
-// Check information requested boxes
-checkBox(fieldMappings.includeImages);
-checkBox(fieldMappings.ehiExport);
-
-// Fill date
-const today = new Date().toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
-setText(fieldMappings.date, today);
-
-// Draw "See Appendix A (attached)" if needed (no form field for PHI description)
-const fontBold = await doc.embedFont(StandardFonts.HelveticaBold);
-if (config.phiDescriptionPosition) {
-  const pos = config.phiDescriptionPosition;
-  page.drawText('See Appendix A (attached)', {
-    x: pos.x,
-    y: height - pos.topY,
-    size: 10,
-    font: fontBold,
-    color: rgb(0.05, 0.05, 0.15),
-  });
+/** Warnings for filled content on pages that won't be merged (page numbers as a reader counts them) */
+export function omittedContentWarnings(filled: FillResult, pages: number[]): string[] {
+  const warnings: string[] = [];
+  const dropped = filled.filled.filter((f) => !pages.includes(f.page));
+  if (dropped.length) {
+    warnings.push(`Filled fields on form pages not merged: ${dropped.map((f) => `${f.name} (page ${f.page + 1})`).join(', ')}`);
+  }
+  const droppedOverlays = filled.overlays.filter((o) => !pages.includes(o.page));
+  if (droppedOverlays.length) {
+    warnings.push(`Overlays on form pages not merged: ${droppedOverlays.map((o) => `${o.type} (page ${o.page + 1})`).join(', ')}`);
+  }
+  if (filled.signature && !pages.includes(filled.signature.page)) {
+    warnings.push(`The signature is on form page ${filled.signature.page + 1}, which is not merged`);
+  }
+  if (filled.phiDescription && !pages.includes(filled.phiDescription.page)) {
+    warnings.push(`The PHI description is on form page ${filled.phiDescription.page + 1}, which is not merged`);
+  }
+  return warnings;
 }
 
-// Embed signature if provided
-if (signaturePath && existsSync(signaturePath) && signaturePosition) {
-  const sigBytes = await Bun.file(signaturePath).arrayBuffer();
-  const sigImage = await doc.embedPng(sigBytes);
-  const sigDims = sigImage.scale(1);
-  const sigH = signaturePosition.height || 18;
-  const sigW = sigH * (sigDims.width / sigDims.height);
-  
-  // Get the correct page for signature (default to first page)
-  const sigPageIndex = signaturePosition.page ?? 0;
-  const sigPage = pages[sigPageIndex] || pages[0];
-  const { height: sigPageHeight } = sigPage.getSize();
-  
-  sigPage.drawImage(sigImage, {
-    x: signaturePosition.x || 60,
-    y: sigPageHeight - (signaturePosition.topY || 686),
-    width: sigW,
-    height: sigH,
-  });
-  console.log(`Signature placed on page ${sigPageIndex + 1} at (${signaturePosition.x || 60}, ${signaturePosition.topY || 686})`);
+/** What overlay {placeholders} stand for */
+export function overlayValues(config: Pick<FillConfig, 'patient' | 'provider' | 'date'>): OverlayValues {
+  const { patient, provider } = config;
+  const today = new Date().toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
+  return {
+    'patient.name': patient.name,
+    'patient.dob': patient.dob,
+    'patient.street': patient.street,
+    'patient.cityStateZip': patient.cityStateZip,
+    'patient.phone': patient.phone,
+    'patient.email': patient.email,
+    'provider.name': provider.name,
+    'provider.street': provider.street,
+    'provider.cityStateZip': provider.cityStateZip,
+    date: config.date ?? today,
+    initials: initials(patient.name),
+  };
 }
 
-// Update checkbox appearances before flattening — pdf-lib's flatten() can't
-// extract appearance refs from pdflatex-generated checkboxes, so we force
-// pdf-lib to regenerate them in its own format first.
-for (const field of form.getFields()) {
-  try {
-    const cb = form.getCheckBox(field.getName());
-    cb.updateAppearances();
-  } catch {
-    // Not a checkbox — skip
+export async function fillForm(formBytes: ArrayBuffer | Uint8Array, config: FillConfig): Promise<FillResult> {
+  const { patient, provider, fieldMappings, signaturePath, signaturePosition } = config;
+  const doc = await PDFDocument.load(formBytes);
+  const form = doc.getForm();
+  const pages = doc.getPages();
+  const result: FillResult = { bytes: new Uint8Array(), filled: [], warnings: [], pageCount: pages.length, overlays: [] };
+
+  // Overlay positions must name a page the form has
+  function overlayPage(what: string, index = 0) {
+    if (!pages[index]) throw new Error(`${what}.page is ${index}, but the form has ${pages.length} page(s) (0-${pages.length - 1})`);
+    return pages[index];
+  }
+
+  // Helper to safely set a text field; `source` names the value for warnings
+  function setText(fieldName: string | undefined, value: string | undefined, source: string) {
+    if (!fieldName) return;
+    if (value === undefined || value === '') {
+      result.warnings.push(`Left "${fieldName}" blank: no ${source}`);
+      return;
+    }
+    try {
+      const field = form.getTextField(fieldName);
+      field.setText(value);
+      result.filled.push({ name: fieldName, page: fieldPage(doc, field) });
+    } catch (e: any) {
+      result.warnings.push(`Could not set field "${fieldName}": ${e.message}`);
+    }
+  }
+
+  // Helper to safely check a checkbox
+  function checkBox(fieldName: string | undefined) {
+    if (!fieldName) return;
+    try {
+      const field = form.getCheckBox(fieldName);
+      field.check();
+      result.filled.push({ name: fieldName, page: fieldPage(doc, field) });
+    } catch (e: any) {
+      result.warnings.push(`Could not check "${fieldName}": ${e.message}`);
+    }
+  }
+
+  // Fill patient info
+  setText(fieldMappings.patientName, patient.name, 'patient.name');
+  setText(fieldMappings.dob, patient.dob, 'patient.dob');
+  setText(fieldMappings.patientStreet, patient.street, 'patient.street');
+  setText(fieldMappings.patientCityStateZip, patient.cityStateZip, 'patient.cityStateZip');
+  setText(fieldMappings.phone, patient.phone, 'patient.phone');
+
+  // Fill provider info (Section 2: I request records from)
+  setText(fieldMappings.providerName, provider.name, 'provider.name');
+  setText(fieldMappings.providerStreet, provider.street, 'provider.street');
+  setText(fieldMappings.providerCityStateZip, provider.cityStateZip, 'provider.cityStateZip');
+
+  // Fill recipient info (Section 3: Deliver to -- patient themselves)
+  setText(fieldMappings.recipientName, `${patient.name} (myself)`, 'patient.name');
+  setText(fieldMappings.recipientStreet, patient.street, 'patient.street');
+  setText(fieldMappings.recipientCityStateZip, patient.cityStateZip, 'patient.cityStateZip');
+  setText(fieldMappings.email, patient.email, 'patient.email');
+  setText(fieldMappings.recipientEmail, patient.email, 'patient.email');
+
+  // Helper to pick options in a radio group, dropdown or option list
+  const pageText = new Map<number, TextLine[]>();
+  function selectChoice(fieldName: string, { type, value }: ChoiceMapping) {
+    const wanted = Array.isArray(value) ? value : [value];
+    let field: PDFRadioGroup | PDFDropdown | PDFOptionList;
+    try {
+      field = type === 'radio' ? form.getRadioGroup(fieldName) : type === 'dropdown' ? form.getDropdown(fieldName) : form.getOptionList(fieldName);
+    } catch (e: any) {
+      result.warnings.push(`Could not set field "${fieldName}": ${e.message}`);
+      return;
+    }
+    if (wanted.length !== 1 && !(field instanceof PDFOptionList && field.isMultiselect())) {
+      result.warnings.push(`Could not set field "${fieldName}": it takes one value, got ${wanted.length}`);
+      return;
+    }
+    const options = field instanceof PDFRadioGroup ? radioOptions(doc, field, pageText) : field.getOptions().map((o) => ({ value: o }));
+    const selected: string[] = [];
+    for (const w of wanted) {
+      const match = matchOption(w, options);
+      if (match.option) selected.push(match.option.value);
+      else if (field instanceof PDFDropdown && field.isEditable()) selected.push(w);  // accepts typed-in values
+      else {
+        result.warnings.push(match.ambiguous.length
+          ? `Could not set field "${fieldName}": "${w}" could be any of ${describeOptions(match.ambiguous)}`
+          : `Could not set field "${fieldName}": "${w}" is not one of its options, ${describeOptions(options)}`);
+        return;
+      }
+    }
+    if (field instanceof PDFRadioGroup) field.select(selected[0]);
+    else field.select(selected);
+    result.filled.push({ name: fieldName, page: fieldPage(doc, field), value: selected.join(', ') });
   }
+
+  // Check information requested boxes
+  checkBox(fieldMappings.includeImages);
+  checkBox(fieldMappings.ehiExport);
+
+  // Radio groups, dropdowns and option lists
+  for (const [fieldName, choice] of Object.entries(config.choices ?? {})) selectChoice(fieldName, choice);
+
+  // Fill date
+  const today = new Date().toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
+  setText(fieldMappings.date, config.date ?? today, 'date');
+
+  // Text and marks drawn at fixed positions, for forms without fields
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const fontBold = await doc.embedFont(StandardFonts.HelveticaBold);
+  if (config.overlays?.length) {
+    const { drawn, warnings } = drawOverlays(doc, config.overlays, overlayValues(config), { regular: font, bold: fontBold });
+    result.overlays = drawn;
+    result.warnings.push(...warnings);
+  }
+
+  // Draw "See Appendix A (attached)" if needed (no form field for PHI description)
+  if (config.phiDescriptionPosition) {
+    const pos = config.phiDescriptionPosition;
+    const page = overlayPage('phiDescriptionPosition', pos.page);
+    page.drawText(PHI_DESCRIPTION_TEXT, {
+      x: pos.x,
+      y: page.getHeight() - pos.topY,
+      size: 10,
+      font: fontBold,
+      color: rgb(0.05, 0.05, 0.15),
+    });
+    result.phiDescription = { page: pos.page ?? 0 };
+  }
+
+  // Embed signature if provided
+  if (signaturePath && existsSync(signaturePath) && signaturePosition) {
+    const sigBytes = await Bun.file(signaturePath).arrayBuffer();
+    const sigImage = await doc.embedPng(sigBytes);
+    const sigDims = sigImage.scale(1);
+    const sigH = signaturePosition.height || 18;
+    const sigW = sigH * (sigDims.width / sigDims.height);
+
+    // Get the correct page for signature (default to first page)
+    const sigPageIndex = signaturePosition.page ?? 0;
+    const sigPage = overlayPage('signaturePosition', sigPageIndex);
+    const { height: sigPageHeight } = sigPage.getSize();
+    const x = signaturePosition.x || 60, topY = signaturePosition.topY || 686;
+
+    sigPage.drawImage(sigImage, {
+      x,
+      y: sigPageHeight - topY,
+      width: sigW,
+      height: sigH,
+    });
+    result.signature = { page: sigPageIndex, x, topY, width: sigW, height: sigH };
+  }
+
+  flattenForm(form);
+  result.bytes = await doc.save();
+  return result;
 }
 
-// Flatten form
-form.flatten();
-const filledBytes = await doc.save();
-await Bun.write('/tmp/provider_form_filled.pdf', filledBytes);
-
-// Merge: cover letter (if provided) + page 1 of form + appendix
-const filledDoc = await PDFDocument.load(filledBytes);
-const appendixBytes = await Bun.file(appendixPath).arrayBuffer();
-const appendixDoc = await PDFDocument.load(appendixBytes);
-const merged = await PDFDocument.create();
-
-// Add cover letter as page 1 if provided
-if (coverLetterPath && existsSync(coverLetterPath)) {
-  const coverBytes = await Bun.file(coverLetterPath).arrayBuffer();
-  const coverDoc = await PDFDocument.load(coverBytes);
-  const coverPages = await merged.copyPages(coverDoc, coverDoc.getPageIndices());
-  for (const p of coverPages) merged.addPage(p);
+/** Flatten a form so its fields render as static text */
+export function flattenForm(form: PDFForm) {
+  // Update checkbox appearances before flattening — pdf-lib's flatten() can't
+  // extract appearance refs from pdflatex-generated checkboxes, so we force
+  // pdf-lib to regenerate them in its own format first.
+  for (const field of form.getFields()) {
+    try {
+      const cb = form.getCheckBox(field.getName());
+      cb.updateAppearances();
+    } catch {
+      // Not a checkbox — skip
+    }
+  }
+  form.flatten();
 }
 
-const [formPage1] = await merged.copyPages(filledDoc, [0]);
-merged.addPage(formPage1);
+if (import.meta.main) {
+  const argv = Bun.argv.slice(2);
+  const strict = argv.includes('--strict');
+  const configPath = argv.find((a, i) => !a.startsWith('--') && argv[i - 1] !== '--debug');
+  if (!configPath) {
+    console.error('Usage: bun fill-and-merge.ts <config.json> [--strict] [--save-profile] [--no-profile] [--debug [<out.pdf>]]');
+    process.exit(1);
+  }
+
+  let config: Config;
+  try {
+    config = parseConfig<Config>(FillAndMergeConfigSchema, readFileSync(configPath, 'utf-8'), configPath);
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+  const { formPath, appendixPath, coverLetterPath, outputPath } = config;
+
+  // Load the provider's form and any profile saved for it
+  const formBytes = await Bun.file(formPath).arrayBuffer();
+  const sha256 = formSha256(formBytes);
+  const profiles = loadProfiles();
+  const match = argv.includes('--no-profile') ? null : findProfile(profiles, { formSha256: sha256, provider: config.provider.name });
+  let profile = match?.profile;
+  if (match) {
+    console.log(`Using form profile ${match.profile.id} (${match.profile.provider})`);
+    if (match.matchedBy === 'provider') {
+      const fieldNames = (await PDFDocument.load(formBytes)).getForm().getFields().map((f) => f.getName());
+      profile = profileForFields(match.profile, fieldNames);
+      const kept = Object.keys(profile.fieldMappings).length + Object.keys(profile.choices ?? {}).length;
+      console.warn(
+        `Warning: ${basename(formPath)} is not the form profile ${match.profile.id} was saved from. ` +
+        `Using only its ${kept} field mapping(s) and choice(s) for fields this form has; its signature and ` +
+        'PHI description positions and overlays are not applied. Check the result (--debug), then --save-profile ' +
+        'to keep a profile for this form, or pass --no-profile to ignore it.',
+      );
+    }
+    if (match.profile.faxNumber) console.log(`Fax number on file for ${match.profile.provider}: ${match.profile.faxNumber}`);
+  }
+  const fillConfig = profile ? applyProfile(config, profile) : config;
+  if (!fillConfig.fieldMappings && !fillConfig.choices && !fillConfig.overlays) {
+    console.error('Error: no fieldMappings, choices or overlays in the config and no saved form profile for this form (see form-profiles.ts)');
+    process.exit(1);
+  }
 
-const appPages = await merged.copyPages(appendixDoc, appendixDoc.getPageIndices());
-for (const p of appPages) merged.addPage(p);
+  let filled: FillResult, formPages: number[];
+  let certificate: Uint8Array | undefined;
+  try {
+    filled = await fillForm(formBytes, { ...fillConfig, fieldMappings: fillConfig.fieldMappings ?? {} });
+    formPages = resolveFormPages(config.formPages, filled);
+    if (config.signatureMetadataPath) {
+      const metadata = loadSignatureMetadata(config.signatureMetadataPath);
+      certificate = await renderSignatureCertificate(metadata, { signerName: config.patient.name });
+      const mismatch = config.signaturePath && signatureMismatchWarning(metadata, readFileSync(config.signaturePath));
+      if (mismatch) console.warn(`Warning: ${mismatch}`);
+    }
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+  for (const warning of filled.warnings) console.warn(warning);
+  for (const warning of omittedContentWarnings(filled, formPages)) console.warn(`Warning: ${warning}`);
+  if (argv.includes('--debug')) {
+    const next = argv[argv.indexOf('--debug') + 1];
+    const debugPath = next && !next.startsWith('--') ? next : outputPath.replace(/(\.pdf)?$/i, '-debug.pdf');
+    await Bun.write(debugPath, await renderDebugPdf(formBytes, {
+      signaturePosition: fillConfig.signaturePosition,
+      signatureSize: filled.signature,
+      phiDescriptionPosition: fillConfig.phiDescriptionPosition,
+      overlays: fillConfig.overlays,
+      values: overlayValues(fillConfig),
+    }, { base: filled.bytes }));
+    console.log(`Debug view written to ${debugPath}`);
+  }
+  if (strict && filled.warnings.length) {
+    console.error(`Error: --strict: ${filled.warnings.length} mapped field(s) or overlay(s) not set; nothing written`);
+    process.exit(1);
+  }
+  if (argv.includes('--save-profile')) {
+    if (filled.warnings.length) {
+      console.warn(`Not saving a form profile: ${filled.warnings.length} mapped field(s) or overlay(s) not set`);
+    } else {
+      const previous = match?.matchedBy === 'form' ? match.profile : undefined;
+      const saved = upsertProfile(profiles, {
+        provider: config.provider.name,
+        formSha256: sha256,
+        formName: basename(formPath),
+        fieldMappings: fillConfig.fieldMappings ?? {},
+        signaturePosition: fillConfig.signaturePosition,
+        phiDescriptionPosition: fillConfig.phiDescriptionPosition,
+        choices: fillConfig.choices,
+        overlays: fillConfig.overlays,
+        faxNumber: previous?.faxNumber,
+        notes: previous?.notes,
+      });
+      saveProfiles(profiles);
+      console.log(`Saved form profile ${saved.id}`);
+    }
+  }
+  if (filled.signature) {
+    console.log(`Signature placed on page ${filled.signature.page + 1} at (${filled.signature.x}, ${filled.signature.topY})`);
+  }
+  const filledBytes = filled.bytes;
+  await Bun.write('/tmp/provider_form_filled.pdf', filledBytes);
 
-const finalBytes = await merged.save();
-await Bun.write(outputPath, finalBytes);
-console.log(`Complete! ${merged.getPageCount()}-page PDF saved to ${outputPath}`);
+  // Merge: cover letter (if provided) + the selected form pages + appendix
+  const filledDoc = await PDFDocument.load(filledBytes);
+  const appendixBytes = await Bun.file(appendixPath).arrayBuffer();
+  const appendixDoc = await PDFDocument.load(appendixBytes);
+  const merged = await PDFDocument.create();
+
+  // Add cover letter as page 1 if provided
+  if (coverLetterPath && existsSync(coverLetterPath)) {
+    const coverBytes = await Bun.file(coverLetterPath).arrayBuffer();
+    const coverDoc = await PDFDocument.load(coverBytes);
+    const coverPages = await merged.copyPages(coverDoc, coverDoc.getPageIndices());
+    for (const p of coverPages) merged.addPage(p);
+  }
+
+  const formPageCopies = await merged.copyPages(filledDoc, formPages);
+  for (const p of formPageCopies) merged.addPage(p);
+  console.log(`Form pages merged: ${formPages.map((p) => p + 1).join(', ')} of ${filled.pageCount}`);
+
+  const appPages = await merged.copyPages(appendixDoc, appendixDoc.getPageIndices());
+  for (const p of appPages) merged.addPage(p);
+
+  if (certificate) {
+    const certificateDoc = await PDFDocument.load(certificate);
+    for (const p of await merged.copyPages(certificateDoc, certificateDoc.getPageIndices())) merged.addPage(p);
+    console.log('Signature certificate added');
+  }
+
+  const finalBytes = await merged.save();
+  await Bun.write(outputPath, finalBytes);
+  console.log(`Complete! ${merged.getPageCount()}-page PDF saved to ${outputPath}`);
+}
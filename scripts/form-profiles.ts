@@ -0,0 +1,176 @@
+#!/usr/bin/env bun
+/**
+ * Manage saved form profiles: per-provider field mappings, signature and PHI
+ * description positions, and fax numbers (see _form-profiles.ts).
+ * fill-and-merge.ts uses a matching profile automatically.
+ *
+ * Usage:
+ *   bun form-profiles.ts list [--json]
+ *   bun form-profiles.ts show <id>
+ *   bun form-profiles.ts match <form.pdf> [--provider <name>]
+ *                                         Which profile fill-and-merge.ts would use
+ *   bun form-profiles.ts save <form.pdf> '<json>' | <profile.json>
+ *                                         Create or update the profile for this form and provider
+ *   bun form-profiles.ts remove <id>
+ *   bun form-profiles.ts export [<id>...] [--output <file>]
+ *   bun form-profiles.ts import <file> [--overwrite]
+ *
+ * save takes { "provider", "fieldMappings", "choices"?, "signaturePosition"?,
+ * "phiDescriptionPosition"?, "overlays"?, "faxNumber"?, "notes"? }; fields left out keep their saved values, so
+ *   bun form-profiles.ts save form.pdf '{"provider": "Springfield Clinic", "faxNumber": "+15555550123"}'
+ * only changes the fax number. fill-and-merge.ts --save-profile saves one from a fill config.
+ *
+ * import keeps whichever copy of a profile was updated last, unless --overwrite.
+ *
+ * Options:
+ *   --profiles <path>    Profile file (default: $FORM_PROFILES or ~/.request-my-ehi/form-profiles.json)
+ */
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { basename } from 'path';
+import { FormProfileInputSchema, parseConfig } from './_config-schema.ts';
+import {
+  defaultProfilesPath,
+  exportProfiles,
+  findProfile,
+  formSha256,
+  importProfiles,
+  loadProfiles,
+  saveProfiles,
+  upsertProfile,
+  type FormProfile,
+  type FormProfileInput,
+  type ProfileBundle,
+} from './_form-profiles.ts';
+
+const argv = Bun.argv.slice(2);
+const VALUE_OPTIONS = ['--profiles', '--provider', '--output'];
+
+function getArg(name: string): string | undefined {
+  const i = argv.indexOf(name);
+  return i !== -1 && i + 1 < argv.length ? argv[i + 1] : undefined;
+}
+
+function fail(message: string): never {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+}
+
+const args = argv.filter((a, i) => !a.startsWith('--') && !VALUE_OPTIONS.includes(argv[i - 1]));
+const [command, ...rest] = args;
+const profilesPath = getArg('--profiles') || defaultProfilesPath();
+const profiles = loadProfiles(profilesPath);
+
+function findById(id: string | undefined): FormProfile {
+  const profile = profiles.find((p) => p.id === id);
+  if (!profile) fail(`No form profile "${id}" in ${profilesPath}`);
+  return profile;
+}
+
+function readForm(path: string | undefined): Uint8Array {
+  if (!path) fail(`Usage: bun form-profiles.ts ${command} <form.pdf> ...`);
+  if (!existsSync(path)) fail(`Form not found: ${path}`);
+  return readFileSync(path);
+}
+
+switch (command) {
+  case 'list': {
+    if (argv.includes('--json')) {
+      console.log(JSON.stringify(profiles, null, 2));
+      break;
+    }
+    if (!profiles.length) {
+      console.log(`No form profiles in ${profilesPath}`);
+      break;
+    }
+    for (const p of profiles) {
+      const mapped = Object.keys(p.fieldMappings).length + Object.keys(p.choices ?? {}).length;
+      console.log(`${p.id}`);
+      console.log(`  ${p.provider}${p.formName ? ` — ${p.formName}` : ''}`);
+      console.log(`  ${mapped} mapped field(s)${p.signaturePosition ? ', signature' : ''}${p.phiDescriptionPosition ? ', PHI description' : ''}` +
+        `${p.overlays?.length ? `, ${p.overlays.length} overlay(s)` : ''}` +
+        `${p.faxNumber ? `, fax ${p.faxNumber}` : ''}; updated ${p.updatedAt.slice(0, 10)}`);
+    }
+    break;
+  }
+
+  case 'show':
+    console.log(JSON.stringify(findById(rest[0]), null, 2));
+    break;
+
+  case 'match': {
+    const match = findProfile(profiles, { formSha256: formSha256(readForm(rest[0])), provider: getArg('--provider') });
+    if (!match) fail(`No form profile matches ${basename(rest[0])}`);
+    console.log(JSON.stringify(match, null, 2));
+    break;
+  }
+
+  case 'save': {
+    const bytes = readForm(rest[0]);
+    if (!rest[1]) fail('Missing profile JSON (or a file containing it)');
+    const json = existsSync(rest[1]) ? readFileSync(rest[1], 'utf-8') : rest[1];
+    let input: Partial<FormProfileInput> & { provider: string };
+    try {
+      input = parseConfig(FormProfileInputSchema, json, 'form profile');
+    } catch (err) {
+      fail((err as Error).message);
+    }
+    const sha256 = formSha256(bytes);
+    const existing = profiles.find((p) => p.formSha256 === sha256 && p.provider === input.provider);
+    const fieldMappings = input.fieldMappings ?? existing?.fieldMappings;
+    if (!fieldMappings) fail('fieldMappings is required for a new profile');
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...kept } = existing ?? ({} as Partial<FormProfile>);
+    const saved = upsertProfile(profiles, {
+      ...kept,
+      ...input,
+      fieldMappings,
+      formSha256: sha256,
+      formName: basename(rest[0]),
+    });
+    saveProfiles(profiles, profilesPath);
+    console.log(JSON.stringify(saved, null, 2));
+    break;
+  }
+
+  case 'remove': {
+    const profile = findById(rest[0]);
+    saveProfiles(profiles.filter((p) => p !== profile), profilesPath);
+    console.log(`Removed ${profile.id}`);
+    break;
+  }
+
+  case 'export': {
+    let bundle: ProfileBundle;
+    try {
+      bundle = exportProfiles(profiles, rest);
+    } catch (err) {
+      fail((err as Error).message);
+    }
+    const output = getArg('--output');
+    if (output) {
+      writeFileSync(output, JSON.stringify(bundle, null, 2) + '\n');
+      console.error(`Exported ${bundle.profiles.length} profile(s) to ${output}`);
+    } else {
+      console.log(JSON.stringify(bundle, null, 2));
+    }
+    break;
+  }
+
+  case 'import': {
+    if (!rest[0]) fail('Usage: bun form-profiles.ts import <file> [--overwrite]');
+    if (!existsSync(rest[0])) fail(`File not found: ${rest[0]}`);
+    let result: ReturnType<typeof importProfiles>;
+    try {
+      result = importProfiles(profiles, JSON.parse(readFileSync(rest[0], 'utf-8')), { overwrite: argv.includes('--overwrite') });
+    } catch (err) {
+      fail((err as Error).message);
+    }
+    saveProfiles(profiles, profilesPath);
+    console.log(`Imported ${result.added.length} new and ${result.updated.length} updated profile(s)` +
+      (result.skipped.length ? `; kept the local copy of ${result.skipped.join(', ')} (not older than the import)` : ''));
+    break;
+  }
+
+  default:
+    console.error('Usage: bun form-profiles.ts <list|show|match|save|remove|export|import> [...] [--profiles <path>]');
+    process.exit(1);
+}
@@ -22,24 +22,18 @@
  *   coverage        - "comprehensive" or "partial"
  *   approach        - "native", "standards_based", or "hybrid"
  *   userwebTip      - Optional: instructions for finding docs in the vendor's support portal
+ *   certification   - Optional: the (b)(10)-certified CHPL listing to cite, as printed
+ *                     by `bun check-chpl.ts <id> --json`
+ *
+ * `bun lookup-vendor.ts <term> --json` prints matches in this shape. The config is
+ * checked against AppendixConfigSchema (_config-schema.ts); unknown keys and wrong
+ * types are errors.
  *
  * Output: /tmp/appendix.pdf
  */
 import { PDFDocument, rgb, StandardFonts, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
-
-interface VendorConfig {
-  developer?: string;
-  product_name?: string;
-  export_formats?: string[];
-  ehi_documentation_url?: string;
-  entity_count?: number;
-  field_count?: number;
-  summary?: string;
-  grade?: string;
-  coverage?: string;
-  approach?: string;
-  userwebTip?: string;
-}
+import type { VendorConfig } from './_vendor-db.ts';
+import { AppendixConfigSchema, parseConfig } from './_config-schema.ts';
 
 interface Config {
   vendor?: VendorConfig;
@@ -50,7 +44,13 @@ interface Config {
 // ---------------------------------------------------------------------------
 // Config
 // ---------------------------------------------------------------------------
-const config: Config = Bun.argv[2] ? JSON.parse(Bun.argv[2]) : {};
+let config: Config = {};
+try {
+  if (Bun.argv[2]) config = parseConfig<Config>(AppendixConfigSchema, Bun.argv[2]);
+} catch (err) {
+  console.error(`Error: ${(err as Error).message}`);
+  process.exit(1);
+}
 const vendor = config.vendor || null;
 const requestDate = config.date || null;
 const outputPath = config.outputPath || '/tmp/appendix.pdf';
@@ -62,6 +62,7 @@ const exportFormats = vendor?.export_formats?.join(', ') || 'TSV';
 const ehiDocsUrl = vendor?.ehi_documentation_url || 'https://open.epic.com/EHITables';
 const entityCount = vendor?.entity_count;
 const fieldCount = vendor?.field_count;
+const certification = vendor?.certification;
 
 // ---------------------------------------------------------------------------
 // Colours & layout
@@ -238,7 +239,13 @@ numbered(2,
 numbered(3,
   '**ONC Certification \u00A7 170.315(b)(10):** Since December 31, 2023, all certified EHR systems must support ' +
   'single-patient EHI export in a computable format.' +
-  (isEpic ? ' Epic\u2019s EHI Export satisfies this requirement.' : ` **${productName}** is certified to meet this requirement.`)
+  (isEpic
+    ? ' Epic\u2019s EHI Export satisfies this requirement.'
+    : certification
+      ? ` **${certification.product}** is listed on the ONC Certified Health IT Product List as certified to this ` +
+        `criterion (CHPL product number **${certification.chpl_product_number}**` +
+        `${certification.certification_date ? `, certified ${certification.certification_date}` : ''}).`
+      : ` **${productName}** is certified to meet this requirement.`)
 );
 y -= 8;
 
@@ -271,6 +278,14 @@ y -= 8;
   } else if (ehiDocsUrl) {
     rows.push([`${vendorName} EHI docs`, ehiDocsUrl]);
   }
+  if (certification) {
+    rows.push([
+      'CHPL certified product listing',
+      certification.chpl_listing_id !== undefined
+        ? `chpl.healthit.gov/#/listing/${certification.chpl_listing_id}`
+        : `CHPL ${certification.chpl_product_number}`,
+    ]);
+  }
   rows.push(['ONC certification test method', 'healthit.gov/test-method/electronic-health-information-export']);
   rows.push(['21st Century Cures Act Final Rule', 'federalregister.gov/d/2020-07419']);
 
@@ -13,9 +13,13 @@
  *   date         - Date of request, defaults to today (optional)
  *   outputPath   - Output file path, defaults to /tmp/cover-letter.pdf
  *
+ * The config is checked against CoverLetterConfigSchema (_config-schema.ts);
+ * unknown keys and wrong types are errors.
+ *
  * Output: /tmp/cover-letter.pdf (or configurable path)
  */
 import { PDFDocument, rgb, StandardFonts, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+import { CoverLetterConfigSchema, parseConfig } from './_config-schema.ts';
 
 interface Config {
   patientName?: string;
@@ -24,7 +28,13 @@ interface Config {
   outputPath?: string;
 }
 
-const config: Config = Bun.argv[2] ? JSON.parse(Bun.argv[2]) : {};
+let config: Config = {};
+try {
+  if (Bun.argv[2]) config = parseConfig<Config>(CoverLetterConfigSchema, Bun.argv[2]);
+} catch (err) {
+  console.error(`Error: ${(err as Error).message}`);
+  process.exit(1);
+}
 const outputPath = config.outputPath || '/tmp/cover-letter.pdf';
 const patientName = config.patientName || null;
 const dob = config.dob || null;
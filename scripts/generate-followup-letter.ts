@@ -0,0 +1,425 @@
+#!/usr/bin/env bun
+/**
+ * Generate a follow-up or escalation letter PDF for an EHI access request
+ * that missed its HIPAA deadline or was answered with something other than
+ * the EHI Export.
+ *
+ * Letter kinds:
+ *   reminder              - Polite follow-up to the provider (default)
+ *   information-blocking  - Information blocking complaint to ASTP/ONC (45 CFR Part 171)
+ *   ocr-complaint         - HIPAA Right of Access complaint to HHS OCR (45 CFR § 164.524)
+ *
+ * Usage:
+ *   bun generate-followup-letter.ts '{"requestDate": "2026-01-05", "provider": "...", "patientName": "..."}'
+ *   bun generate-followup-letter.ts '{"kind": "ocr-complaint", "requestDate": "2026-01-05", "received": "a CCDA summary", ...}'
+ *
+ * Config fields:
+ *   kind                 - Letter kind, see above (default: reminder)
+ *   requestDate          - Date the original request was sent, YYYY-MM-DD (required)
+ *   provider             - Provider / organization name (optional)
+ *   providerAddress      - Provider mailing address, for complaints (optional)
+ *   vendor               - EHR developer / product, e.g. "Epic Systems (Epic EHR)" (optional)
+ *   patientName          - Patient's full name (optional)
+ *   dob                  - Date of birth (optional)
+ *   method               - How the request was sent, e.g. "fax" (optional)
+ *   faxNumber            - Fax number the request was sent to (optional)
+ *   extensionNoticeDate  - Date the provider gave written notice of an extension (optional)
+ *   received             - What was received instead of the export, e.g. "a CCDA summary" (optional)
+ *   receivedDate         - Date that was received, YYYY-MM-DD (optional)
+ *   followupDates        - Dates earlier follow-up letters were sent, YYYY-MM-DD (optional)
+ *   date                 - Date of this letter, YYYY-MM-DD, defaults to today (optional)
+ *   outputPath           - Output file path, defaults to /tmp/followup-letter.pdf
+ *
+ * The config is checked against FollowupConfigSchema (_config-schema.ts).
+ *
+ * Output: /tmp/followup-letter.pdf (or configurable path)
+ */
+import { PDFDocument, rgb, StandardFonts, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+import { hipaaDeadlines, addDays, daysBetween, formatLongDate, today } from './_deadlines.ts';
+import { FollowupConfigSchema, parseConfig } from './_config-schema.ts';
+
+export type LetterKind = 'reminder' | 'information-blocking' | 'ocr-complaint';
+
+export const LETTER_KINDS: LetterKind[] = ['reminder', 'information-blocking', 'ocr-complaint'];
+
+export interface FollowupConfig {
+  kind?: LetterKind;
+  requestDate: string;
+  provider?: string;
+  providerAddress?: string;
+  vendor?: string;
+  patientName?: string;
+  dob?: string;
+  method?: string;
+  faxNumber?: string;
+  extensionNoticeDate?: string;
+  received?: string;
+  receivedDate?: string;
+  followupDates?: string[];
+  date?: string;
+  outputPath?: string;
+}
+
+// OCR complaints must be filed within 180 days of when the complainant knew
+// of the act or omission (45 CFR § 160.306(b)(3))
+const OCR_FILING_DAYS = 180;
+
+// ---------------------------------------------------------------------------
+// Colours & layout
+// ---------------------------------------------------------------------------
+const DARK_BLUE  = rgb(0x1a / 255, 0x3c / 255, 0x5e / 255);
+const GRAY       = rgb(0.45, 0.45, 0.45);
+const BLACK      = rgb(0, 0, 0);
+
+const PAGE_W = 612, PAGE_H = 792;
+const ML = 58, MR = 58, MT = 50, MB = 84;
+const CW = PAGE_W - ML - MR;
+
+const TITLE_SIZE = 18;
+const HEADING_SIZE = 12;
+const SECTION_SIZE = 12.5;
+const BODY_SIZE = 11;
+const BODY_LEADING = BODY_SIZE * 1.55;
+
+// ---------------------------------------------------------------------------
+// Text helpers
+// ---------------------------------------------------------------------------
+interface TextSegment {
+  text: string;
+  font: PDFFont;
+  size?: number;
+  color?: RGB;
+}
+
+function wrapSegments(segments: TextSegment[], defaultSize: number, maxWidth: number): TextSegment[][] {
+  interface Token { word: string; font: PDFFont; size: number; color?: RGB; glue: boolean; }
+  const tokens: Token[] = [];
+  let prevEnd = true;
+  for (const seg of segments) {
+    const sz = seg.size ?? defaultSize;
+    if (seg.text === '') continue;
+    const starts = /^\s/.test(seg.text);
+    const words = seg.text.split(/\s+/).filter(Boolean);
+    for (let i = 0; i < words.length; i++) {
+      const glue = (i === 0 && !starts && !prevEnd && tokens.length > 0);
+      tokens.push({ word: words[i], font: seg.font, size: sz, color: seg.color, glue });
+    }
+    prevEnd = /\s$/.test(seg.text);
+  }
+  const lines: TextSegment[][] = [];
+  let cur: TextSegment[] = [], cw = 0;
+  for (const t of tokens) {
+    const ww = t.font.widthOfTextAtSize(t.word, t.size);
+    if (t.glue && cur.length > 0) { cur.push({ text: t.word, font: t.font, size: t.size, color: t.color }); cw += ww; continue; }
+    const sp = cur.length > 0 ? t.font.widthOfTextAtSize(' ', t.size) : 0;
+    if (cw + sp + ww > maxWidth && cur.length > 0) { lines.push(cur); cur = []; cw = 0; }
+    const pfx = cur.length > 0 ? ' ' : '';
+    cur.push({ text: pfx + t.word, font: t.font, size: t.size, color: t.color });
+    cw += (pfx ? t.font.widthOfTextAtSize(' ', t.size) : 0) + ww;
+  }
+  if (cur.length > 0) lines.push(cur);
+  return lines;
+}
+
+function drawWrapped(page: PDFPage, segs: TextSegment[], x: number, y: number, sz: number, maxW: number, lead: number, color: RGB): number {
+  for (const line of wrapSegments(segs, sz, maxW)) {
+    let cx = x;
+    for (const s of line) {
+      page.drawText(s.text, { x: cx, y, size: s.size ?? sz, font: s.font, color: s.color ?? color });
+      cx += s.font.widthOfTextAtSize(s.text, s.size ?? sz);
+    }
+    y -= lead;
+  }
+  return y;
+}
+
+function md(text: string, roman: PDFFont, bold: PDFFont): TextSegment[] {
+  return text.split(/(\*\*[^*]+\*\*)/g).filter(Boolean).map(p =>
+    p.startsWith('**') && p.endsWith('**')
+      ? { text: p.slice(2, -2), font: bold }
+      : { text: p, font: roman }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Letter
+// ---------------------------------------------------------------------------
+const TITLES: Record<LetterKind, [string, string]> = {
+  'reminder': ['FOLLOW-UP', 'Overdue Request for Access to Electronic Health Information'],
+  'information-blocking': ['INFORMATION BLOCKING COMPLAINT', '21st Century Cures Act \u00B7 45 CFR Part 171'],
+  'ocr-complaint': ['HIPAA RIGHT OF ACCESS COMPLAINT', '45 CFR \u00A7 164.524'],
+};
+
+const RECIPIENTS: Record<Exclude<LetterKind, 'reminder'>, string[]> = {
+  'information-blocking': [
+    '**Assistant Secretary for Technology Policy / Office of the National Coordinator for Health IT (ASTP/ONC)**',
+    'Submitted through the Information Blocking Portal',
+  ],
+  'ocr-complaint': [
+    '**U.S. Department of Health and Human Services, Office for Civil Rights**',
+    'Submitted through the OCR Complaint Portal',
+  ],
+};
+
+export async function renderFollowupLetter(config: FollowupConfig): Promise<Uint8Array> {
+  const kind = config.kind ?? 'reminder';
+  if (!LETTER_KINDS.includes(kind)) {
+    throw new Error(`kind must be one of ${LETTER_KINDS.join(', ')}`);
+  }
+  const letterDate = config.date || today();
+  const { deadline, extended } = hipaaDeadlines(config.requestDate, config.extensionNoticeDate);
+  const daysLate = daysBetween(deadline, letterDate);
+  const pastDeadline = daysLate > 0;
+  const provider = config.provider || 'the provider';
+  const vendor = config.vendor || 'its EHR';
+  const received = config.received
+    ? `${config.received}${config.receivedDate ? ` on ${formatLongDate(config.receivedDate)}` : ''}`
+    : null;
+  const sentVia = config.method === 'fax' && config.faxNumber
+    ? ` by fax to ${config.faxNumber}`
+    : config.method ? ` by ${config.method}` : '';
+  const deadlineCite = extended ? '45 CFR \u00A7 164.524(b)(2)(iii)' : '45 CFR \u00A7 164.524(b)(2)';
+  const late = pastDeadline ? ` (${daysLate} day${daysLate === 1 ? '' : 's'} ago)` : '';
+
+  const doc = await PDFDocument.create();
+
+  const hb = await doc.embedFont(StandardFonts.HelveticaBold);
+  const h  = await doc.embedFont(StandardFonts.Helvetica);
+  const ho = await doc.embedFont(StandardFonts.HelveticaOblique);
+  const tr = await doc.embedFont(StandardFonts.TimesRoman);
+  const tb = await doc.embedFont(StandardFonts.TimesRomanBold);
+
+  let page: PDFPage = doc.addPage([PAGE_W, PAGE_H]);
+  let y = PAGE_H - MT;
+
+  // Complaints can run past one page; start a new one when the body reaches the footer
+  function ensureSpace(space: number) {
+    if (y - space >= MB) return;
+    page = doc.addPage([PAGE_W, PAGE_H]);
+    y = PAGE_H - MT;
+  }
+
+  function lines(text: string, x: number, maxW: number, roman = tr, bold = tb) {
+    for (const line of wrapSegments(md(text, roman, bold), BODY_SIZE, maxW)) {
+      ensureSpace(BODY_LEADING);
+      y = drawWrapped(page, line, x, y, BODY_SIZE, Infinity, BODY_LEADING, BLACK);
+    }
+  }
+
+  function para(text: string) {
+    lines(text, ML, CW);
+    y -= BODY_LEADING * 0.5;
+  }
+
+  function bullet(text: string) {
+    ensureSpace(BODY_LEADING);
+    page.drawText('\u2022', { x: ML + 1, y, size: BODY_SIZE, font: h, color: BLACK });
+    lines(text, ML + 14, CW - 14);
+    y -= 2;
+  }
+
+  function section(title: string) {
+    ensureSpace(BODY_LEADING * 3);
+    y -= 4;
+    page.drawText(title, { x: ML, y, size: SECTION_SIZE, font: hb, color: DARK_BLUE });
+    y -= 4;
+    page.drawLine({ start: { x: ML, y }, end: { x: PAGE_W - MR, y }, thickness: 0.5, color: DARK_BLUE, opacity: 0.3 });
+    y -= BODY_LEADING + 2;
+  }
+
+  // --- Title ---
+  const [title, subtitle] = TITLES[kind];
+  {
+    const tw = hb.widthOfTextAtSize(title, TITLE_SIZE);
+    page.drawText(title, { x: (PAGE_W - tw) / 2, y, size: TITLE_SIZE, font: hb, color: DARK_BLUE });
+    y -= 16;
+  }
+  {
+    const tw = ho.widthOfTextAtSize(subtitle, 10.5);
+    page.drawText(subtitle, { x: (PAGE_W - tw) / 2, y, size: 10.5, font: ho, color: GRAY });
+    y -= 18;
+  }
+  page.drawLine({ start: { x: ML, y }, end: { x: PAGE_W - MR, y }, thickness: 0.75, color: DARK_BLUE });
+  y -= 20;
+
+  // --- Date and patient identification ---
+  page.drawText(formatLongDate(letterDate), { x: ML, y, size: BODY_SIZE, font: tr, color: BLACK });
+  y -= BODY_LEADING + 4;
+  if (config.patientName) {
+    let idLine = `**${config.patientName}**`;
+    if (config.dob) idLine += ` \u00B7 DOB: ${config.dob}`;
+    y = drawWrapped(page, md(idLine, h, hb), ML, y, BODY_SIZE, CW, BODY_LEADING, BLACK);
+    y -= 10;
+  }
+
+  // --- To ---
+  page.drawText('To:', { x: ML, y, size: HEADING_SIZE, font: hb, color: DARK_BLUE });
+  y -= BODY_LEADING + 2;
+  const recipient = kind === 'reminder'
+    ? ['**Medical Records / Health Information Management Department**', ...(config.provider ? [config.provider] : [])]
+    : RECIPIENTS[kind];
+  for (const line of recipient) lines(line, ML + 14, CW - 14);
+  y -= 14;
+
+  // Dated history shared by both complaints
+  function chronology() {
+    section('What Happened');
+    bullet(`**${formatLongDate(config.requestDate)}:** I sent ${provider}${sentVia} a written request for a complete ` +
+      '**Electronic Health Information (EHI) Export** under the HIPAA Right of Access.');
+    if (config.extensionNoticeDate) {
+      bullet(`**${formatLongDate(config.extensionNoticeDate)}:** ${provider} gave written notice that it needed more time.`);
+    }
+    bullet(`**${formatLongDate(deadline)}:** Deadline to act on the request (${deadlineCite}).`);
+    if (received) {
+      bullet(`**${config.receivedDate ? formatLongDate(config.receivedDate) : 'Later'}:** I received ${config.received} ` +
+        'instead of the EHI Export.');
+    }
+    for (const date of config.followupDates ?? []) {
+      bullet(`**${formatLongDate(date)}:** I sent a follow-up letter asking for the EHI Export.`);
+    }
+    bullet(`**${formatLongDate(letterDate)}:** As of this letter I have not received the EHI Export` +
+      (pastDeadline ? `, ${daysLate} day${daysLate === 1 ? '' : 's'} after the deadline.` : '.'));
+  }
+
+  function exportAvailability() {
+    return `The EHI Export is a built-in, certified feature of ${vendor} (45 CFR \u00A7 170.315(b)(10)), ` +
+      'required of certified EHRs since December 31, 2023, so the requested form and format is readily producible.';
+  }
+
+  // --- Body ---
+  if (kind === 'reminder') {
+    para(
+      `On **${formatLongDate(config.requestDate)}** I sent${sentVia} a request for access to my health ` +
+      'information under the **HIPAA Right of Access (45 CFR \u00A7 164.524)**, asking for a complete ' +
+      '**Electronic Health Information (EHI) Export**. A copy of the original request is attached.'
+    );
+    if (received) {
+      para(
+        `I received ${received} \u2014 thank you, but that isn\u2019t what I asked for. I requested the complete ` +
+        `EHI Export, which ${config.vendor ? `${config.vendor}` : 'your EHR system'} produces with its certified export feature ` +
+        '(45 CFR \u00A7 170.315(b)(10)). Under **45 CFR \u00A7 164.524(c)(2)(i)**, access must be provided in the ' +
+        'form and format I requested when it is readily producible.'
+      );
+    }
+    if (pastDeadline) {
+      para(
+        extended
+          ? `After you notified me that more time was needed, the extended deadline under ${deadlineCite} ` +
+            `was **${formatLongDate(deadline)}**. That date has passed${late} and I have not received the EHI Export.`
+          : `Under ${deadlineCite}, a response was due within 30 calendar days, by ` +
+            `**${formatLongDate(deadline)}**. That date has passed${late} and I have not received ` +
+            (received ? 'the EHI Export.' : 'my records or a written notice of extension.')
+      );
+    }
+    para(
+      'I understand requests sometimes get routed to the wrong place. If this one was lost or is still in ' +
+      'progress, **please complete it as soon as possible** and let me know when I can expect the export. ' +
+      'If anything is unclear or missing from my request, please contact me using the information on the ' +
+      'attached form so I can fix it right away.'
+    );
+    para(
+      'If I don\u2019t hear back, I may file a complaint with the **HHS Office for Civil Rights**, which ' +
+      'enforces the Right of Access, and report the refusal to **ASTP/ONC** as possible information blocking ' +
+      'under **45 CFR Part 171**.'
+    );
+    para('Thank you for your help with this.');
+  } else if (kind === 'information-blocking') {
+    para(
+      `I am a patient of **${provider}**${config.providerAddress ? ` (${config.providerAddress})` : ''}, a health care ` +
+      'provider and an actor under **45 CFR \u00A7 171.102**. I am submitting this complaint because it has not ' +
+      `given me access to my electronic health information through the EHI Export feature of ${vendor}.`
+    );
+    chronology();
+    section('Why This May Be Information Blocking');
+    para(exportAvailability());
+    para(
+      'Under **45 CFR \u00A7 171.103**, a practice that is likely to interfere with access to, or exchange or ' +
+      'use of, electronic health information is information blocking when a health care provider knows the ' +
+      'practice is unreasonable and is likely to interfere. Under the manner condition of the content and ' +
+      'manner exception (**45 CFR \u00A7 171.301(b)**), an actor must fulfill a request in the manner requested ' +
+      'unless it is technically unable to or cannot reach agreeable terms with the requestor.'
+    );
+    para(
+      received
+        ? `Providing ${config.received} in place of the requested export, which ${provider} can produce with its ` +
+          'certified EHR, interferes with my access to my complete record.'
+        : `Not responding to my request by ${formatLongDate(deadline)}, the deadline under ${deadlineCite}, ` +
+          'interferes with my access to my complete record.'
+    );
+    section('What I Am Asking For');
+    para(
+      `I ask ASTP/ONC to review this complaint and refer it as appropriate, and for ${provider} to provide ` +
+      'my complete EHI Export. Copies of my original request and related correspondence are attached.'
+    );
+  } else {
+    para(
+      `I am filing a complaint against **${provider}**${config.providerAddress ? ` (${config.providerAddress})` : ''}, ` +
+      'a HIPAA covered entity, for not providing access to my protected health information as required by ' +
+      '**45 CFR \u00A7 164.524**.'
+    );
+    chronology();
+    section('Requirements Not Met');
+    if (pastDeadline) {
+      bullet(
+        `**Timeliness, ${deadlineCite}.** A covered entity must act on a request for access no later than 30 days ` +
+        `after receiving it${extended ? ', or by the date given in a timely written extension notice' : ''}. ` +
+        `That deadline was ${formatLongDate(deadline)}${late}.`
+      );
+    }
+    if (received) {
+      bullet(
+        '**Form and format, 45 CFR \u00A7 164.524(c)(2)(i).** A covered entity must provide access in the ' +
+        `form and format requested if it is readily producible. ${exportAvailability()} Instead I received ` +
+        `${config.received}.`
+      );
+    }
+    bullet(
+      `**Related:** not using the certified export may also be information blocking under **45 CFR Part 171** ` +
+      '(45 CFR \u00A7\u00A7 171.103, 171.301).'
+    );
+    const knownDate = config.receivedDate && received ? config.receivedDate : addDays(deadline, 1);
+    para(
+      `This complaint is filed within 180 days of ${formatLongDate(knownDate)}, when I learned my request ` +
+      `would not be fulfilled as made (45 CFR \u00A7 160.306(b)(3); window closes ` +
+      `${formatLongDate(addDays(knownDate, OCR_FILING_DAYS))}).`
+    );
+    section('What I Am Asking For');
+    para(
+      `I ask OCR to investigate and to require ${provider} to provide my complete EHI Export in the form and ` +
+      'format I requested. Copies of my original request and related correspondence are attached.'
+    );
+  }
+
+  // --- Footer note on every page ---
+  const note = `Follow-up to my access request of ${formatLongDate(config.requestDate)}.`;
+  const nw = ho.widthOfTextAtSize(note, 8.5);
+  for (const p of doc.getPages()) {
+    p.drawLine({ start: { x: ML, y: 72 }, end: { x: PAGE_W - MR, y: 72 }, thickness: 0.3, color: GRAY });
+    p.drawText(note, { x: (PAGE_W - nw) / 2, y: 58, size: 8.5, font: ho, color: GRAY });
+  }
+
+  return doc.save();
+}
+
+// CLI entry point - only runs when executed directly
+if (import.meta.main) {
+  if (!Bun.argv[2]) {
+    console.error('Usage: bun generate-followup-letter.ts \'{"requestDate": "YYYY-MM-DD", ...}\'');
+    process.exit(1);
+  }
+  let config: FollowupConfig;
+  try {
+    config = parseConfig<FollowupConfig>(FollowupConfigSchema, Bun.argv[2], 'follow-up letter config');
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+  const outputPath = config.outputPath || '/tmp/followup-letter.pdf';
+  try {
+    await Bun.write(outputPath, await renderFollowupLetter(config));
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+  console.log(`Wrote ${outputPath} (${config.kind ?? 'reminder'}` + (config.provider ? `, ${config.provider})` : ')'));
+}
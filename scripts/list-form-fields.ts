@@ -1,13 +1,28 @@
 #!/usr/bin/env bun
 /**
  * Enumerate all form fields in a PDF, with their types and positions.
- * Usage: bun list-form-fields.ts <path-to-pdf>
+ * Usage: bun list-form-fields.ts <path-to-pdf> [--debug [<out.pdf>]]
+ *
+ *   --debug   Also write a copy of the form with a topY/x grid and every widget
+ *             outlined and labelled (default: <name>-debug.pdf next to the form)
+ *
+ * Dropdowns and option lists show their options; radio groups show each
+ * button's export value and the label printed beside it. These are what the
+ * values in a fill config's "choices" are matched against.
+ *
+ * Each widget's position is given as page (0-indexed, as in fill configs),
+ * x and topY (from the top of its own page), width and height, in points.
  */
-import { PDFDocument } from 'pdf-lib';
+import { PDFDocument, type PDFRadioGroup } from 'pdf-lib';
+import { widgetPage } from './fill-and-merge.ts';
+import { describeOptions, radioOptions } from './_choices.ts';
+import type { TextLine } from './_pdf-text.ts';
+import { renderDebugPdf } from './_debug-render.ts';
 
-const pdfPath = Bun.argv[2];
+const argv = Bun.argv.slice(2);
+const pdfPath = argv.find((a, i) => !a.startsWith('--') && argv[i - 1] !== '--debug');
 if (!pdfPath) {
-  console.error('Usage: bun list-form-fields.ts <path-to-pdf>');
+  console.error('Usage: bun list-form-fields.ts <path-to-pdf> [--debug [<out.pdf>]]');
   process.exit(1);
 }
 
@@ -15,6 +30,10 @@ const pdfBytes = await Bun.file(pdfPath).arrayBuffer();
 const doc = await PDFDocument.load(pdfBytes);
 const form = doc.getForm();
 const fields = form.getFields();
+const pages = doc.getPages();
+const pageText = new Map<number, TextLine[]>();
+
+console.log(`Pages: ${pages.length} (${pages.map((p, i) => `page=${i}: ${p.getWidth().toFixed(0)}x${p.getHeight().toFixed(0)}`).join(', ')})\n`);
 
 for (const field of fields) {
   const type = field.constructor.name;
@@ -27,18 +46,29 @@ for (const field of fields) {
     try { info += ` checked=${(field as any).isChecked()}`; } catch {}
   } else if (type === 'PDFDropdown' || type === 'PDFOptionList') {
     try { info += ` options=${JSON.stringify((field as any).getOptions())}`; } catch {}
+  } else if (type === 'PDFRadioGroup') {
+    // Export values, with the label printed beside each button
+    try { info += ` options=[${describeOptions(radioOptions(doc, field as PDFRadioGroup, pageText))}]`; } catch {}
   }
 
   const widgets = (field as any).acroField.getWidgets();
   for (const w of widgets) {
     const rect = w.getRectangle();
-    const page = doc.getPages()[0];
-    const { height } = page.getSize();
+    const pageIndex = widgetPage(doc, w);
+    // Widgets that aren't on any page are measured against the first
+    const { height } = pages[Math.max(pageIndex, 0)].getSize();
     const topY = height - rect.y - rect.height;
-    info += ` | x=${rect.x.toFixed(0)}, topY=${topY.toFixed(0)}, w=${rect.width.toFixed(0)}, h=${rect.height.toFixed(0)}`;
+    info += ` | page=${pageIndex === -1 ? '?' : pageIndex}, x=${rect.x.toFixed(0)}, topY=${topY.toFixed(0)}, w=${rect.width.toFixed(0)}, h=${rect.height.toFixed(0)}`;
   }
 
   console.log(info);
 }
 
 console.log(`\nTotal: ${fields.length} fields`);
+
+if (argv.includes('--debug')) {
+  const next = argv[argv.indexOf('--debug') + 1];
+  const debugPath = next && !next.startsWith('--') ? next : pdfPath.replace(/(\.pdf)?$/i, '-debug.pdf');
+  await Bun.write(debugPath, await renderDebugPdf(pdfBytes));
+  console.log(`Debug view written to ${debugPath}`);
+}
@@ -3,106 +3,199 @@
  * Search the EHI Export vendor database by name, product, or slug.
  *
  * Usage:
- *   bun lookup-vendor.ts <search-term>
+ *   bun lookup-vendor.ts <search-term> [options]
+ *   bun lookup-vendor.ts --portal <portal-url-or-hostname> [options]
+ *
+ * Options:
+ *   --portal <url>      Infer the vendor from a patient portal URL or hostname
+ *                       (a search term starting with http:// or https:// is treated
+ *                       the same way). Patterns live in _vendor-match.ts.
+ *   --json              Print matches as JSON; each match's "vendor" is in the
+ *                       VendorConfig shape generate-appendix.ts accepts
+ *   --live              Fetch the current database instead of the pinned snapshot
+ *                       (falls back to the snapshot if the fetch fails)
+ *   --snapshot <id>     Search a specific cached snapshot (see vendor-cache.ts list)
+ *
+ * Matches are ranked: spacing, word order and small typos are tolerated, and
+ * terms may come from different fields ("Cerner Millennium").
+ *
+ * Results come from the pinned local snapshot (see vendor-cache.ts), so they
+ * don't change between runs and work offline; the first run fetches and pins one.
  *
  * Examples:
  *   bun lookup-vendor.ts epic
  *   bun lookup-vendor.ts athena
  *   bun lookup-vendor.ts meditech
+ *   bun lookup-vendor.ts "athena health"
+ *   bun lookup-vendor.ts --portal https://mychart.example.org/MyChart/
+ *   bun lookup-vendor.ts athena --json
+ *
+ * Other scripts can import findVendors() instead of running the CLI.
  */
+import { loadVendorDb, loadAnalysis, toVendorConfig, type Vendor, type VendorConfig, type VendorDb } from './_vendor-db.ts';
+import {
+  inferVendorFromPortal,
+  MIN_MATCH_SCORE,
+  rankVendors,
+  rankVendorsForPortal,
+  type PortalInference,
+  type VendorMatch,
+} from './_vendor-match.ts';
 
-const BASE = 'https://joshuamandel.com/ehi-export-analysis/data';
+export interface FindVendorsOptions {
+  portal?: boolean;       // treat the term as a portal URL or hostname (implied for http(s) URLs)
+  snapshot?: string;      // search this cached snapshot instead of the pinned one
+  live?: boolean;         // fetch the current database
+  vendors?: Vendor[];     // search these records instead of loading the database
+  minScore?: number;
+}
 
-const searchTerm = Bun.argv.slice(2).join(' ').trim();
-if (!searchTerm) {
-  console.error('Usage: bun lookup-vendor.ts <search-term>');
-  console.error('Example: bun lookup-vendor.ts athena');
-  process.exit(1);
+export interface VendorLookup {
+  query: string;                   // the search term, or the vendor inferred from the portal
+  portal?: PortalInference | null; // set for portal lookups; null when no pattern matched
+  matches: VendorMatch[];          // best first
+  db: VendorDb;
 }
 
-interface Vendor {
-  developer?: string;
-  product_name?: string;
-  family?: string;
-  slug?: string;
-  grade?: string;
-  coverage?: string;
-  approach?: string;
-  export_formats?: string[];
-  entity_count?: number;
-  field_count?: number;
-  ehi_documentation_url?: string;
-  summary?: string;
-  has_data_dictionary?: boolean;
-  has_sample_data?: boolean;
-  includes_billing?: boolean;
-  patient_communications?: string;
-  chpl_ids?: number[];
+export function isPortalUrl(term: string): boolean {
+  return /^https?:\/\//i.test(term.trim());
 }
 
-const resp = await fetch(`${BASE}/vendors.json`);
-const vendors: Vendor[] = await resp.json();
+/** Search the vendor database; throws if it can't be loaded */
+export async function findVendors(term: string, opts: FindVendorsOptions = {}): Promise<VendorLookup> {
+  const isPortal = opts.portal || isPortalUrl(term);
+  const portal = isPortal ? inferVendorFromPortal(term) : undefined;
+  const db: VendorDb = opts.vendors
+    ? { vendors: opts.vendors }
+    : portal === null
+      ? { vendors: [] } // nothing to search for, so skip loading
+      : await loadVendorDb({ snapshot: opts.snapshot, live: opts.live });
 
-const term = searchTerm.toLowerCase();
-const matches = vendors.filter(v =>
-  v.developer?.toLowerCase().includes(term) ||
-  v.product_name?.toLowerCase().includes(term) ||
-  v.family?.toLowerCase().includes(term) ||
-  v.slug?.toLowerCase().includes(term)
-);
+  if (portal === null) return { query: term, portal: null, matches: [], db };
+  if (portal) {
+    return { query: portal.vendorTerms[0], portal, matches: rankVendorsForPortal(db.vendors, portal), db };
+  }
+  return { query: term, matches: rankVendors(db.vendors, term, opts.minScore ?? MIN_MATCH_SCORE), db };
+}
+
+/** JSON form of a lookup; each match's vendor can be passed to generate-appendix.ts as-is */
+export function lookupToJson(lookup: VendorLookup): {
+  query: string;
+  portal?: PortalInference | null;
+  snapshot: string | null;
+  warning?: string;
+  matches: Array<{ slug?: string; score: number; vendor: VendorConfig }>;
+} {
+  return {
+    query: lookup.query,
+    ...(lookup.portal !== undefined && { portal: lookup.portal }),
+    snapshot: lookup.db.snapshot ?? null,
+    ...(lookup.db.warning && { warning: lookup.db.warning }),
+    matches: lookup.matches.map(({ vendor, score }) => ({
+      slug: vendor.slug,
+      score: Math.round(score * 100) / 100,
+      vendor: toVendorConfig(vendor),
+    })),
+  };
+}
 
-function printMeta(v: Vendor) {
-  console.log(`  ${v.developer} | ${v.product_name}`);
+function printMeta({ vendor: v, score }: VendorMatch) {
+  console.log(`  ${v.developer} | ${v.product_name}  (match ${score.toFixed(2)})`);
   console.log(`    Grade: ${v.grade || '?'}  Coverage: ${v.coverage || '?'}  Formats: ${(v.export_formats || []).join(', ') || '?'}`);
   console.log(`    Entities: ${v.entity_count ?? '?'}  Fields: ${v.field_count ?? '?'}  EHI docs: ${v.ehi_documentation_url || '—'}`);
   if (v.summary) console.log(`    ${v.summary}`);
 }
 
-if (matches.length === 0) {
-  console.log(`No vendors matched "${searchTerm}" (${vendors.length} vendors in database).`);
-  console.log('\nSample vendors:');
-  vendors.slice(0, 5).forEach(v => console.log(`  - ${v.developer}: ${v.product_name}`));
-} else if (matches.length <= 10) {
-  for (const v of matches) {
-    console.log('='.repeat(70));
-    console.log(`Developer:      ${v.developer}`);
-    console.log(`Product:        ${v.product_name}`);
-    if (v.family) console.log(`Family:         ${v.family}`);
-    console.log(`Slug:           ${v.slug}`);
-    console.log(`Grade:          ${v.grade || '?'}`);
-    console.log(`Coverage:       ${v.coverage || '?'}`);
-    console.log(`Approach:       ${v.approach || '?'}`);
-    console.log(`Export formats: ${(v.export_formats || []).join(', ') || '?'}`);
-    console.log(`Entity count:   ${v.entity_count ?? '?'}`);
-    console.log(`Field count:    ${v.field_count ?? '?'}`);
-    console.log(`Dictionary:     ${v.has_data_dictionary ?? '?'}`);
-    console.log(`Sample data:    ${v.has_sample_data ?? '?'}`);
-    console.log(`Billing:        ${v.includes_billing ?? '?'}`);
-    console.log(`Pat comms:      ${v.patient_communications || '?'}`);
-    if (v.summary) console.log(`Summary:        ${v.summary}`);
-    console.log(`EHI docs URL:   ${v.ehi_documentation_url || '—'}`);
-    if (v.chpl_ids?.length) console.log(`CHPL IDs:       ${v.chpl_ids.join(', ')}`);
+async function printLookup({ query, portal, matches: ranked, db }: VendorLookup) {
+  if (portal === null) {
+    console.log(`No known patient portal pattern matches "${query}".`);
+    console.log('Ask the provider which EHR they use, or search by vendor name instead.');
+    return;
+  }
+  if (db.warning) console.error(`Warning: ${db.warning}`);
+  if (portal) {
+    console.log(`Portal:         ${portal.portal} (${portal.host})`);
+    console.log(`Likely vendor:  ${query}\n`);
+  }
+  const vendors = db.vendors;
+  const matches = ranked.map(m => m.vendor);
 
-    // Fetch analysis if available
-    if (v.slug) {
-      const analysisUrl = `${BASE}/analyses/${v.slug}.md`;
-      console.log(`\n--- Analysis: ${analysisUrl} ---\n`);
-      try {
-        const analysisResp = await fetch(analysisUrl);
-        if (analysisResp.ok) {
-          const md = await analysisResp.text();
-          console.log(md);
-        } else {
-          console.log('(No detailed analysis available)');
-        }
-      } catch {
-        console.log('(Could not fetch analysis)');
+  if (matches.length === 0) {
+    console.log(`No vendors matched "${query}" (${vendors.length} vendors in database).`);
+    console.log('\nSample vendors:');
+    vendors.slice(0, 5).forEach(v => console.log(`  - ${v.developer}: ${v.product_name}`));
+  } else if (matches.length <= 10) {
+    for (const v of matches) {
+      console.log('='.repeat(70));
+      console.log(`Developer:      ${v.developer}`);
+      console.log(`Product:        ${v.product_name}`);
+      if (v.family) console.log(`Family:         ${v.family}`);
+      console.log(`Slug:           ${v.slug}`);
+      console.log(`Grade:          ${v.grade || '?'}`);
+      console.log(`Coverage:       ${v.coverage || '?'}`);
+      console.log(`Approach:       ${v.approach || '?'}`);
+      console.log(`Export formats: ${(v.export_formats || []).join(', ') || '?'}`);
+      console.log(`Entity count:   ${v.entity_count ?? '?'}`);
+      console.log(`Field count:    ${v.field_count ?? '?'}`);
+      console.log(`Dictionary:     ${v.has_data_dictionary ?? '?'}`);
+      console.log(`Sample data:    ${v.has_sample_data ?? '?'}`);
+      console.log(`Billing:        ${v.includes_billing ?? '?'}`);
+      console.log(`Pat comms:      ${v.patient_communications || '?'}`);
+      if (v.summary) console.log(`Summary:        ${v.summary}`);
+      console.log(`EHI docs URL:   ${v.ehi_documentation_url || '—'}`);
+      if (v.chpl_ids?.length) console.log(`CHPL IDs:       ${v.chpl_ids.join(', ')}`);
+
+      // Include the analysis if available
+      if (v.slug) {
+        console.log(`\n--- Analysis: ${v.slug}.md ---\n`);
+        const md = await loadAnalysis(db, v.slug);
+        console.log(md ?? '(No detailed analysis available)');
       }
     }
+    console.log(`\nFound ${matches.length} vendor(s).`);
+  } else {
+    console.log(`Found ${matches.length} matches for "${query}" — showing best 10:\n`);
+    ranked.slice(0, 10).forEach(printMeta);
+    console.log(`\n... and ${matches.length - 10} more. Try a more specific search term.`);
+  }
+
+  console.log(db.snapshot ? `(Vendor database snapshot ${db.snapshot})` : '(Live vendor database)');
+}
+
+if (import.meta.main) {
+  const argv = Bun.argv.slice(2);
+  const getArg = (name: string): string | undefined => {
+    const i = argv.indexOf(name);
+    return i !== -1 && i + 1 < argv.length ? argv[i + 1] : undefined;
+  };
+
+  const portalArg = getArg('--portal');
+  const searchTerm = argv
+    .filter((a, i) => !a.startsWith('--') && argv[i - 1] !== '--snapshot' && argv[i - 1] !== '--portal')
+    .join(' ')
+    .trim();
+  if (!searchTerm && !portalArg) {
+    console.error('Usage: bun lookup-vendor.ts <search-term> [--json] [--live] [--snapshot <id>]');
+    console.error('       bun lookup-vendor.ts --portal <portal-url-or-hostname>');
+    console.error('Example: bun lookup-vendor.ts athena');
+    process.exit(1);
+  }
+
+  let lookup: VendorLookup;
+  try {
+    lookup = await findVendors(portalArg ?? searchTerm, {
+      portal: !!portalArg,
+      snapshot: getArg('--snapshot'),
+      live: argv.includes('--live'),
+    });
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  if (argv.includes('--json')) {
+    console.log(JSON.stringify(lookupToJson(lookup), null, 2));
+  } else {
+    await printLookup(lookup);
   }
-  console.log(`\nFound ${matches.length} vendor(s).`);
-} else {
-  console.log(`Found ${matches.length} matches for "${searchTerm}" — showing first 10:\n`);
-  matches.slice(0, 10).forEach(printMeta);
-  console.log(`\n... and ${matches.length - 10} more. Try a more specific search term.`);
 }
@@ -12,11 +12,17 @@
  *
  * Output files:
  *   <dir>/signature.png              Drawn signature (transparent background)
- *   <dir>/signature-metadata.json    Audit trail and metadata
+ *   <dir>/signature-metadata.json    Audit trail and metadata: session id, signer, the consent
+ *                                    text shown, and a SHA-256 of each image (see
+ *                                    _signature-certificate.ts, which turns it into a page)
+ *
+ * A session created with --slots writes <dir>/<slot-id>.png for each slot
+ * instead of signature.png (a typed name is rendered as an image too).
  */
 import { writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
-import { resolveServerUrl } from './_resolve-server.ts';
+import { relayHeaders, resolveServerUrl } from './_resolve-server.ts';
+import { sha256Hex, type SignatureMetadata, type SignatureSlotRecord } from './_signature-certificate.ts';
 
 const args = Bun.argv.slice(2);
 const hasExplicitUrl = args[0] && (args[0].startsWith('http') || args[0].includes('://'));
@@ -51,6 +57,13 @@ const privateKey = await crypto.subtle.importKey(
 const baseUrl = `${serverUrl}/api/signatures/sessions/${sessionId}`;
 console.error(`Polling for signature (session ${sessionId})...`);
 
+// Same rule the server applies when the session is created; ids name files
+const SLOT_ID = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+interface SlotCapture extends SignatureSlotRecord {
+  image: string;  // PNG data URL
+}
+
 function base64ToBuf(b64: string): ArrayBuffer {
   const bin = atob(b64);
   const bytes = new Uint8Array(bin.length);
@@ -59,7 +72,7 @@ function base64ToBuf(b64: string): ArrayBuffer {
 }
 
 for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-  const res = await fetch(`${baseUrl}/poll?timeout=${pollTimeout}`);
+  const res = await fetch(`${baseUrl}/poll?timeout=${pollTimeout}`, { headers: relayHeaders() });
   if (!res.ok) {
     console.error(`Poll error (${res.status}): ${await res.text()}`);
     process.exit(1);
@@ -111,12 +124,35 @@ for (let attempt = 1; attempt <= maxAttempts; attempt++) {
 
     const payload = JSON.parse(new TextDecoder().decode(decrypted)) as any;
 
-    // Write signature PNG
-    const sigDataUrl = payload.signatureImage;
-    const base64Data = sigDataUrl.replace(/^data:image\/png;base64,/, '');
-    const sigPath = join(outputDir, 'signature.png');
-    writeFileSync(sigPath, Buffer.from(base64Data, 'base64'));
-    console.error(`  Signature saved to ${sigPath}`);
+    // Write a PNG and return its SHA-256
+    const writePng = (dataUrl: string, path: string) => {
+      const bytes = Buffer.from(dataUrl.replace(/^data:image\/png;base64,/, ''), 'base64');
+      writeFileSync(path, bytes);
+      return sha256Hex(bytes);
+    };
+
+    // Write one PNG per slot, or the single signature PNG
+    const slots = payload.slots as SlotCapture[] | undefined;
+    const slotOutput: Record<string, { path: string; kind: string; signer: string; label?: string; text?: string }> = {};
+    let sigPath: string | undefined;
+    let signatureSha256: string | undefined;
+    if (slots) {
+      for (const slot of slots) {
+        if (!SLOT_ID.test(slot.id)) {
+          console.error(`Refusing to write slot with unsafe id ${JSON.stringify(slot.id)}`);
+          process.exit(1);
+        }
+        const path = join(outputDir, `${slot.id}.png`);
+        slot.sha256 = writePng(slot.image, path);
+        slotOutput[slot.id] = { path, kind: slot.kind, signer: slot.signer, label: slot.label, text: slot.text };
+        if (slot.kind === 'signature' && !sigPath) sigPath = path;
+        console.error(`  ${slot.id} (${slot.kind}, ${slot.signer}) saved to ${path}`);
+      }
+    } else {
+      sigPath = join(outputDir, 'signature.png');
+      signatureSha256 = writePng(payload.signatureImage, sigPath);
+      console.error(`  Signature saved to ${sigPath}`);
+    }
 
     // Write driver's license PNG if present
     let driversLicensePath: string | undefined;
@@ -129,8 +165,15 @@ for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     }
 
     // Write metadata
-    const metadata = {
+    const metadata: SignatureMetadata = {
+      sessionId,
+      signerName: payload.signerName,
       timestamp: payload.timestamp,
+      consentText: payload.consentText,
+      consentedAt: payload.consentedAt,
+      documentsShown: payload.documentsShown,
+      signatureSha256,
+      slots: slots?.map(({ image, ...slot }) => slot),
       auditLog: data.auditLog,
     };
     const metaPath = join(outputDir, 'signature-metadata.json');
@@ -138,11 +181,14 @@ for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     console.error(`  Metadata saved to ${metaPath}`);
 
     // Output summary to stdout
-    const output: Record<string, string> = {
+    const output: Record<string, unknown> = {
       signaturePath: sigPath,
       metadataPath: metaPath,
       timestamp: payload.timestamp,
     };
+    if (slots) {
+      output.slots = slotOutput;
+    }
     if (driversLicensePath) {
       output.driversLicensePath = driversLicensePath;
     }
@@ -0,0 +1,274 @@
+#!/usr/bin/env bun
+/**
+ * Track submitted access requests and their HIPAA deadlines.
+ *
+ * The ledger is a local JSON file, one entry per request sent to a provider.
+ * Each entry computes its 30-day due date and the 60-day date that applies if
+ * the provider gave written notice of an extension (see _deadlines.ts).
+ *
+ * Usage:
+ *   bun request-ledger.ts add '<json>'             Record a request (prints the entry)
+ *   bun request-ledger.ts list [options]           List open requests with deadlines
+ *   bun request-ledger.ts update <id> '<json>'     Change fields, e.g. outcome or extensionNoticeDate
+ *   bun request-ledger.ts sync [server-url]        Fill in sent dates from delivered faxes
+ *   bun request-ledger.ts followup <id> [--kind <kind>] [--output <path>] [--force]
+ *                                                  Generate a follow-up or escalation letter
+ *
+ * Follow-up kinds (see generate-followup-letter.ts): reminder (default),
+ * information-blocking, ocr-complaint. Letters are for overdue requests, or
+ * ones answered with something other than the export (outcome "partial" or
+ * "denied"); --force writes one anyway.
+ *
+ * Entry fields (add/update):
+ *   provider             - Provider / organization name (required)
+ *   vendor               - Vendor slug from lookup-vendor.ts (optional)
+ *   vendorName           - EHR developer / product as it should read in letters,
+ *                          e.g. "Epic Systems (Epic EHR)" (optional; defaults to vendor)
+ *   method               - "fax" | "mail" | "portal" | "email" | "in-person" (default: fax)
+ *   faxId                - Relay fax job id from send-fax.ts (optional)
+ *   faxNumber            - Destination fax number (optional)
+ *   sentDate             - YYYY-MM-DD; for faxes, `sync` sets it once delivered
+ *   extensionNoticeDate  - YYYY-MM-DD the provider gave written notice of an extension
+ *   outcome              - "open" | "fulfilled" | "partial" | "denied" | "withdrawn" (default: open)
+ *   receivedDate         - YYYY-MM-DD records were received
+ *   received             - What was received, e.g. "CCDA" or "paper printout"
+ *   patientName, dob     - Used on follow-up letters
+ *   notes                - Free text
+ *
+ * List options:
+ *   --overdue            Only requests past their deadline
+ *   --upcoming <days>    Only requests due within <days> days (default window: 7)
+ *   --all                Include closed requests
+ *
+ * Options:
+ *   --ledger <path>      Ledger file (default: $REQUEST_LEDGER or ~/.request-my-ehi/requests.json)
+ *
+ * Output: JSON to stdout. list entries include dueDate, extendedDueDate,
+ * deadline, daysRemaining, and state ("unsent" | "open" | "due-soon" | "overdue" | "closed").
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+import { hipaaDeadlines, daysBetween, parseDate, today, type HipaaDeadlines } from './_deadlines.ts';
+import { renderFollowupLetter, LETTER_KINDS, type LetterKind } from './generate-followup-letter.ts';
+
+export type SubmissionMethod = 'fax' | 'mail' | 'portal' | 'email' | 'in-person';
+export type RequestOutcome = 'open' | 'fulfilled' | 'partial' | 'denied' | 'withdrawn';
+
+export interface FollowupRecord {
+  date: string;
+  kind: LetterKind;
+  path: string;
+}
+
+export interface LedgerEntry {
+  id: string;
+  provider: string;
+  vendor?: string;
+  vendorName?: string;
+  method: SubmissionMethod;
+  faxId?: string;
+  faxNumber?: string;
+  sentDate?: string;
+  extensionNoticeDate?: string;
+  outcome: RequestOutcome;
+  receivedDate?: string;
+  received?: string;
+  patientName?: string;
+  dob?: string;
+  notes?: string;
+  followups?: FollowupRecord[];
+  createdAt: string;
+}
+
+export type RequestState = 'unsent' | 'open' | 'due-soon' | 'overdue' | 'closed';
+
+export interface LedgerStatus extends Partial<HipaaDeadlines> {
+  state: RequestState;
+  daysRemaining?: number;
+}
+
+const METHODS: SubmissionMethod[] = ['fax', 'mail', 'portal', 'email', 'in-person'];
+const OUTCOMES: RequestOutcome[] = ['open', 'fulfilled', 'partial', 'denied', 'withdrawn'];
+const DATE_FIELDS = ['sentDate', 'extensionNoticeDate', 'receivedDate'] as const;
+
+export const DEFAULT_UPCOMING_DAYS = 7;
+
+export function defaultLedgerPath(): string {
+  return process.env.REQUEST_LEDGER || join(homedir(), '.request-my-ehi', 'requests.json');
+}
+
+export function loadLedger(path: string): LedgerEntry[] {
+  if (!existsSync(path)) return [];
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+export function saveLedger(path: string, entries: LedgerEntry[]) {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(entries, null, 2) + '\n');
+}
+
+/** Check fields from add/update input; throws with the offending field */
+export function validateEntryFields(fields: Partial<LedgerEntry>) {
+  if (fields.method !== undefined && !METHODS.includes(fields.method)) {
+    throw new Error(`method must be one of ${METHODS.join(', ')}`);
+  }
+  if (fields.outcome !== undefined && !OUTCOMES.includes(fields.outcome)) {
+    throw new Error(`outcome must be one of ${OUTCOMES.join(', ')}`);
+  }
+  for (const field of DATE_FIELDS) {
+    const value = fields[field];
+    if (value !== undefined) {
+      try { parseDate(value); } catch { throw new Error(`${field} must be a YYYY-MM-DD date`); }
+    }
+  }
+}
+
+export function ledgerStatus(entry: LedgerEntry, asOf = today(), upcomingDays = DEFAULT_UPCOMING_DAYS): LedgerStatus {
+  if (!entry.sentDate) return { state: entry.outcome === 'open' ? 'unsent' : 'closed' };
+  const deadlines = hipaaDeadlines(entry.sentDate, entry.extensionNoticeDate);
+  const daysRemaining = daysBetween(asOf, deadlines.deadline);
+  let state: RequestState;
+  if (entry.outcome !== 'open') state = 'closed';
+  else if (daysRemaining < 0) state = 'overdue';
+  else if (daysRemaining <= upcomingDays) state = 'due-soon';
+  else state = 'open';
+  return { ...deadlines, daysRemaining, state };
+}
+
+// ---------------------------------------------------------------------------
+// CLI
+// ---------------------------------------------------------------------------
+if (import.meta.main) {
+  const argv = Bun.argv.slice(2);
+
+  function getArg(name: string): string | undefined {
+    const i = argv.indexOf(name);
+    return i !== -1 && i + 1 < argv.length ? argv[i + 1] : undefined;
+  }
+
+  function fail(message: string): never {
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+
+  const VALUE_OPTIONS = ['--ledger', '--upcoming', '--output', '--kind'];
+  const args = argv.filter((a, i) => !a.startsWith('--') && !VALUE_OPTIONS.includes(argv[i - 1]));
+  const [command, ...rest] = args;
+  const ledgerPath = getArg('--ledger') || defaultLedgerPath();
+  const entries = loadLedger(ledgerPath);
+
+  function findEntry(id: string | undefined): LedgerEntry {
+    const entry = entries.find((e) => e.id === id);
+    if (!entry) fail(`No ledger entry "${id}" in ${ledgerPath}`);
+    return entry;
+  }
+
+  function parseFields(json: string | undefined): Partial<LedgerEntry> {
+    if (!json) fail('Missing JSON fields');
+    let fields: Partial<LedgerEntry>;
+    try { fields = JSON.parse(json); } catch (err) { fail(`Invalid JSON: ${(err as Error).message}`); }
+    try { validateEntryFields(fields); } catch (err) { fail((err as Error).message); }
+    return fields;
+  }
+
+  const withStatus = (e: LedgerEntry) => ({ ...e, ...ledgerStatus(e, today(), parseInt(getArg('--upcoming') || '', 10) || DEFAULT_UPCOMING_DAYS) });
+
+  switch (command) {
+    case 'add': {
+      const { id: _id, createdAt: _createdAt, ...fields } = parseFields(rest[0]);
+      if (!fields.provider) fail('provider is required');
+      const entry: LedgerEntry = {
+        id: `req-${randomUUID().slice(0, 8)}`,
+        ...fields,
+        provider: fields.provider,
+        method: fields.method ?? 'fax',
+        outcome: fields.outcome ?? 'open',
+        createdAt: new Date().toISOString(),
+      };
+      entries.push(entry);
+      saveLedger(ledgerPath, entries);
+      console.log(JSON.stringify(withStatus(entry), null, 2));
+      break;
+    }
+
+    case 'update': {
+      const entry = findEntry(rest[0]);
+      const { id: _id, createdAt: _createdAt, ...fields } = parseFields(rest[1]);
+      Object.assign(entry, fields);
+      saveLedger(ledgerPath, entries);
+      console.log(JSON.stringify(withStatus(entry), null, 2));
+      break;
+    }
+
+    case 'list': {
+      const rows = entries
+        .map(withStatus)
+        .filter((e) => argv.includes('--all') || e.state !== 'closed')
+        .filter((e) => !argv.includes('--overdue') || e.state === 'overdue')
+        .filter((e) => !argv.includes('--upcoming') || e.state === 'due-soon')
+        .sort((a, b) => (a.deadline ?? '9999').localeCompare(b.deadline ?? '9999'));
+      console.log(JSON.stringify(rows, null, 2));
+      break;
+    }
+
+    case 'sync': {
+      // Imported here so the other commands work without a relay configured
+      const { relayHeaders, resolveServerUrl } = await import('./_resolve-server.ts');
+      const serverUrl = resolveServerUrl(rest[0]);
+      const updated: string[] = [];
+      for (const entry of entries) {
+        if (!entry.faxId || entry.sentDate || entry.outcome !== 'open') continue;
+        const res = await fetch(`${serverUrl}/api/fax/status/${entry.faxId}`, { headers: relayHeaders() });
+        if (!res.ok) {
+          console.error(`Warning: ${entry.id}: fax ${entry.faxId} status ${res.status}`);
+          continue;
+        }
+        const status = await res.json();
+        if (status.status === 'delivered' && status.completedAt) {
+          entry.sentDate = status.completedAt.slice(0, 10);
+          updated.push(entry.id);
+        }
+      }
+      saveLedger(ledgerPath, entries);
+      console.log(JSON.stringify({ updated, entries: entries.filter((e) => updated.includes(e.id)).map(withStatus) }, null, 2));
+      break;
+    }
+
+    case 'followup': {
+      const entry = findEntry(rest[0]);
+      const kind = (getArg('--kind') || 'reminder') as LetterKind;
+      if (!LETTER_KINDS.includes(kind)) fail(`--kind must be one of ${LETTER_KINDS.join(', ')}`);
+      const status = ledgerStatus(entry);
+      if (!entry.sentDate) fail(`${entry.id} has no sentDate yet`);
+      const refused = entry.outcome === 'partial' || entry.outcome === 'denied';
+      if (status.state !== 'overdue' && !refused && !argv.includes('--force')) {
+        fail(`${entry.id} is not overdue (deadline ${status.deadline}); pass --force to write a letter anyway`);
+      }
+      const outputPath = getArg('--output') || `/tmp/followup-${entry.id}-${kind}.pdf`;
+      await Bun.write(outputPath, await renderFollowupLetter({
+        kind,
+        requestDate: entry.sentDate,
+        provider: entry.provider,
+        vendor: entry.vendorName ?? entry.vendor,
+        patientName: entry.patientName,
+        dob: entry.dob,
+        method: entry.method,
+        faxNumber: entry.faxNumber,
+        extensionNoticeDate: entry.extensionNoticeDate,
+        received: entry.received,
+        receivedDate: entry.receivedDate,
+        followupDates: (entry.followups ?? []).filter((f) => f.kind === 'reminder').map((f) => f.date),
+      }));
+      entry.followups = [...(entry.followups ?? []), { date: today(), kind, path: outputPath }];
+      saveLedger(ledgerPath, entries);
+      console.log(JSON.stringify({ ...withStatus(entry), letterPath: outputPath }, null, 2));
+      break;
+    }
+
+    default:
+      console.error('Usage: bun request-ledger.ts <add|list|update|sync|followup> [...] [--ledger <path>]');
+      process.exit(1);
+  }
+}
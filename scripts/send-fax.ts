@@ -3,24 +3,45 @@
  * Send a PDF as a fax via the relay server.
  *
  * Usage:
- *   bun send-fax.ts [server-url] <fax-number> <pdf-path>
+ *   bun send-fax.ts [server-url] <fax-number> <pdf-path> [options]
  *
- * Server URL is read from scripts/config.json (relayUrl) if not provided.
+ * Options:
+ *   --max-attempts <n>       Total attempts before the fax counts as failed (server default: 3)
+ *   --fallback <fax-number>  Alternate number to rotate through on retries (repeatable)
+ *   --cover-sheet <json>     Prepend a fax transmittal sheet, e.g.
+ *                            '{"from": {"name": "Jane Doe", "phone": "..."}, "to": {"name": "Medical Records"}}'
+ *                            ('{}' for a sheet with just the fax number, date and page count)
+ *
+ * The relay rejects files that are not unencrypted PDFs, and faxes over its page limit.
+ *
+ * Server URL is read from scripts/config.json (relayUrl) if not provided. A relay that
+ * issues API tokens gets one from EHI_RELAY_TOKEN or scripts/config.json (relayToken).
  *
  * Output (JSON to stdout):
- *   { faxId, provider, status }
+ *   { faxId, providerFaxId, provider, status, pages, coverSheet, attempt, maxAttempts }
  */
 import { basename } from 'path';
-import { resolveServerUrl } from './_resolve-server.ts';
+import { relayHeaders, resolveServerUrl } from './_resolve-server.ts';
+
+const argv = Bun.argv.slice(2);
+
+function getArgs(name: string): string[] {
+  return argv.flatMap((a, i) => (a === name && i + 1 < argv.length ? [argv[i + 1]] : []));
+}
+
+const maxAttempts = getArgs('--max-attempts')[0];
+const fallbackNumbers = getArgs('--fallback');
+const coverSheet = getArgs('--cover-sheet')[0];
 
-const args = Bun.argv.slice(2);
+// Positional args are everything that isn't an option or an option's value
+const args = argv.filter((a, i) => !a.startsWith('--') && !argv[i - 1]?.startsWith('--'));
 const hasExplicitUrl = args[0] && (args[0].startsWith('http') || args[0].includes('://'));
 const serverUrl = resolveServerUrl(hasExplicitUrl ? args[0] : undefined);
 const faxNumber = hasExplicitUrl ? args[1] : args[0];
 const pdfPath = hasExplicitUrl ? args[2] : args[1];
 
 if (!faxNumber || !pdfPath) {
-  console.error('Usage: bun send-fax.ts [server-url] <fax-number> <pdf-path>');
+  console.error('Usage: bun send-fax.ts [server-url] <fax-number> <pdf-path> [--max-attempts <n>] [--fallback <fax-number>]');
   process.exit(1);
 }
 
@@ -31,8 +52,16 @@ const filename = basename(pdfPath);
 
 const res = await fetch(`${serverUrl}/api/fax/send`, {
   method: 'POST',
-  headers: { 'Content-Type': 'application/json' },
-  body: JSON.stringify({ to: faxNumber, filename, fileBase64 }),
+  headers: relayHeaders({ 'Content-Type': 'application/json' }),
+  body: JSON.stringify({
+    to: faxNumber,
+    filename,
+    fileBase64,
+    retry: maxAttempts || fallbackNumbers.length
+      ? { maxAttempts: maxAttempts ? parseInt(maxAttempts, 10) : undefined, fallbackNumbers }
+      : undefined,
+    coverSheet: coverSheet ? JSON.parse(coverSheet) : undefined,
+  }),
 });
 
 if (!res.ok) {
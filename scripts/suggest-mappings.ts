@@ -0,0 +1,445 @@
+#!/usr/bin/env bun
+/**
+ * Draft the fieldMappings for a provider's fillable PDF form.
+ *
+ * Usage:
+ *   bun suggest-mappings.ts <form.pdf> [--json] [--min-confidence 0.5]
+ *
+ * Each AcroForm field is scored against the FieldMappings keys fill-and-merge.ts
+ * and build-package.ts understand, using:
+ *   - the field's name ("patientDOB", "Text7")
+ *   - its tooltip (/TU), which is often the label a screen reader announces
+ *   - the printed text next to it on the page: a label to its left (or right,
+ *     for checkboxes), above it, or under its line, and the nearest heading
+ *     above it that says whose details these are ("Patient", "Release to")
+ *   - checkbox export values other than Yes/On ("Radiology", "EHI")
+ *
+ * Prints each suggestion with a confidence from 0 to 1 and the evidence behind
+ * it, the best guesses that fell below --min-confidence, and the required
+ * concepts (patient name, DOB, signature date, signature) it could not place.
+ * The draft is a starting point: check it against the form before using it.
+ *
+ *   --json   Print the whole result as JSON
+ *
+ * Other scripts can import suggestMappings() instead of running the CLI.
+ */
+import {
+  PDFCheckBox,
+  PDFDocument,
+  PDFName,
+  PDFSignature,
+  PDFString,
+  PDFHexString,
+  PDFTextField,
+  type PDFField,
+} from 'pdf-lib';
+import { basename } from 'path';
+import { fieldPage, type FieldMappings, type SignaturePosition } from './fill-and-merge.ts';
+import { extractPageText, type TextLine } from './_pdf-text.ts';
+
+type MappingKey = keyof FieldMappings;
+type Role = 'patient' | 'provider' | 'recipient';
+type Attribute = 'name' | 'dob' | 'street' | 'cityStateZip' | 'phone' | 'email' | 'date' | 'images' | 'ehi';
+
+export interface FieldSuggestion {
+  key: MappingKey | 'signature';
+  field: string;
+  page: number;          // 0-indexed
+  confidence: number;    // 0..1
+  evidence: string[];    // e.g. 'label above "Date of Birth"'
+}
+
+export interface MappingDraft {
+  fieldMappings: FieldMappings;
+  signaturePosition?: SignaturePosition;
+  suggestions: FieldSuggestion[];  // what the draft is made of
+  uncertain: FieldSuggestion[];    // best guesses for unplaced keys, below minConfidence
+  unmapped: string[];              // form fields nothing was suggested for
+  missing: Array<MappingKey | 'signature'>;  // required concepts the draft has no place for
+}
+
+export interface SuggestOptions {
+  minConfidence?: number;
+}
+
+export const MIN_CONFIDENCE = 0.5;
+export const REQUIRED_CONCEPTS: Array<MappingKey | 'signature'> = ['patientName', 'dob', 'date', 'signature'];
+
+interface Concept {
+  key: MappingKey;
+  attribute: Attribute;
+  roles?: Role[];           // whose value this is; omitted when it doesn't matter
+  checkbox?: boolean;
+}
+
+const CONCEPTS: Concept[] = [
+  { key: 'patientName', attribute: 'name', roles: ['patient'] },
+  { key: 'dob', attribute: 'dob', roles: ['patient'] },
+  { key: 'patientStreet', attribute: 'street', roles: ['patient'] },
+  { key: 'patientCityStateZip', attribute: 'cityStateZip', roles: ['patient'] },
+  { key: 'phone', attribute: 'phone', roles: ['patient', 'recipient'] },
+  { key: 'providerName', attribute: 'name', roles: ['provider'] },
+  { key: 'providerStreet', attribute: 'street', roles: ['provider'] },
+  { key: 'providerCityStateZip', attribute: 'cityStateZip', roles: ['provider'] },
+  { key: 'recipientName', attribute: 'name', roles: ['recipient'] },
+  { key: 'recipientStreet', attribute: 'street', roles: ['recipient'] },
+  { key: 'recipientCityStateZip', attribute: 'cityStateZip', roles: ['recipient'] },
+  { key: 'email', attribute: 'email', roles: ['patient'] },
+  { key: 'recipientEmail', attribute: 'email', roles: ['recipient'] },
+  { key: 'date', attribute: 'date' },
+  { key: 'includeImages', attribute: 'images', checkbox: true },
+  { key: 'ehiExport', attribute: 'ehi', checkbox: true },
+];
+
+// Patterns run on normalized text: lowercase words, camelCase split ("patientDOB" -> "patient dob")
+const ATTRIBUTES: Record<Attribute, { match: RegExp; weak?: RegExp; unless?: RegExp }> = {
+  name: { match: /\b(full )?names?\b/, unless: /\b(first|last|middle|maiden|given|family|sur|user|file) ?names?\b/ },
+  dob: { match: /\b(dob|d o b|date of birth|birth ?date|born)\b/ },
+  street: { match: /\b(street|address|addr|mailing)\b/, unless: /\be ?mail\b/ },
+  cityStateZip: { match: /\b(city|zip|zip code|postal code)\b/ },
+  phone: { match: /\b(phone|telephone|tel|cell|mobile)\b/, unless: /\bfax\b/ },
+  email: { match: /\be ?mail\b/ },
+  date: {
+    match: /\b(date|dated|today)\b/,
+    unless: /\b(birth|dob|service|admission|discharge|visit|treatment|expir\w*|from|through|thru|start|end|range)\b/,
+  },
+  images: { match: /\b(images?|imaging|radiology|x ?rays?|films?)\b/ },
+  ehi: {
+    match: /\b(ehi|electronic health information|export)\b/,
+    weak: /\b(entire|complete|full|all)\b.*\b(records?|chart)\b/,
+  },
+};
+
+const ROLES: Record<Role, RegExp> = {
+  patient: /\b(patient|member|individual|client|resident|yourself)\b/,
+  provider: /\b(provider|facility|practice|hospital|clinic|physician|doctor|organization|((records?|information|released?|disclosed?|obtain) from))\b/,
+  recipient: /\b(recipient|((deliver|send|sent|release|released|disclose|disclosed|mail|forward)( the)? (records?|information|copies|copy)? ?to)|records to)\b/,
+};
+
+const SIGNATURE = /\bsign(ature|ed)?\b/;
+const GENERIC_EXPORT_VALUES = /^(yes|on|off|true|1|x|checked|choice ?\d*)$/;
+
+// How much each kind of evidence is worth on its own
+const WEIGHTS = { tooltip: 0.9, name: 0.8, label: 0.85, export: 0.8 };
+
+interface Evidence {
+  kind: keyof typeof WEIGHTS;
+  text: string;       // normalized
+  describe: string;   // for output
+  weight: number;
+}
+
+interface Candidate {
+  field: PDFField;
+  name: string;
+  page: number;
+  evidence: Evidence[];
+  section?: { role: Role; text: string };
+}
+
+function normalize(text: string): string {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/([A-Za-z])(\d)/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function decodeText(obj: unknown): string | undefined {
+  return obj instanceof PDFString || obj instanceof PDFHexString ? obj.decodeText() : undefined;
+}
+
+/** The printed label closest to a widget: beside it on the same row, or else above or under it */
+function nearestLabel(lines: TextLine[], rect: { x: number; y: number; width: number; height: number }, checkbox: boolean) {
+  const top = rect.y + rect.height, right = rect.x + rect.width;
+  const overlaps = (l: TextLine) => l.x < right && l.x + l.width > rect.x;
+  let side: { line: TextLine; where: string; factor: number; gap: number } | undefined;
+  let vertical: { line: TextLine; where: string; factor: number; gap: number } | undefined;
+
+  for (const line of lines) {
+    const middle = line.y + line.size * 0.35;
+    if (middle >= rect.y - 2 && middle <= top + 2) {
+      const left = rect.x - (line.x + line.width);
+      const rightGap = line.x - right;
+      if (left >= -2 && left <= 150 && (!side || left < side.gap)) {
+        side = { line, where: 'left of it', factor: 1 - Math.max(left, 0) / 300, gap: left };
+      } else if (checkbox && rightGap >= -2 && rightGap <= 150 && (!side || rightGap < side.gap)) {
+        side = { line, where: 'right of it', factor: 1 - Math.max(rightGap, 0) / 300, gap: rightGap };
+      }
+    } else if (overlaps(line)) {
+      const above = line.y - top;
+      const below = rect.y - (line.y + line.size);
+      // Prefer a label above; one under the line has to be clearly closer
+      if (above >= -2 && above <= 24 && (!vertical || Math.max(above, 0) < vertical.gap)) {
+        vertical = { line, where: 'above', factor: 1 - Math.max(above, 0) / 60, gap: Math.max(above, 0) };
+      } else if (below >= -2 && below <= 16 && (!vertical || Math.max(below, 0) + 6 < vertical.gap)) {
+        vertical = { line, where: 'under it', factor: 0.9 * (1 - Math.max(below, 0) / 40), gap: Math.max(below, 0) + 6 };
+      }
+    }
+  }
+  return side ?? vertical;
+}
+
+/** The nearest line above the widget that says whose details it holds */
+function sectionRole(lines: TextLine[], top: number): { role: Role; text: string } | undefined {
+  const above = lines.filter((l) => l.y > top && l.y - top <= 300).sort((a, b) => a.y - b.y);
+  for (const line of above) {
+    const text = normalize(line.text);
+    const roles = (Object.keys(ROLES) as Role[]).filter((r) => ROLES[r].test(text));
+    if (roles.length === 1) return { role: roles[0], text: line.text };
+  }
+  return undefined;
+}
+
+function exportValues(field: PDFCheckBox): string[] {
+  const values = new Set<string>();
+  for (const widget of field.acroField.getWidgets()) {
+    const on = widget.getOnValue();
+    if (on) values.add(on.decodeText());
+  }
+  return [...values].filter((v) => !GENERIC_EXPORT_VALUES.test(normalize(v)));
+}
+
+function matchAttribute(attribute: Attribute, evidence: Evidence[]): { score: number; used: Evidence[] } {
+  const { match, weak, unless } = ATTRIBUTES[attribute];
+  let miss = 1;
+  const used: Evidence[] = [];
+  for (const e of evidence) {
+    if (unless?.test(e.text)) continue;
+    const strength = match.test(e.text) ? 1 : weak?.test(e.text) ? 0.7 : 0;
+    if (!strength) continue;
+    miss *= 1 - e.weight * strength;
+    used.push(e);
+  }
+  return { score: 1 - miss, used };
+}
+
+function roleFactor(roles: Role[] | undefined, candidate: Candidate): { factor: number; reason?: string } {
+  if (!roles) return { factor: 1 };
+  const own = new Set<Role>();
+  for (const e of candidate.evidence) {
+    for (const role of Object.keys(ROLES) as Role[]) if (ROLES[role].test(e.text)) own.add(role);
+  }
+  if (own.size) {
+    const matched = roles.filter((r) => own.has(r)).length;
+    return { factor: matched ? (matched === own.size ? 1 : 0.6) : 0 };
+  }
+  if (candidate.section) {
+    return roles.includes(candidate.section.role)
+      ? { factor: 0.9, reason: `below "${candidate.section.text}"` }
+      : { factor: 0 };
+  }
+  return { factor: roles.includes('patient') ? 0.75 : 0 };
+}
+
+function isSignatureField(candidate: Candidate): boolean {
+  return candidate.field instanceof PDFSignature ||
+    candidate.evidence.some((e) => SIGNATURE.test(e.text) && !/\bdate\b/.test(e.text));
+}
+
+function score(concept: Concept, candidate: Candidate): FieldSuggestion | undefined {
+  const isCheckbox = candidate.field instanceof PDFCheckBox;
+  if (!!concept.checkbox !== isCheckbox || !(isCheckbox || candidate.field instanceof PDFTextField)) return undefined;
+  let { score: attributeScore, used } = matchAttribute(concept.attribute, candidate.evidence);
+
+  // A label that is only a role ("Patient:", "Provider / Facility") is asking for a name
+  if (concept.attribute === 'name') {
+    for (const e of candidate.evidence) {
+      if (e.text.split(' ').length > 4 || !Object.values(ROLES).some((r) => r.test(e.text)) ||
+          Object.values(ATTRIBUTES).some((a) => a.match.test(e.text))) continue;
+      attributeScore = 1 - (1 - attributeScore) * (1 - 0.8 * e.weight);
+      used = [...used, e];
+    }
+  }
+  if (!attributeScore) return undefined;
+
+  const role = roleFactor(concept.roles, candidate);
+  const confidence = attributeScore * role.factor;
+  if (!confidence) return undefined;
+  return {
+    key: concept.key,
+    field: candidate.name,
+    page: candidate.page,
+    confidence: Math.round(confidence * 100) / 100,
+    evidence: [...used.map((e) => e.describe), ...(role.reason ? [role.reason] : [])],
+  };
+}
+
+/** Where to draw a signature image for a field, or next to a printed "Signature" label */
+function signatureFromField(doc: PDFDocument, candidate: Candidate): SignaturePosition {
+  const rect = candidate.field.acroField.getWidgets()[0].getRectangle();
+  const { height } = doc.getPage(candidate.page).getSize();
+  return {
+    page: candidate.page,
+    x: Math.round(rect.x + 2),
+    topY: Math.round(height - rect.y - 2),
+    height: Math.round(Math.min(18, Math.max(rect.height - 4, 10))),
+  };
+}
+
+function signatureFromLabel(doc: PDFDocument, page: number, line: TextLine): SignaturePosition {
+  const { height } = doc.getPage(page).getSize();
+  // "Signature: ______" signs to the right; a label printed under the line signs above it
+  return /:\s*$|__/.test(line.text)
+    ? { page, x: Math.round(line.x + line.width + 4), topY: Math.round(height - line.y + 2), height: 18 }
+    : { page, x: Math.round(line.x), topY: Math.round(height - (line.y + line.size + 2)), height: 18 };
+}
+
+export async function suggestMappings(formBytes: ArrayBuffer | Uint8Array, options: SuggestOptions = {}): Promise<MappingDraft> {
+  const minConfidence = options.minConfidence ?? MIN_CONFIDENCE;
+  const doc = await PDFDocument.load(formBytes);
+  const textByPage = new Map<number, TextLine[]>();
+  const pageText = (page: number) => {
+    if (!textByPage.has(page)) textByPage.set(page, extractPageText(doc, page));
+    return textByPage.get(page)!;
+  };
+
+  const candidates: Candidate[] = doc.getForm().getFields().map((field) => {
+    const name = field.getName();
+    const page = fieldPage(doc, field);
+    const evidence: Evidence[] = [];
+    const shortName = name.split('.').pop()!.replace(/\[\d+\]/g, '');
+    evidence.push({ kind: 'name', text: normalize(shortName), describe: `name "${name}"`, weight: WEIGHTS.name });
+    const tooltip = decodeText(field.acroField.dict.lookup(PDFName.of('TU')));
+    if (tooltip?.trim()) {
+      evidence.push({ kind: 'tooltip', text: normalize(tooltip), describe: `tooltip "${tooltip.trim()}"`, weight: WEIGHTS.tooltip });
+    }
+    if (field instanceof PDFCheckBox) {
+      for (const value of exportValues(field)) {
+        evidence.push({ kind: 'export', text: normalize(value), describe: `export value "${value}"`, weight: WEIGHTS.export });
+      }
+    }
+    const widget = field.acroField.getWidgets()[0];
+    const lines = pageText(page);
+    let section: Candidate['section'];
+    if (widget) {
+      const rect = widget.getRectangle();
+      const label = nearestLabel(lines, rect, field instanceof PDFCheckBox);
+      if (label) {
+        evidence.push({
+          kind: 'label',
+          text: normalize(label.line.text),
+          describe: `label ${label.where} "${label.line.text}"`,
+          weight: WEIGHTS.label * label.factor,
+        });
+      }
+      section = sectionRole(lines, rect.y + rect.height);
+    }
+    return { field, name, page, evidence: evidence.filter((e) => e.text), section };
+  });
+
+  // Signature first, so that field isn't offered as anything else
+  const signatureField = candidates.find((c) => c.field instanceof PDFSignature) ?? candidates.find(isSignatureField);
+  const suggestions: FieldSuggestion[] = [];
+  let signaturePosition: SignaturePosition | undefined;
+  if (signatureField) {
+    signaturePosition = signatureFromField(doc, signatureField);
+    suggestions.push({
+      key: 'signature',
+      field: signatureField.name,
+      page: signatureField.page,
+      confidence: signatureField.field instanceof PDFSignature ? 0.95 : 0.85,
+      evidence: signatureField.field instanceof PDFSignature
+        ? ['signature field']
+        : signatureField.evidence.filter((e) => SIGNATURE.test(e.text)).map((e) => e.describe),
+    });
+  } else {
+    for (let page = 0; page < doc.getPageCount() && !signaturePosition; page++) {
+      const line = pageText(page).find((l) => SIGNATURE.test(normalize(l.text)) && !/\bdate\b/.test(normalize(l.text)));
+      if (line) {
+        signaturePosition = signatureFromLabel(doc, page, line);
+        suggestions.push({ key: 'signature', field: '', page, confidence: 0.5, evidence: [`printed label "${line.text}" (no field)`] });
+      }
+    }
+  }
+
+  // Greedy assignment, best score first: each key and each field used once
+  const scored = candidates
+    .filter((c) => c !== signatureField)
+    .flatMap((c) => CONCEPTS.map((concept) => score(concept, c)).filter((s): s is FieldSuggestion => !!s))
+    .sort((a, b) => b.confidence - a.confidence);
+  const usedKeys = new Set<string>(), usedFields = new Set<string>(signatureField ? [signatureField.name] : []);
+  const fieldMappings: FieldMappings = {};
+  const uncertain: FieldSuggestion[] = [];
+  for (const s of scored) {
+    if (usedKeys.has(s.key) || usedFields.has(s.field)) continue;
+    if (s.confidence < minConfidence) {
+      if (!uncertain.some((u) => u.key === s.key)) uncertain.push(s);
+      continue;
+    }
+    usedKeys.add(s.key);
+    usedFields.add(s.field);
+    fieldMappings[s.key as MappingKey] = s.field;
+    suggestions.push(s);
+  }
+
+  const order = (key: string) => (key === 'signature' ? Infinity : CONCEPTS.findIndex((c) => c.key === key));
+  suggestions.sort((a, b) => order(a.key) - order(b.key));
+  return {
+    fieldMappings: Object.fromEntries(CONCEPTS.filter((c) => fieldMappings[c.key]).map((c) => [c.key, fieldMappings[c.key]])),
+    ...(signaturePosition && { signaturePosition }),
+    suggestions,
+    uncertain: uncertain.filter((u) => !usedKeys.has(u.key) && !usedFields.has(u.field)).sort((a, b) => order(a.key) - order(b.key)),
+    unmapped: candidates.map((c) => c.name).filter((name) => !usedFields.has(name)),
+    missing: REQUIRED_CONCEPTS.filter((key) => (key === 'signature' ? !signaturePosition : !fieldMappings[key])),
+  };
+}
+
+function printDraft(formPath: string, draft: MappingDraft, minConfidence: number) {
+  const row = (s: FieldSuggestion) => {
+    const target = s.field ? `"${s.field}"` : '(no field)';
+    return `  ${s.key.padEnd(22)} ${target.padEnd(28)} p${s.page + 1}  ${s.confidence.toFixed(2)}  ${s.evidence.join('; ')}`;
+  };
+  console.log(`Suggested mappings for ${basename(formPath)}:\n`);
+  if (draft.suggestions.length) draft.suggestions.forEach((s) => console.log(row(s)));
+  else console.log('  (none)');
+
+  if (draft.uncertain.length) {
+    console.log(`\nBelow ${minConfidence} confidence, not in the draft:\n`);
+    draft.uncertain.forEach((s) => console.log(row(s)));
+  }
+  if (draft.unmapped.length) console.log(`\nFields with no suggestion: ${draft.unmapped.join(', ')}`);
+  if (draft.missing.length) {
+    console.log(`\nCould not place: ${draft.missing.join(', ')}`);
+    console.log('Find these on the form by hand (list-form-fields.ts shows field names and positions).');
+  }
+
+  console.log('\nDraft (check it against the form before use):\n');
+  console.log(JSON.stringify({
+    fieldMappings: draft.fieldMappings,
+    ...(draft.signaturePosition && { signaturePosition: draft.signaturePosition }),
+  }, null, 2));
+}
+
+if (import.meta.main) {
+  const argv = Bun.argv.slice(2);
+  const getArg = (name: string): string | undefined => {
+    const i = argv.indexOf(name);
+    return i !== -1 && i + 1 < argv.length ? argv[i + 1] : undefined;
+  };
+  const formPath = argv.find((a, i) => !a.startsWith('--') && argv[i - 1] !== '--min-confidence');
+  if (!formPath) {
+    console.error('Usage: bun suggest-mappings.ts <form.pdf> [--json] [--min-confidence 0.5]');
+    process.exit(1);
+  }
+  const minArg = getArg('--min-confidence');
+  const minConfidence = minArg === undefined ? MIN_CONFIDENCE : Number(minArg);
+  if (!(minConfidence >= 0 && minConfidence <= 1)) {
+    console.error(`Error: --min-confidence must be between 0 and 1, got "${minArg}"`);
+    process.exit(1);
+  }
+
+  let draft: MappingDraft;
+  try {
+    draft = await suggestMappings(await Bun.file(formPath).arrayBuffer(), { minConfidence });
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+  if (argv.includes('--json')) {
+    console.log(JSON.stringify(draft, null, 2));
+  } else {
+    printDraft(formPath, draft, minConfidence);
+  }
+}
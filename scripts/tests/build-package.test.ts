@@ -0,0 +1,212 @@
+#!/usr/bin/env bun
+/**
+ * Tests for build-package.ts and the fillForm step it shares with fill-and-merge.ts
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { PDFDocument } from "pdf-lib";
+import { buildPackage, type PackageManifest } from "../build-package";
+import { fillForm, omittedContentWarnings, resolveFormPages } from "../fill-and-merge";
+
+const FORM_PATH = join(import.meta.dir, "..", "..", "templates", "right-of-access-form.pdf");
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+  "base64",
+);
+
+let tempDir: string;
+let signaturePath: string;
+
+function manifest(overrides: Partial<PackageManifest> = {}): PackageManifest {
+  return {
+    outputDir: join(tempDir, "out"),
+    date: "10/18/2026",
+    patient: { name: "Jane Q Patient", dob: "01/02/1980", street: "1 Main St", cityStateZip: "Springfield, IL 62701" },
+    provider: { name: "Springfield Clinic", street: "2 Oak Ave", cityStateZip: "Springfield, IL 62702" },
+    vendor: { developer: "athenahealth, Inc.", product_name: "athenaClinicals", export_formats: ["CSV"] },
+    form: {
+      path: FORM_PATH,
+      fieldMappings: { patientName: "patientName", dob: "dob", ehiExport: "ehiExport", date: "signatureDate" },
+      signaturePosition: { x: 100, topY: 600, height: 20 },
+    },
+    signaturePath,
+    ...overrides,
+  };
+}
+
+/** Three pages, with the patient's name on the second */
+async function threePageForm(): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const pages = [doc.addPage([612, 792]), doc.addPage([612, 792]), doc.addPage([612, 1008])];
+  doc.getForm().createTextField("name").addToPage(pages[1], { x: 50, y: 700, width: 200, height: 18 });
+  return doc.save();
+}
+
+beforeAll(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "build-package-test-"));
+  signaturePath = join(tempDir, "signature.png");
+  writeFileSync(signaturePath, PNG);
+});
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("fillForm", () => {
+  test("reports the fields it filled, with pages, and the ones it couldn't", async () => {
+    const result = await fillForm(readFileSync(FORM_PATH), {
+      patient: manifest().patient,
+      provider: manifest().provider,
+      fieldMappings: { patientName: "patientName", ehiExport: "ehiExport", dob: "noSuchField" },
+      date: "10/18/2026",
+    });
+    expect(result.filled).toEqual([
+      { name: "patientName", page: 0 },
+      { name: "ehiExport", page: 0 },
+    ]);
+    expect(result.warnings).toEqual([expect.stringContaining('"noSuchField"')]);
+    expect(result.signature).toBeUndefined();
+
+    const filled = await PDFDocument.load(result.bytes);
+    expect(filled.getForm().getFields()).toHaveLength(0); // flattened
+  });
+});
+
+describe("multi-page forms", () => {
+  const fillConfig = () => ({ patient: manifest().patient, provider: manifest().provider, date: "10/18/2026" });
+
+  test("fields and overlays land on their own pages", async () => {
+    const result = await fillForm(await threePageForm(), {
+      ...fillConfig(),
+      fieldMappings: { patientName: "name" },
+      phiDescriptionPosition: { page: 1, x: 50, topY: 300 },
+      signaturePosition: { page: 2, x: 100, topY: 900, height: 20 },
+      signaturePath,
+    });
+    expect(result.pageCount).toBe(3);
+    expect(result.filled).toEqual([{ name: "name", page: 1 }]);
+    expect(result.phiDescription).toEqual({ page: 1 });
+    expect(result.signature).toMatchObject({ page: 2 });
+    expect(resolveFormPages(undefined, result)).toEqual([0, 1, 2]);
+  });
+
+  test("overlays on a page the form doesn't have are an error", async () => {
+    await expect(fillForm(await threePageForm(), {
+      ...fillConfig(),
+      fieldMappings: {},
+      signaturePosition: { page: 3, x: 100, topY: 600, height: 20 },
+      signaturePath,
+    })).rejects.toThrow("signaturePosition.page is 3, but the form has 3 page(s) (0-2)");
+  });
+
+  test("page selections: all, lists and ranges", async () => {
+    const result = await fillForm(await threePageForm(), { ...fillConfig(), fieldMappings: { patientName: "name" } });
+    expect(resolveFormPages(undefined, result)).toEqual([0, 1]);
+    expect(resolveFormPages("all", result)).toEqual([0, 1, 2]);
+    expect(resolveFormPages([2, 0, 2], result)).toEqual([0, 2]);
+    expect(resolveFormPages({ from: 1 }, result)).toEqual([1, 2]);
+    expect(resolveFormPages({ from: 0, to: 1 }, result)).toEqual([0, 1]);
+    expect(() => resolveFormPages([0, 5], result)).toThrow("there is no page 5");
+    expect(() => resolveFormPages({ from: 2, to: 1 }, result)).toThrow('"to" (1) is before "from" (2)');
+
+    expect(omittedContentWarnings(result, [0])).toEqual([expect.stringContaining("page 2")]);
+  });
+
+  test("the package includes the selected pages", async () => {
+    const formPath = join(tempDir, "three-page.pdf");
+    writeFileSync(formPath, await threePageForm());
+    const summary = await buildPackage(manifest({
+      coverLetter: false,
+      form: { path: formPath, fieldMappings: { patientName: "name" }, pages: { from: 1 } },
+    }));
+    expect(summary.pages.filter((p) => p.part === "form").map((p) => p.sourcePage)).toEqual([2, 3]);
+    expect(summary.pages[0].fields).toEqual(["name"]);
+    expect(summary.warnings).toEqual([expect.stringContaining("without form.signaturePosition")]);
+  });
+});
+
+describe("buildPackage", () => {
+  test("cover letter, form, ID page and appendix, with a per-page summary", async () => {
+    const idImagePath = join(tempDir, "id.png");
+    writeFileSync(idImagePath, PNG);
+    const summary = await buildPackage(manifest({ idImagePath }));
+
+    expect(summary.pages.map((p) => p.part)).toEqual(["cover-letter", "form", "id", "appendix"]);
+    expect(summary.pages.map((p) => p.page)).toEqual([1, 2, 3, 4]);
+    expect(summary.pages[1]).toMatchObject({
+      sourcePage: 1,
+      fields: ["patientName", "dob", "ehiExport", "signatureDate"],
+      signature: true,
+      phiDescription: false,
+    });
+    expect(summary.vendor).toBe("athenahealth, Inc. / athenaClinicals");
+    expect(summary.warnings).toEqual([]);
+
+    const pdf = await PDFDocument.load(readFileSync(summary.outputPath));
+    expect(pdf.getPageCount()).toBe(4);
+    expect(JSON.parse(readFileSync(join(summary.runDir, "summary.json"), "utf-8")).pageCount).toBe(4);
+    expect(existsSync(join(summary.runDir, "manifest.json"))).toBe(true);
+    expect(existsSync(join(summary.runDir, "parts", "appendix.pdf"))).toBe(true);
+  });
+
+  test("each run gets its own directory", async () => {
+    const first = await buildPackage(manifest({ coverLetter: false }));
+    const second = await buildPackage(manifest({ coverLetter: false }));
+    expect(first.runDir).not.toBe(second.runDir);
+    expect(first.pages.map((p) => p.part)).toEqual(["form", "appendix"]);
+  });
+
+  test("unfillable mappings and an unplaced signature become warnings", async () => {
+    const summary = await buildPackage(manifest({
+      coverLetter: false,
+      form: { path: FORM_PATH, fieldMappings: { patientName: "typo" } },
+    }));
+    expect(summary.warnings).toEqual([
+      expect.stringContaining('"typo"'),
+      expect.stringContaining("without form.signaturePosition"),
+    ]);
+    expect(summary.pages[0].signature).toBe(false);
+  });
+
+  test("strict mode fails on any mapped field left unset, before writing anything", async () => {
+    const outputDir = join(tempDir, "strict");
+    const form = { path: FORM_PATH, fieldMappings: { patientName: "patientName", phone: "phone" } };
+    await expect(buildPackage(manifest({ outputDir, form }), { strict: true })).rejects.toThrow(
+      /Left "phone" blank: no patient\.phone/,
+    );
+    expect(existsSync(outputDir)).toBe(false);
+
+    const summary = await buildPackage(manifest({ outputDir, form, coverLetter: false }));
+    expect(summary.warnings).toContain('Left "phone" blank: no patient.phone');
+  });
+
+  test("flat forms are filled with overlays instead of fieldMappings", async () => {
+    const formPath = join(tempDir, "three-page.pdf");
+    writeFileSync(formPath, await threePageForm());
+    const summary = await buildPackage(manifest({
+      coverLetter: false,
+      form: { path: formPath, overlays: [{ type: "text", page: 2, x: 72, topY: 100, text: "{provider.name}" }] },
+    }));
+    expect(summary.pages.filter((p) => p.part === "form").map((p) => [p.sourcePage, p.overlays])).toEqual([
+      [1, []],
+      [3, ["Springfield Clinic"]],
+    ]);
+
+    await expect(buildPackage(manifest({ form: { path: formPath } }))).rejects.toThrow(/form: needs fieldMappings, choices or overlays/);
+  });
+
+  test("invalid manifests are rejected with the bad path", async () => {
+    const bad = { ...manifest(), patient: { ...manifest().patient, dob: undefined } } as unknown as PackageManifest;
+    await expect(buildPackage(bad)).rejects.toThrow(/patient\.dob: is required/);
+  });
+
+  test("missing inputs fail before anything is written", async () => {
+    const outputDir = join(tempDir, "never");
+    await expect(buildPackage(manifest({ outputDir, idImagePath: join(tempDir, "missing.png") }))).rejects.toThrow(/ID image not found/);
+    expect(existsSync(outputDir)).toBe(false);
+  });
+});
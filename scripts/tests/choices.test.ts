@@ -0,0 +1,136 @@
+#!/usr/bin/env bun
+/**
+ * Tests for _choices.ts and the radio groups, dropdowns and option lists fillForm sets with it
+ */
+
+import { describe, test, expect } from "bun:test";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { matchOption, radioOptions } from "../_choices";
+import { fillForm } from "../fill-and-merge";
+import { validate, FillAndMergeConfigSchema } from "../_config-schema";
+
+const patient = { name: "Jane Q Patient", dob: "01/02/1980", street: "1 Main St", cityStateZip: "Springfield, IL 62701" };
+const provider = { name: "Springfield Clinic", street: "2 Oak Ave", cityStateZip: "Springfield, IL 62702" };
+
+/** Radio buttons that export "0"/"1" with their meaning printed beside them, a dropdown and two option lists */
+async function choiceForm(): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([612, 792]);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const form = doc.getForm();
+
+  page.drawText("Deliver records to:", { x: 50, y: 700, size: 10, font });
+  const deliverTo = form.createRadioGroup("DeliverTo");
+  deliverTo.addOptionToPage("0", page, { x: 50, y: 676, width: 12, height: 12 });
+  page.drawText("Myself (the patient)", { x: 66, y: 678, size: 10, font });
+  deliverTo.addOptionToPage("1", page, { x: 250, y: 676, width: 12, height: 12 });
+  page.drawText("A third party", { x: 266, y: 678, size: 10, font });
+
+  const format = form.createRadioGroup("Format");
+  format.addOptionToPage("Paper", page, { x: 50, y: 640, width: 12, height: 12 });
+  format.addOptionToPage("Electronic copy (email)", page, { x: 150, y: 640, width: 12, height: 12 });
+  format.addOptionToPage("Electronic copy (portal)", page, { x: 250, y: 640, width: 12, height: 12 });
+
+  const purpose = form.createDropdown("Purpose");
+  purpose.addOptions(["Personal use", "Continuing care", "Legal", "Insurance"]);
+  purpose.addToPage(page, { x: 50, y: 600, width: 200, height: 18 });
+
+  const records = form.createOptionList("Records");
+  records.addOptions(["Lab results", "Imaging reports", "Clinic notes"]);
+  records.enableMultiselect();
+  records.addToPage(page, { x: 50, y: 500, width: 200, height: 60 });
+
+  const single = form.createOptionList("Single");
+  single.addOptions(["One", "Two"]);
+  single.addToPage(page, { x: 300, y: 500, width: 100, height: 40 });
+  return doc.save();
+}
+
+describe("matchOption", () => {
+  const options = [
+    { value: "0", label: "Myself (the patient)" },
+    { value: "1", label: "A third party" },
+    { value: "Electronic copy (email)" },
+    { value: "Electronic copy (portal)" },
+  ];
+
+  test("exact, then loose, then partial matches", () => {
+    expect(matchOption("1", options)).toEqual({ option: options[1] });
+    expect(matchOption("a THIRD-party", options)).toEqual({ option: options[1] });
+    expect(matchOption("myself", options)).toEqual({ option: options[0] });
+    expect(matchOption("patient", options)).toEqual({ option: options[0] });
+    expect(matchOption("portal", options)).toEqual({ option: options[3] });
+  });
+
+  test("a value naming several options, or none, is not a match", () => {
+    expect(matchOption("electronic", options)).toEqual({ ambiguous: [options[2], options[3]] });
+    expect(matchOption("fax", options)).toEqual({ ambiguous: [] });
+    expect(matchOption("", options)).toEqual({ ambiguous: [] });
+  });
+});
+
+describe("radioOptions", () => {
+  test("pairs each button's export value with the label printed beside it", async () => {
+    const doc = await PDFDocument.load(await choiceForm());
+    expect(radioOptions(doc, doc.getForm().getRadioGroup("DeliverTo"))).toEqual([
+      { value: "0", label: "Myself (the patient)" },
+      { value: "1", label: "A third party" },
+    ]);
+  });
+});
+
+describe("fillForm with choices", () => {
+  test("selects radio buttons, dropdown entries and option list items by what the form offers", async () => {
+    const result = await fillForm(await choiceForm(), {
+      patient,
+      provider,
+      fieldMappings: {},
+      choices: {
+        DeliverTo: { type: "radio", value: "myself" },
+        Format: { type: "radio", value: "email" },
+        Purpose: { type: "dropdown", value: "personal use" },
+        Records: { type: "optionList", value: ["Lab results", "imaging"] },
+      },
+    });
+    expect(result.warnings).toEqual([]);
+    expect(result.filled).toEqual([
+      { name: "DeliverTo", page: 0, value: "0" },
+      { name: "Format", page: 0, value: "Electronic copy (email)" },
+      { name: "Purpose", page: 0, value: "Personal use" },
+      { name: "Records", page: 0, value: "Lab results, Imaging reports" },
+    ]);
+  });
+
+  test("values the form doesn't offer, wrong field types and extra values are warnings", async () => {
+    const result = await fillForm(await choiceForm(), {
+      patient,
+      provider,
+      fieldMappings: {},
+      choices: {
+        Format: { type: "radio", value: "electronic" },
+        Purpose: { type: "dropdown", value: "Research" },
+        DeliverTo: { type: "dropdown", value: "myself" },
+        Single: { type: "optionList", value: ["One", "Two"] },
+      },
+    });
+    expect(result.filled).toEqual([]);
+    expect(result.warnings).toEqual([
+      'Could not set field "Format": "electronic" could be any of "Electronic copy (email)", "Electronic copy (portal)"',
+      'Could not set field "Purpose": "Research" is not one of its options, "Personal use", "Continuing care", "Legal", "Insurance"',
+      expect.stringMatching(/^Could not set field "DeliverTo": .*PDFRadioGroup/),
+      'Could not set field "Single": it takes one value, got 2',
+    ]);
+  });
+
+  test("the config schema checks choice types and values", () => {
+    const config = {
+      formPath: "f.pdf", appendixPath: "a.pdf", outputPath: "o.pdf", patient, provider,
+      choices: { Purpose: { type: "combo", value: [] }, Format: { value: "Paper" } },
+    };
+    expect(validate(FillAndMergeConfigSchema, config)).toEqual([
+      'choices.Purpose.type: must be one of "radio", "dropdown", "optionList"',
+      "choices.Purpose.value: must have at least 1 item(s)",
+      "choices.Format.type: is required",
+    ]);
+  });
+});
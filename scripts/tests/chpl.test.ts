@@ -0,0 +1,194 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for the local CHPL extract and (b)(10) verification
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  findListings,
+  importDownload,
+  loadExtract,
+  normalizeCriterion,
+  parseChplDownload,
+  saveExtract,
+  toVendorCertification,
+  verifyListing,
+  type ChplExtract,
+} from "../_chpl";
+
+// Shape of the JSON file from chpl.healthit.gov "Download the CHPL"
+const DOWNLOAD = {
+  listings: [
+    {
+      id: 11111,
+      chplProductNumber: "15.04.04.2891.Athe.AC.07.1.221101",
+      developer: { name: "athenahealth, Inc." },
+      product: { name: "athenaClinicals" },
+      version: { version: "22" },
+      certificationDate: Date.UTC(2022, 10, 1),
+      currentStatus: { status: { name: "Active" } },
+      certificationResults: [
+        { success: true, criterion: { number: "170.315 (b)(10)", title: "Electronic Health Information Export" } },
+        { success: true, criterion: { number: "170.315 (g)(10)" } },
+      ],
+    },
+    {
+      id: 22222,
+      chplProductNumber: "15.04.04.2891.Athe.AC.06.1.200101",
+      developer: { name: "athenahealth, Inc." },
+      product: { name: "athenaClinicals" },
+      version: { version: "20" },
+      certificationDate: Date.UTC(2020, 0, 1),
+      currentStatus: { status: { name: "Withdrawn by Developer" } },
+      certificationResults: [{ success: false, criterion: { number: "170.315 (b)(10)" } }],
+    },
+  ],
+};
+
+// Shape of a CHPL search API response
+const SEARCH = {
+  results: [
+    {
+      id: 33333,
+      chplProductNumber: "15.04.04.1447.Epic.AM.23.1.221215",
+      developer: { id: 1447, name: "Epic Systems Corporation" },
+      product: { id: 2, name: "EpicCare Ambulatory EHR Suite" },
+      version: { id: 3, name: "November 2022" },
+      certificationDate: "2022-12-15",
+      certificationStatus: { id: 1, name: "Active" },
+      criteriaMet: [{ id: 1, number: "170.315 (b)(10)", title: "EHI Export" }],
+    },
+  ],
+};
+
+function extractOf(listings = parseChplDownload(JSON.stringify(DOWNLOAD))): ChplExtract {
+  return { asOf: "2026-10-01", importedAt: "2026-10-18T00:00:00.000Z", sourceFile: "chpl.json", listings };
+}
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "chpl-test-"));
+  process.env.CHPL_EXTRACT = join(tempDir, "chpl", "listings.json");
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+  delete process.env.CHPL_EXTRACT;
+});
+
+describe("parsing", () => {
+  test("normalizeCriterion", () => {
+    expect(normalizeCriterion("170.315(b)(10)")).toBe("170.315 (b)(10)");
+    expect(normalizeCriterion("170.315 (B)(10): Electronic Health Information Export")).toBe("170.315 (b)(10)");
+    expect(normalizeCriterion("Electronic Health Information Export")).toBeNull();
+  });
+
+  test("JSON download: nested names, epoch dates, failed criteria dropped", () => {
+    const [current, old] = parseChplDownload(JSON.stringify(DOWNLOAD));
+    expect(current).toEqual({
+      id: 11111,
+      chplProductNumber: "15.04.04.2891.Athe.AC.07.1.221101",
+      developer: "athenahealth, Inc.",
+      product: "athenaClinicals",
+      version: "22",
+      certificationDate: "2022-11-01",
+      status: "Active",
+      decertificationDate: undefined,
+      criteria: ["170.315 (b)(10)", "170.315 (g)(10)"],
+    });
+    expect(old.criteria).toEqual([]);
+    expect(old.status).toBe("Withdrawn by Developer");
+  });
+
+  test("search API response", () => {
+    const [epic] = parseChplDownload(JSON.stringify(SEARCH));
+    expect(epic.version).toBe("November 2022");
+    expect(epic.status).toBe("Active");
+    expect(epic.criteria).toEqual(["170.315 (b)(10)"]);
+  });
+
+  test("CSV with a criteria list column", () => {
+    const csv = [
+      "\uFEFFCHPL Product Number,Developer,Product,Version,Certification Date,Certification Status,Criteria",
+      '15.04.04.2891.Athe.AC.07.1.221101,"athenahealth, Inc.",athenaClinicals,22,11/01/2022,Active,"170.315 (b)(10); 170.315 (g)(10)"',
+    ].join("\r\n");
+    const [listing] = parseChplDownload(csv);
+    expect(listing.developer).toBe("athenahealth, Inc.");
+    expect(listing.certificationDate).toBe("2022-11-01");
+    expect(listing.criteria).toEqual(["170.315 (b)(10)", "170.315 (g)(10)"]);
+  });
+
+  test("CSV with one column per criterion", () => {
+    const csv = [
+      "ID,CHPL Product Number,Developer,Product,Certification Status,170.315 (b)(10): EHI Export,170.315 (g)(10): API",
+      "44444,15.04.04.9999.Test.01.00.1.230101,Test Co,TestEHR,Active,FALSE,TRUE",
+    ].join("\n");
+    const [listing] = parseChplDownload(csv);
+    expect(listing.id).toBe(44444);
+    expect(listing.criteria).toEqual(["170.315 (g)(10)"]);
+  });
+
+  test("CSV without a product number column is rejected", () => {
+    expect(() => parseChplDownload("Developer,Product\nA,B")).toThrow(/CHPL Product Number/);
+  });
+});
+
+describe("extract", () => {
+  test("import dates the extract by the file's modification time", () => {
+    const file = join(tempDir, "chpl-download.json");
+    writeFileSync(file, JSON.stringify(DOWNLOAD));
+    utimesSync(file, new Date("2026-09-30T12:00:00Z"), new Date("2026-09-30T12:00:00Z"));
+    expect(importDownload(file).asOf).toBe("2026-09-30");
+    expect(importDownload(file, "2026-10-02").asOf).toBe("2026-10-02");
+  });
+
+  test("save and load round-trip; missing extract explains how to import", () => {
+    expect(() => loadExtract()).toThrow(/check-chpl\.ts import/);
+    saveExtract(extractOf());
+    expect(loadExtract().listings).toHaveLength(2);
+  });
+});
+
+describe("lookups", () => {
+  const extract = extractOf();
+
+  test("by CHPL listing id or product number", () => {
+    expect(findListings(extract, { id: 22222 }).map((l) => l.version)).toEqual(["20"]);
+    expect(findListings(extract, { id: "15.04.04.2891.athe.ac.07.1.221101" }).map((l) => l.id)).toEqual([11111]);
+    expect(findListings(extract, { id: "99999" })).toEqual([]);
+  });
+
+  test("by developer and product, active listings first", () => {
+    const found = findListings(extract, { developer: "athenahealth", product: "athena clinicals" });
+    expect(found.map((l) => l.id)).toEqual([11111, 22222]);
+    expect(findListings(extract, { developer: "Epic" })).toEqual([]);
+    expect(findListings(extract, {})).toEqual([]);
+  });
+
+  test("verification and the appendix citation", () => {
+    const [current, old] = findListings(extract, { developer: "athenahealth" }).map((l) => verifyListing(extract, l));
+    expect(current.ehiExport).toBe(true);
+    expect(current.active).toBe(true);
+    expect(toVendorCertification(current)).toEqual({
+      chpl_product_number: "15.04.04.2891.Athe.AC.07.1.221101",
+      chpl_listing_id: 11111,
+      product: "athenaClinicals 22",
+      certification_date: "2022-11-01",
+      verified_on: "2026-10-01",
+    });
+    expect(old.ehiExport).toBe(false);
+    expect(toVendorCertification(old)).toBeNull();
+  });
+
+  test("a decertified listing isn't cited even if it met (b)(10)", () => {
+    const [listing] = extract.listings;
+    const decertified = verifyListing(extract, { ...listing, status: "Active", decertificationDate: "2025-01-01" });
+    expect(decertified.ehiExport).toBe(true);
+    expect(decertified.active).toBe(false);
+    expect(toVendorCertification(decertified)).toBeNull();
+  });
+});
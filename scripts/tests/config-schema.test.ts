@@ -0,0 +1,137 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for the shared config schemas and validator
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  AppendixConfigSchema,
+  ConfigError,
+  CoverLetterConfigSchema,
+  FillAndMergeConfigSchema,
+  FollowupConfigSchema,
+  PackageManifestSchema,
+  parseConfig,
+  validate,
+} from "../_config-schema";
+
+const PATIENT = { name: "Jane Q Patient", dob: "01/02/1980", street: "1 Main St", cityStateZip: "Springfield, IL 62701" };
+const PROVIDER = { name: "Springfield Clinic", street: "2 Oak Ave", cityStateZip: "Springfield, IL 62702" };
+const FILL_CONFIG = {
+  formPath: "/tmp/form.pdf",
+  appendixPath: "/tmp/appendix.pdf",
+  outputPath: "./out.pdf",
+  patient: PATIENT,
+  provider: PROVIDER,
+  fieldMappings: { patientName: "Name", dob: "DOB" },
+  signaturePosition: { page: 0, x: 60, topY: 686, height: 18 },
+};
+
+describe("validate", () => {
+  test("a complete fill-and-merge config is valid", () => {
+    expect(validate(FillAndMergeConfigSchema, FILL_CONFIG)).toEqual([]);
+  });
+
+  test("missing required values name their path", () => {
+    const { dob: _dob, ...patient } = PATIENT;
+    const { formPath: _formPath, ...config } = FILL_CONFIG;
+    expect(validate(FillAndMergeConfigSchema, { ...config, patient })).toEqual([
+      "formPath: is required",
+      "patient.dob: is required",
+    ]);
+  });
+
+  test("unknown keys are errors, with a suggestion for typos", () => {
+    const errors = validate(FillAndMergeConfigSchema, {
+      ...FILL_CONFIG,
+      fieldMappings: { patientNmae: "Name", favoriteColor: "Color" },
+    });
+    expect(errors).toEqual([
+      'fieldMappings.patientNmae: unknown key (did you mean "patientName"?)',
+      "fieldMappings.favoriteColor: unknown key",
+    ]);
+  });
+
+  test("wrong types, empty strings and out-of-range numbers", () => {
+    const errors = validate(FillAndMergeConfigSchema, {
+      ...FILL_CONFIG,
+      patient: { ...PATIENT, name: "" },
+      fieldMappings: { dob: 7 },
+      signaturePosition: { page: 1.5, topY: -3 },
+    });
+    expect(errors).toEqual([
+      "patient.name: must not be empty",
+      "fieldMappings.dob: expected string, got integer",
+      "signaturePosition.page: expected integer, got number",
+      "signaturePosition.topY: must be at least 0",
+    ]);
+  });
+
+  test("array items are checked by index", () => {
+    const errors = validate(AppendixConfigSchema, { vendor: { export_formats: ["CSV", 3], entity_count: "many" } });
+    expect(errors).toEqual([
+      "vendor.export_formats[1]: expected string, got integer",
+      "vendor.entity_count: expected integer, got string",
+    ]);
+  });
+
+  test("dependentRequired", () => {
+    expect(validate(CoverLetterConfigSchema, { dob: "01/02/1980" })).toEqual([
+      "patientName: is required when dob is set",
+    ]);
+    expect(validate(CoverLetterConfigSchema, {})).toEqual([]);
+  });
+
+  test("anyOf: the manifest vendor is a slug or a vendor object", () => {
+    const manifest = { patient: PATIENT, provider: PROVIDER, form: { path: "f.pdf", fieldMappings: {} } };
+    expect(validate(PackageManifestSchema, { ...manifest, vendor: "athenaclinicals" })).toEqual([]);
+    expect(validate(PackageManifestSchema, { ...manifest, vendor: { developer: "athenahealth" } })).toEqual([]);
+    expect(validate(PackageManifestSchema, { ...manifest, vendor: { developr: "athenahealth" } })).toEqual([
+      'vendor.developr: unknown key (did you mean "developer"?)',
+    ]);
+    expect(validate(PackageManifestSchema, { ...manifest, vendor: 42 })).toEqual([
+      "vendor: expected Vendor slug or object, got integer",
+    ]);
+  });
+
+  test("follow-up letter configs need a request date, and dates are YYYY-MM-DD", () => {
+    expect(validate(FollowupConfigSchema, { kind: "ocr-complaint", requestDate: "2026-01-05", followupDates: ["2026-02-10"] })).toEqual([]);
+    expect(validate(FollowupConfigSchema, { provider: "Springfield Clinic" })).toEqual(["requestDate: is required"]);
+    expect(validate(FollowupConfigSchema, {
+      kind: "complaint", requestDate: "01/05/2026", followupDates: ["2026-02-10", "Feb 20"], recieved: "a CCDA",
+    })).toEqual([
+      'kind: must be one of "reminder", "information-blocking", "ocr-complaint"',
+      "requestDate: expected a YYYY-MM-DD date",
+      "followupDates[1]: expected a YYYY-MM-DD date",
+      'recieved: unknown key (did you mean "received"?)',
+    ]);
+  });
+
+  test("the root must be an object", () => {
+    expect(validate(AppendixConfigSchema, [])).toEqual(["(root): expected object, got array"]);
+  });
+});
+
+describe("parseConfig", () => {
+  test("returns the parsed config when valid", () => {
+    expect(parseConfig(CoverLetterConfigSchema, '{"patientName": "Jane"}')).toEqual({ patientName: "Jane" });
+  });
+
+  test("throws a ConfigError listing every problem", () => {
+    let error: unknown;
+    try {
+      parseConfig(CoverLetterConfigSchema, '{"patientNam": "Jane", "date": 5}', "cover letter config");
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).errors).toHaveLength(2);
+    expect((error as ConfigError).message).toBe(
+      'Invalid cover letter config:\n  - patientNam: unknown key (did you mean "patientName"?)\n  - date: expected string, got integer',
+    );
+  });
+
+  test("JSON syntax errors are ConfigErrors too", () => {
+    expect(() => parseConfig(CoverLetterConfigSchema, "{patientName: Jane}")).toThrow(/not valid JSON/);
+  });
+});
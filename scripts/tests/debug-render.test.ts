@@ -0,0 +1,75 @@
+#!/usr/bin/env bun
+/**
+ * Tests for _debug-render.ts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { PDFDocument } from "pdf-lib";
+import { renderDebugPdf } from "../_debug-render";
+import { extractPageText } from "../_pdf-text";
+import { fillForm } from "../fill-and-merge";
+
+const FORM_PATH = join(import.meta.dir, "..", "..", "templates", "right-of-access-form.pdf");
+
+async function labels(bytes: Uint8Array, page = 0) {
+  return extractPageText(await PDFDocument.load(bytes), page);
+}
+
+describe("renderDebugPdf", () => {
+  test("labels every widget with its name and position, over a topY grid", async () => {
+    const form = readFileSync(FORM_PATH);
+    const bytes = await renderDebugPdf(form);
+    const doc = await PDFDocument.load(bytes);
+    expect(doc.getPageCount()).toBe(1);
+    expect(doc.getForm().getFields()).toHaveLength(0);
+
+    const text = (await labels(bytes)).map((l) => l.text);
+    expect(text).toContain("patientName (x=39, topY=113)");
+    expect(text).toContain("signatureDate (x=422, topY=582)");
+    expect(text.filter((t) => /^topY \d+$/.test(t))).toEqual(["topY 100", "topY 200", "topY 300", "topY 400", "topY 500", "topY 600", "topY 700"]);
+
+    // A grid label sits on its line, in topY terms
+    const topY300 = (await labels(bytes)).find((l) => l.text === "topY 300")!;
+    expect(792 - topY300.y).toBeCloseTo(299, 0);
+  });
+
+  test("boxes the planned signature, PHI description and overlays where they will be drawn", async () => {
+    const blank = await PDFDocument.create();
+    blank.addPage([612, 792]);
+    blank.addPage([612, 792]);
+    const bytes = await renderDebugPdf(await blank.save(), {
+      signaturePosition: { page: 1, x: 100, topY: 600, height: 20 },
+      phiDescriptionPosition: { x: 72, topY: 400 },
+      overlays: [
+        { type: "check", x: 50, topY: 200 },
+        { type: "text", page: 1, x: 72, topY: 100, text: "{patient.name}" },
+      ],
+      values: { "patient.name": "Jane Q. Patient" },
+    });
+
+    const first = await labels(bytes, 0);
+    const second = await labels(bytes, 1);
+    expect(first.map((l) => l.text)).toEqual(expect.arrayContaining(["phiDescriptionPosition (x=72, topY=400)", "overlays[0] check"]));
+    expect(second.map((l) => l.text)).toEqual(expect.arrayContaining(["signaturePosition (x=100, topY=600)", "overlays[1] text"]));
+    // The signature's topY is the bottom of the image, so its box (and label) start height points above it
+    const signature = second.find((l) => l.text.startsWith("signaturePosition"))!;
+    expect(signature.x).toBe(100);
+    expect(792 - signature.y).toBeCloseTo(600 - 20 - 1, 0);
+    const check = first.find((l) => l.text === "overlays[0] check")!;
+    expect(792 - check.y).toBeCloseTo(200 - 1, 0);
+  });
+
+  test("draws onto the filled form when given one", async () => {
+    const form = readFileSync(FORM_PATH);
+    const filled = await fillForm(form, {
+      patient: { name: "Jane Q Patient", dob: "01/02/1980", street: "1 Main St", cityStateZip: "Springfield, IL 62701" },
+      provider: { name: "Springfield Clinic", street: "2 Oak Ave", cityStateZip: "Springfield, IL 62702" },
+      fieldMappings: { patientName: "patientName" },
+    });
+    const text = (await labels(await renderDebugPdf(form, {}, { base: filled.bytes }))).map((l) => l.text);
+    expect(text).toContain("Jane Q Patient");
+    expect(text).toContain("patientName (x=39, topY=113)");
+  });
+});
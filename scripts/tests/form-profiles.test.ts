@@ -0,0 +1,129 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for saved form profiles
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  applyProfile,
+  BUNDLE_FORMAT,
+  exportProfiles,
+  findProfile,
+  formSha256,
+  importProfiles,
+  profileForFields,
+  upsertProfile,
+  type FormProfile,
+  type FormProfileInput,
+} from "../_form-profiles";
+import type { Config } from "../fill-and-merge";
+
+const FORM_A = formSha256(new TextEncoder().encode("form A"));
+const FORM_B = formSha256(new TextEncoder().encode("form B"));
+
+function input(overrides: Partial<FormProfileInput> = {}): FormProfileInput {
+  return {
+    provider: "Springfield Clinic",
+    formSha256: FORM_A,
+    fieldMappings: { patientName: "Name", dob: "DOB" },
+    signaturePosition: { x: 60, topY: 686, height: 18 },
+    ...overrides,
+  };
+}
+
+describe("upsertProfile", () => {
+  test("one profile per form and provider, keeping createdAt on update", () => {
+    const profiles: FormProfile[] = [];
+    const first = upsertProfile(profiles, input(), "2026-01-01T00:00:00.000Z");
+    expect(first.id).toBe(`springfield-clinic-${FORM_A.slice(0, 8)}`);
+
+    const second = upsertProfile(profiles, input({ faxNumber: "+15555550123" }), "2026-02-01T00:00:00.000Z");
+    expect(profiles).toHaveLength(1);
+    expect(second).toMatchObject({ createdAt: "2026-01-01T00:00:00.000Z", updatedAt: "2026-02-01T00:00:00.000Z", faxNumber: "+15555550123" });
+
+    upsertProfile(profiles, input({ provider: "Shelbyville Clinic" }));
+    expect(profiles).toHaveLength(2);
+  });
+});
+
+describe("findProfile", () => {
+  const profiles: FormProfile[] = [];
+  upsertProfile(profiles, input(), "2026-01-01T00:00:00.000Z");
+  upsertProfile(profiles, input({ formSha256: FORM_B, fieldMappings: { patientName: "PatientName" } }), "2026-03-01T00:00:00.000Z");
+  upsertProfile(profiles, input({ provider: "Shelbyville Clinic" }), "2026-04-01T00:00:00.000Z");
+
+  test("the same form wins, preferring the same provider", () => {
+    const match = findProfile(profiles, { formSha256: FORM_A, provider: "springfield clinic" });
+    expect(match).toMatchObject({ matchedBy: "form", profile: { provider: "Springfield Clinic", formSha256: FORM_A } });
+    expect(findProfile(profiles, { formSha256: FORM_A })!.profile.provider).toBe("Shelbyville Clinic");
+  });
+
+  test("falls back to the provider's newest profile for an unknown form", () => {
+    const unknown = formSha256(new TextEncoder().encode("revised form"));
+    const match = findProfile(profiles, { formSha256: unknown, provider: "Springfield Clinic" });
+    expect(match).toMatchObject({ matchedBy: "provider", profile: { formSha256: FORM_B } });
+    expect(findProfile(profiles, { formSha256: unknown, provider: "Capital City Hospital" })).toBeNull();
+  });
+});
+
+test("applyProfile fills in what the config leaves out", () => {
+  const profile = upsertProfile([], input({ phiDescriptionPosition: { x: 72, topY: 400 } }));
+  const config: Partial<Config> = { formPath: "form.pdf", fieldMappings: { dob: "BirthDate" }, signaturePosition: { x: 100 } };
+  expect(applyProfile(config, profile)).toEqual({
+    formPath: "form.pdf",
+    fieldMappings: { patientName: "Name", dob: "BirthDate" },
+    signaturePosition: { x: 100 },
+    phiDescriptionPosition: { x: 72, topY: 400 },
+  });
+});
+
+test("profileForFields keeps only mappings for fields the other form has, and nothing positional", () => {
+  const profile = upsertProfile([], input({
+    fieldMappings: { patientName: "Name", dob: "DOB", phone: "Phone" },
+    choices: { Format: { type: "radio", value: "electronic" }, Purpose: { type: "dropdown", value: "Personal use" } },
+    phiDescriptionPosition: { x: 72, topY: 400 },
+    overlays: [{ type: "text", text: "{patientName}", x: 100, topY: 200 }],
+  }));
+  const carried = profileForFields(profile, ["Name", "Phone", "Format", "Signature"]);
+  expect(carried.fieldMappings).toEqual({ patientName: "Name", phone: "Phone" });
+  expect(carried.choices).toEqual({ Format: { type: "radio", value: "electronic" } });
+  expect(carried.signaturePosition).toBeUndefined();
+  expect(carried.phiDescriptionPosition).toBeUndefined();
+  expect(carried.overlays).toBeUndefined();
+  expect(profileForFields(profile, []).choices).toBeUndefined();
+});
+
+describe("export and import", () => {
+  test("round trip, keeping the newer copy unless overwriting", () => {
+    const local: FormProfile[] = [];
+    upsertProfile(local, input(), "2026-05-01T00:00:00.000Z");
+    const remote: FormProfile[] = [];
+    upsertProfile(remote, input({ faxNumber: "+15555550199" }), "2026-04-01T00:00:00.000Z");
+    upsertProfile(remote, input({ formSha256: FORM_B }), "2026-04-01T00:00:00.000Z");
+
+    const bundle = JSON.parse(JSON.stringify(exportProfiles(remote)));
+    expect(bundle.format).toBe(BUNDLE_FORMAT);
+    expect(importProfiles(local, bundle)).toEqual({
+      added: [`springfield-clinic-${FORM_B.slice(0, 8)}`],
+      updated: [],
+      skipped: [`springfield-clinic-${FORM_A.slice(0, 8)}`],
+    });
+    expect(local[0].faxNumber).toBeUndefined();
+
+    expect(importProfiles(local, bundle, { overwrite: true }).updated).toHaveLength(2);
+    expect(local[0].faxNumber).toBe("+15555550199");
+  });
+
+  test("exporting chosen ids, and unknown ids are errors", () => {
+    const profiles: FormProfile[] = [];
+    const a = upsertProfile(profiles, input());
+    upsertProfile(profiles, input({ formSha256: FORM_B }));
+    expect(exportProfiles(profiles, [a.id]).profiles).toEqual([a]);
+    expect(() => exportProfiles(profiles, ["nope"])).toThrow(/No form profile with id "nope"/);
+  });
+
+  test("imports are validated", () => {
+    const bad = { format: BUNDLE_FORMAT, profiles: [{ ...upsertProfile([], input()), formSha256: "abc" }] };
+    expect(() => importProfiles([], bad)).toThrow(/profiles\[0\]\.formSha256: expected SHA-256 of the blank form, in hex/);
+  });
+});
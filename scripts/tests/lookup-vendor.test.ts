@@ -0,0 +1,105 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for the lookup-vendor.ts module API and its JSON output
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { pinSnapshot, saveSnapshot, type Vendor } from "../_vendor-db";
+import { findVendors, lookupToJson } from "../lookup-vendor";
+
+const ATHENA: Vendor = {
+  developer: "athenahealth, Inc.",
+  product_name: "athenaClinicals",
+  slug: "athenaclinicals",
+  grade: "B",
+  coverage: "partial",
+  approach: "native",
+  export_formats: ["CSV"],
+  ehi_documentation_url: "https://docs.athenahealth.com/ehi",
+  entity_count: 120,
+  field_count: 2400,
+  summary: "CSV tables with a data dictionary.",
+  has_data_dictionary: true,
+  includes_billing: true,
+  chpl_ids: [11111],
+};
+const EPIC: Vendor = { developer: "Epic Systems Corporation", product_name: "EpicCare", slug: "epic", export_formats: ["TSV"] };
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "lookup-vendor-test-"));
+  process.env.VENDOR_CACHE_DIR = tempDir;
+  // Nothing listens on port 9, so every fetch fails fast
+  process.env.VENDOR_DB_URL = "http://127.0.0.1:9";
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+  delete process.env.VENDOR_CACHE_DIR;
+  delete process.env.VENDOR_DB_URL;
+});
+
+describe("findVendors", () => {
+  test("searches the pinned snapshot", async () => {
+    const { meta } = saveSnapshot(JSON.stringify([ATHENA, EPIC]));
+    pinSnapshot(meta.id);
+    const lookup = await findVendors("athena health");
+    expect(lookup.matches.map((m) => m.vendor.slug)).toEqual(["athenaclinicals"]);
+    expect(lookup.db.snapshot).toBe(meta.id);
+  });
+
+  test("searches caller-supplied records without touching the cache", async () => {
+    const lookup = await findVendors("epic", { vendors: [ATHENA, EPIC] });
+    expect(lookup.matches[0].vendor).toBe(EPIC);
+    expect(lookup.db.snapshot).toBeUndefined();
+  });
+
+  test("portal URLs infer the vendor", async () => {
+    const lookup = await findVendors("https://mychart.example.org/MyChart/", { vendors: [ATHENA, EPIC] });
+    expect(lookup.portal?.portal).toBe("MyChart");
+    expect(lookup.query).toBe("epic");
+    expect(lookup.matches.map((m) => m.vendor.slug)).toEqual(["epic"]);
+  });
+
+  test("unknown portals return no matches without loading the database", async () => {
+    // An empty cache with an unreachable source would throw if loaded
+    const lookup = await findVendors("portal.example.org", { portal: true });
+    expect(lookup.portal).toBeNull();
+    expect(lookup.matches).toEqual([]);
+  });
+
+  test("throws when the database can't be loaded", async () => {
+    await expect(findVendors("epic")).rejects.toThrow(/no cached snapshot/);
+  });
+});
+
+describe("lookupToJson", () => {
+  test("vendors come out in the generate-appendix VendorConfig shape", async () => {
+    const json = lookupToJson(await findVendors("athenaclinicals", { vendors: [ATHENA] }));
+    expect(json.snapshot).toBeNull();
+    expect(json.matches).toHaveLength(1);
+    expect(json.matches[0].slug).toBe("athenaclinicals");
+    expect(json.matches[0].vendor).toEqual({
+      developer: "athenahealth, Inc.",
+      product_name: "athenaClinicals",
+      export_formats: ["CSV"],
+      ehi_documentation_url: "https://docs.athenahealth.com/ehi",
+      entity_count: 120,
+      field_count: 2400,
+      summary: "CSV tables with a data dictionary.",
+      grade: "B",
+      coverage: "partial",
+      approach: "native",
+    });
+  });
+
+  test("missing fields are left out rather than null", async () => {
+    const json = lookupToJson(await findVendors("epic", { vendors: [EPIC] }));
+    expect(Object.keys(json.matches[0].vendor).sort()).toEqual(["developer", "export_formats", "product_name"]);
+    expect(json).not.toHaveProperty("portal");
+  });
+});
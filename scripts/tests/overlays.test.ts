@@ -0,0 +1,133 @@
+#!/usr/bin/env bun
+/**
+ * Tests for _overlays.ts and the overlays fillForm draws with it
+ */
+
+import { describe, test, expect } from "bun:test";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { drawOverlays, expandPlaceholders, initials, layoutText, MIN_FONT_SIZE, wrapText } from "../_overlays";
+import { extractPageText } from "../_pdf-text";
+import { fillForm } from "../fill-and-merge";
+
+const patient = { name: "Jane Q. Patient", dob: "01/02/1980", street: "1 Main St", cityStateZip: "Springfield, IL 62701" };
+const provider = { name: "Springfield Clinic", street: "2 Oak Ave", cityStateZip: "Springfield, IL 62702" };
+
+/** A scanned-style form: two pages, no fields */
+async function flatForm(): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.addPage([612, 792]);
+  doc.addPage([612, 792]);
+  return doc.save();
+}
+
+describe("text layout", () => {
+  test("wraps at word boundaries, splitting words wider than a line", async () => {
+    const font = await (await PDFDocument.create()).embedFont(StandardFonts.Helvetica);
+    const lines = wrapText("See Appendix A (attached) for details", font, 10, 80);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(" ")).toBe("See Appendix A (attached) for details");
+    for (const line of lines) expect(font.widthOfTextAtSize(line, 10)).toBeLessThanOrEqual(80);
+
+    const split = wrapText("Supercalifragilistic", font, 10, 30);
+    expect(split.join("")).toBe("Supercalifragilistic");
+    expect(wrapText("one\n\ntwo", font, 10, 100)).toEqual(["one", "", "two"]);
+  });
+
+  test("shrinks text to fit a box, and reports when even the smallest size overflows", async () => {
+    const font = await (await PDFDocument.create()).embedFont(StandardFonts.Helvetica);
+    const text = "All records, including my EHI export. See Appendix A (attached)";
+    const roomy = layoutText(text, font, { size: 10, width: 400, height: 20 });
+    expect(roomy).toMatchObject({ size: 10, fits: true, lines: [text] });
+
+    const tight = layoutText(text, font, { size: 12, width: 150, height: 30 });
+    expect(tight.fits).toBe(true);
+    expect(tight.size).toBeLessThan(12);
+    expect(tight.lines.length).toBeGreaterThan(1);
+
+    const oneLine = layoutText(text, font, { size: 12, width: 200, wrap: false });
+    expect(oneLine.lines).toEqual([text]);
+    expect(font.widthOfTextAtSize(text, oneLine.size)).toBeLessThanOrEqual(200);
+
+    expect(layoutText(text, font, { width: 40, height: 8 })).toMatchObject({ size: MIN_FONT_SIZE, fits: false });
+    // No box: drawn as given
+    expect(layoutText(text, font, { size: 14 })).toMatchObject({ size: 14, fits: true });
+  });
+
+  test("placeholders and initials", () => {
+    expect(initials("Jane Q. Patient")).toBe("JQP");
+    expect(initials("  josé  de la Cruz ")).toBe("JDLC");
+    expect(expandPlaceholders("{patient.name} ({patient.dob})", { "patient.name": "Jane", "patient.dob": "01/02/1980" }))
+      .toEqual({ text: "Jane (01/02/1980)", missing: [] });
+    expect(expandPlaceholders("Phone: {patient.phone}", {}).missing).toEqual(["patient.phone"]);
+    expect(() => expandPlaceholders("{patient.ssn}", {})).toThrow("Unknown placeholder {patient.ssn}");
+  });
+});
+
+describe("drawOverlays", () => {
+  test("draws text with its top at topY, on the page given", async () => {
+    const doc = await PDFDocument.load(await flatForm());
+    const fonts = { regular: await doc.embedFont(StandardFonts.Helvetica), bold: await doc.embedFont(StandardFonts.HelveticaBold) };
+    const { drawn, warnings } = drawOverlays(doc, [
+      { type: "text", page: 1, x: 72, topY: 100, text: "{patient.name}", size: 12 },
+      { type: "check", x: 50, topY: 200 },
+    ], { "patient.name": "Jane Q. Patient" }, fonts);
+
+    expect(warnings).toEqual([]);
+    expect(drawn).toEqual([
+      { type: "text", page: 1, text: "Jane Q. Patient", size: 12 },
+      { type: "check", page: 0, size: 10 },
+    ]);
+    const [line] = extractPageText(doc, 1);
+    expect(line.text).toBe("Jane Q. Patient");
+    expect(line.x).toBe(72);
+    // Baseline sits one ascent below the top
+    expect(792 - line.y - 100).toBeCloseTo(fonts.regular.heightAtSize(12, { descender: false }), 1);
+    expect(extractPageText(doc, 0)).toEqual([]);
+  });
+
+  test("a missing value or overflowing box is a warning; a bad page or missing text is an error", async () => {
+    const doc = await PDFDocument.load(await flatForm());
+    const fonts = { regular: await doc.embedFont(StandardFonts.Helvetica), bold: await doc.embedFont(StandardFonts.HelveticaBold) };
+    const { drawn, warnings } = drawOverlays(doc, [
+      { type: "text", x: 72, topY: 100, text: "Phone: {patient.phone}" },
+      { type: "text", x: 72, topY: 200, text: "Far too much text for this box", width: 20, height: 8 },
+    ], {}, fonts);
+    expect(warnings).toEqual([
+      "Left overlays[0] blank: no patient.phone",
+      "overlays[1] does not fit its 20 x 8 box, even at 6pt",
+    ]);
+    expect(drawn.map((o) => o.type)).toEqual(["text"]);
+
+    expect(() => drawOverlays(doc, [{ type: "x", page: 2, x: 0, topY: 0 }], {}, fonts))
+      .toThrow("overlays[0].page is 2, but the form has 2 page(s) (0-1)");
+    expect(() => drawOverlays(doc, [{ type: "text", x: 0, topY: 0 }], {}, fonts)).toThrow('overlays[0]: a text overlay needs "text"');
+  });
+});
+
+describe("fillForm with overlays", () => {
+  test("fills a flat form in place, and merges the pages it wrote on", async () => {
+    const result = await fillForm(await flatForm(), {
+      patient,
+      provider,
+      fieldMappings: {},
+      date: "10/18/2026",
+      overlays: [
+        { type: "text", x: 72, topY: 100, text: "{patient.name}, DOB {patient.dob}" },
+        { type: "date", x: 400, topY: 700 },
+        { type: "initials", page: 1, x: 500, topY: 600 },
+        { type: "x", page: 1, x: 50, topY: 300 },
+      ],
+    });
+    expect(result.warnings).toEqual([]);
+    expect(result.overlays.map((o) => [o.type, o.page, o.text])).toEqual([
+      ["text", 0, "Jane Q. Patient, DOB 01/02/1980"],
+      ["date", 0, "10/18/2026"],
+      ["initials", 1, "JQP"],
+      ["x", 1, undefined],
+    ]);
+
+    const doc = await PDFDocument.load(result.bytes);
+    expect(extractPageText(doc, 0).map((l) => l.text)).toEqual(["Jane Q. Patient, DOB 01/02/1980", "10/18/2026"]);
+    expect(extractPageText(doc, 1).map((l) => l.text)).toEqual(["JQP"]);
+  });
+});
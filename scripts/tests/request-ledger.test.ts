@@ -0,0 +1,120 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for HIPAA deadline math, request ledger states, and follow-up letters
+ */
+
+import { describe, test, expect } from "bun:test";
+import { PDFDocument } from "pdf-lib";
+import { addDays, daysBetween, hipaaDeadlines } from "../_deadlines";
+import { ledgerStatus, validateEntryFields, type LedgerEntry } from "../request-ledger";
+import { renderFollowupLetter } from "../generate-followup-letter";
+
+function entry(fields: Partial<LedgerEntry>): LedgerEntry {
+  return {
+    id: "req-test",
+    provider: "Example Health",
+    method: "fax",
+    outcome: "open",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    ...fields,
+  };
+}
+
+describe("hipaaDeadlines", () => {
+  test("due 30 days after sending, 60 with an extension", () => {
+    const d = hipaaDeadlines("2026-01-15");
+    expect(d.dueDate).toBe("2026-02-14");
+    expect(d.extendedDueDate).toBe("2026-03-16");
+    expect(d.deadline).toBe("2026-02-14");
+    expect(d.extended).toBe(false);
+  });
+
+  test("extension applies only when noticed within the first 30 days", () => {
+    expect(hipaaDeadlines("2026-01-15", "2026-02-10").deadline).toBe("2026-03-16");
+    expect(hipaaDeadlines("2026-01-15", "2026-02-14").extended).toBe(true);
+    expect(hipaaDeadlines("2026-01-15", "2026-02-20").extended).toBe(false);
+  });
+
+  test("date arithmetic crosses month, year and DST boundaries", () => {
+    expect(addDays("2025-12-20", 30)).toBe("2026-01-19");
+    expect(addDays("2026-03-01", 30)).toBe("2026-03-31");
+    expect(daysBetween("2026-03-07", "2026-03-09")).toBe(2);
+    expect(daysBetween("2026-03-09", "2026-03-07")).toBe(-2);
+  });
+});
+
+describe("ledgerStatus", () => {
+  test("unsent until there is a sent date", () => {
+    expect(ledgerStatus(entry({}), "2026-02-01").state).toBe("unsent");
+  });
+
+  test("open, due-soon, then overdue as the deadline approaches", () => {
+    const e = entry({ sentDate: "2026-01-15" });
+    expect(ledgerStatus(e, "2026-01-20").state).toBe("open");
+    expect(ledgerStatus(e, "2026-02-10").state).toBe("due-soon");
+    expect(ledgerStatus(e, "2026-02-14").state).toBe("due-soon");
+    const late = ledgerStatus(e, "2026-02-17");
+    expect(late.state).toBe("overdue");
+    expect(late.daysRemaining).toBe(-3);
+  });
+
+  test("upcoming window is configurable", () => {
+    const e = entry({ sentDate: "2026-01-15" });
+    expect(ledgerStatus(e, "2026-02-01", 7).state).toBe("open");
+    expect(ledgerStatus(e, "2026-02-01", 14).state).toBe("due-soon");
+  });
+
+  test("a noticed extension moves the deadline", () => {
+    const e = entry({ sentDate: "2026-01-15", extensionNoticeDate: "2026-02-01" });
+    expect(ledgerStatus(e, "2026-02-20").state).toBe("open");
+  });
+
+  test("closed once there is an outcome", () => {
+    const e = entry({ sentDate: "2026-01-15", outcome: "fulfilled" });
+    expect(ledgerStatus(e, "2026-03-01").state).toBe("closed");
+  });
+});
+
+describe("validateEntryFields", () => {
+  test("rejects unknown methods and malformed dates", () => {
+    expect(() => validateEntryFields({ method: "pigeon" as never })).toThrow(/method/);
+    expect(() => validateEntryFields({ sentDate: "01/15/2026" })).toThrow(/sentDate/);
+    expect(() => validateEntryFields({ sentDate: "2026-13-45" })).toThrow(/sentDate/);
+    expect(() => validateEntryFields({ sentDate: "2026-02-30" })).toThrow(/sentDate/);
+    expect(() => validateEntryFields({ sentDate: "2028-02-29" })).not.toThrow();
+    expect(() => validateEntryFields({ method: "mail", sentDate: "2026-01-15" })).not.toThrow();
+  });
+});
+
+describe("renderFollowupLetter", () => {
+  test("renders a one-page PDF", async () => {
+    const bytes = await renderFollowupLetter({
+      requestDate: "2026-01-15",
+      provider: "Example Health",
+      patientName: "Jane Doe",
+      date: "2026-03-01",
+    });
+    expect(Buffer.from(bytes.subarray(0, 5)).toString()).toBe("%PDF-");
+  });
+
+  test("renders each escalation kind, breaking onto new pages as needed", async () => {
+    for (const kind of ["information-blocking", "ocr-complaint"] as const) {
+      const bytes = await renderFollowupLetter({
+        kind,
+        requestDate: "2026-01-15",
+        provider: "Example Health",
+        vendor: "Epic Systems (Epic EHR)",
+        received: "a CCDA summary",
+        receivedDate: "2026-02-01",
+        followupDates: Array.from({ length: 20 }, (_, i) => addDays("2026-02-20", i * 3)),
+        date: "2026-05-01",
+      });
+      const doc = await PDFDocument.load(bytes);
+      expect(doc.getPageCount()).toBeGreaterThan(1);
+    }
+  });
+
+  test("rejects unknown kinds", async () => {
+    await expect(renderFollowupLetter({ kind: "lawsuit" as never, requestDate: "2026-01-15" })).rejects.toThrow(/kind/);
+  });
+});
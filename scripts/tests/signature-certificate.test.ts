@@ -0,0 +1,148 @@
+#!/usr/bin/env bun
+/**
+ * Tests for _signature-certificate.ts and the certificate page build-package.ts appends
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { PDFDocument } from "pdf-lib";
+import {
+  loadSignatureMetadata,
+  renderSignatureCertificate,
+  sha256Hex,
+  signatureMismatchWarning,
+  type SignatureMetadata,
+} from "../_signature-certificate";
+import { extractPageText } from "../_pdf-text";
+import { buildPackage } from "../build-package";
+
+const FORM_PATH = join(import.meta.dir, "..", "..", "templates", "right-of-access-form.pdf");
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+  "base64",
+);
+const CONSENT =
+  "By submitting, I agree to sign this request electronically. My electronic signature and initials are the legal equivalent " +
+  "of my handwritten signature under the federal ESIGN Act (15 U.S.C. § 7001 et seq.) and the Uniform Electronic Transactions Act (UETA).";
+
+function metadata(overrides: Partial<SignatureMetadata> = {}): SignatureMetadata {
+  return {
+    sessionId: "62ee3034-5d3c-4a8b-9f0e-1c2d3e4f5a6b",
+    signerName: "Jane Q Patient",
+    timestamp: "2026-10-18T18:04:59.512Z",
+    consentText: CONSENT,
+    consentedAt: "2026-10-18T18:03:10.000Z",
+    documentsShown: [{ name: "provider-form.pdf", type: "application/pdf", sha256: "cd".repeat(32) }],
+    signatureSha256: sha256Hex(PNG),
+    auditLog: [
+      { timestamp: "2026-10-18T17:58:12.004Z", event: "created" },
+      { timestamp: "2026-10-18T18:05:00.321Z", event: "submitted", ip: "203.0.113.7" },
+    ],
+    ...overrides,
+  };
+}
+
+async function certificateText(bytes: Uint8Array): Promise<string[]> {
+  const doc = await PDFDocument.load(bytes);
+  return doc.getPageIndices().flatMap((i) => extractPageText(doc, i).map((l) => l.text));
+}
+
+let tempDir: string;
+
+beforeAll(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "signature-certificate-test-"));
+});
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("renderSignatureCertificate", () => {
+  test("shows the signer, session, audit times, image hash and consent text", async () => {
+    const text = await certificateText(await renderSignatureCertificate(metadata()));
+    expect(text[0]).toBe("Electronic Signature Certificate");
+    expect(text).toEqual(expect.arrayContaining([
+      "Signer", "Jane Q Patient",
+      "Session ID", "62ee3034-5d3c-4a8b-9f0e-1c2d3e4f5a6b",
+      "Session created", "2026-10-18 17:58:12 UTC",
+      "Signature submitted", "2026-10-18 18:05:00 UTC",
+      "Consent given", "2026-10-18 18:03:10 UTC",
+      "Document shown", "provider-form.pdf", "Document SHA-256", "cd".repeat(32),
+      "Signature image SHA-256", sha256Hex(PNG),
+      "Consent shown to the signer",
+    ]));
+    // The consent text is wrapped, but all there, word for word
+    const consentStart = text.indexOf("Consent shown to the signer") + 1;
+    expect(text.slice(consentStart, consentStart + 3).join(" ")).toBe(CONSENT);
+  });
+
+  test("lists each slot, and says what older metadata didn't record", async () => {
+    const text = await certificateText(await renderSignatureCertificate(metadata({
+      sessionId: undefined,
+      signerName: undefined,
+      consentText: undefined,
+      consentedAt: undefined,
+      documentsShown: undefined,
+      signatureSha256: undefined,
+      slots: [
+        { id: "initials-hiv", kind: "initials", signer: "Jane Q Patient", label: "Initial to release HIV test results", sha256: "ab".repeat(32) },
+        { id: "guardian", kind: "typedName", signer: "John Patient (parent)", text: "John Patient", capturedAt: "2026-10-18T18:04:40Z" },
+      ],
+    })));
+    expect(text).toEqual(expect.arrayContaining([
+      "Signers", "Jane Q Patient, John Patient (parent)",
+      "Initials", "Initial to release HIV test results (Jane Q Patient)", "ab".repeat(32),
+      "Typed name", "John Patient (parent)", "Name typed", "John Patient", "2026-10-18 18:04:40 UTC",
+    ]));
+    expect(text.filter((t) => t === "Not recorded")).toHaveLength(4);  // session id, a capture time, a hash, the consent
+  });
+});
+
+describe("signature metadata", () => {
+  test("rejects files that aren't poll-signature.ts metadata", () => {
+    const path = join(tempDir, "not-metadata.json");
+    writeFileSync(path, JSON.stringify({ signaturePath: "./signature.png" }));
+    expect(() => loadSignatureMetadata(path)).toThrow(/not a signature-metadata\.json/);
+    expect(() => loadSignatureMetadata(join(tempDir, "missing.json"))).toThrow(/not found/);
+  });
+
+  test("the consent text falls back to the audit log's consented entry", async () => {
+    const text = await certificateText(await renderSignatureCertificate(metadata({
+      consentText: undefined,
+      auditLog: [{ timestamp: "2026-10-18T18:05:00Z", event: "consented", consentText: "I agree to sign electronically." }],
+    })));
+    expect(text).toContain("I agree to sign electronically.");
+  });
+
+  test("warns when the signature placed is not the one recorded", () => {
+    expect(signatureMismatchWarning(metadata(), PNG)).toBeUndefined();
+    expect(signatureMismatchWarning(metadata(), Buffer.from("another image"))).toMatch(/SHA-256 differs/);
+    expect(signatureMismatchWarning(metadata({ signatureSha256: undefined }), Buffer.from("x"))).toBeUndefined();
+  });
+});
+
+describe("buildPackage", () => {
+  test("appends the certificate as the last page", async () => {
+    const signaturePath = join(tempDir, "signature.png");
+    const signatureMetadataPath = join(tempDir, "signature-metadata.json");
+    writeFileSync(signaturePath, PNG);
+    writeFileSync(signatureMetadataPath, JSON.stringify(metadata()));
+    const summary = await buildPackage({
+      outputDir: join(tempDir, "out"),
+      date: "10/18/2026",
+      patient: { name: "Jane Q Patient", dob: "01/02/1980", street: "1 Main St", cityStateZip: "Springfield, IL 62701" },
+      provider: { name: "Springfield Clinic", street: "2 Oak Ave", cityStateZip: "Springfield, IL 62702" },
+      form: { path: FORM_PATH, fieldMappings: { patientName: "patientName" }, signaturePosition: { x: 100, topY: 600, height: 20 } },
+      signaturePath,
+      signatureMetadataPath,
+      coverLetter: false,
+    });
+    expect(summary.pages.map((p) => p.part)).toEqual(["form", "appendix", "signature-certificate"]);
+    expect(summary.warnings).toEqual([]);
+    const pdf = await PDFDocument.load(readFileSync(summary.outputPath));
+    expect(extractPageText(pdf, pdf.getPageCount() - 1)[0].text).toBe("Electronic Signature Certificate");
+  });
+});
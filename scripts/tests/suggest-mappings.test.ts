@@ -0,0 +1,115 @@
+#!/usr/bin/env bun
+/**
+ * Tests for suggest-mappings.ts and the page text extraction it relies on
+ */
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { PDFDict, PDFDocument, PDFName, PDFString, StandardFonts } from "pdf-lib";
+import { suggestMappings } from "../suggest-mappings";
+import { extractPageText } from "../_pdf-text";
+
+const FORM_PATH = join(import.meta.dir, "..", "..", "templates", "right-of-access-form.pdf");
+
+/** A form with generic field names, so only labels, tooltips and export values say what they are */
+async function genericForm(): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([612, 792]);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const form = doc.getForm();
+  const label = (text: string, x: number, y: number) => page.drawText(text, { x, y, size: 10, font });
+  const textField = (name: string, x: number, y: number) => {
+    const field = form.createTextField(name);
+    field.addToPage(page, { x, y, width: 200, height: 18 });
+    return field;
+  };
+
+  label("Patient", 50, 740);
+  label("Name:", 50, 700);
+  textField("Text1", 90, 695);
+  textField("Text2", 320, 695).acroField.dict.set(PDFName.of("TU"), PDFString.of("Patient date of birth"));
+
+  label("Release records to:", 50, 640);
+  label("Name", 50, 620);
+  textField("Text3", 50, 598);
+
+  const checkBox = form.createCheckBox("CheckBox1");
+  checkBox.addToPage(page, { x: 50, y: 550, width: 12, height: 12 });
+  const appearances = checkBox.acroField.getWidgets()[0].dict.lookup(PDFName.of("AP"), PDFDict).lookup(PDFName.of("N"), PDFDict);
+  appearances.set(PDFName.of("Radiology"), appearances.get(PDFName.of("Yes"))!);
+  appearances.delete(PDFName.of("Yes"));
+
+  label("Dates of service from", 50, 505);
+  textField("Text4", 170, 500);
+  return doc.save();
+}
+
+describe("extractPageText", () => {
+  test("finds the labels on the blank request form, with their positions", async () => {
+    const doc = await PDFDocument.load(readFileSync(FORM_PATH));
+    const lines = extractPageText(doc, 0);
+    const dob = lines.find((l) => l.text === "Date of Birth");
+    expect(dob).toBeDefined();
+    expect(Math.round(dob!.x)).toBe(40);
+    expect(Math.round(dob!.y)).toBe(654);
+    expect(lines.map((l) => l.text)).toContain("Section 2: I Request Records From");
+  });
+
+  test("decodes pdf-lib's standard-font text", async () => {
+    const doc = await PDFDocument.load(await genericForm());
+    expect(extractPageText(doc, 0).map((l) => l.text)).toEqual([
+      "Patient", "Name:", "Release records to:", "Name", "Dates of service from",
+    ]);
+  });
+});
+
+describe("suggestMappings", () => {
+  test("maps the blank request form's fields", async () => {
+    const draft = await suggestMappings(readFileSync(FORM_PATH));
+    expect(draft.fieldMappings).toEqual({
+      patientName: "patientName",
+      dob: "dob",
+      patientStreet: "patientAddress",
+      phone: "phone",
+      providerName: "providerName",
+      providerStreet: "providerAddress",
+      recipientName: "recipientName",
+      recipientStreet: "recipientAddress",
+      email: "email",
+      recipientEmail: "recipientEmail",
+      date: "signatureDate",
+      includeImages: "includeDocuments",
+      ehiExport: "ehiExport",
+    });
+    expect(draft.signaturePosition).toEqual({ page: 0, x: 41, topY: 596, height: 18 });
+    expect(draft.missing).toEqual([]);
+    expect(draft.suggestions.find((s) => s.key === "dob")!.evidence).toContain('label above "Date of Birth"');
+  });
+
+  test("uses labels, section headings, tooltips and export values when names say nothing", async () => {
+    const draft = await suggestMappings(await genericForm());
+    expect(draft.fieldMappings).toEqual({
+      patientName: "Text1",
+      dob: "Text2",
+      recipientName: "Text3",
+      includeImages: "CheckBox1",
+    });
+    const byKey = Object.fromEntries(draft.suggestions.map((s) => [s.key, s]));
+    expect(byKey.patientName.evidence).toEqual(['label left of it "Name:"', 'below "Patient"']);
+    expect(byKey.dob.evidence).toEqual(['tooltip "Patient date of birth"']);
+    expect(byKey.recipientName.evidence).toContain('below "Release records to:"');
+    expect(byKey.includeImages.evidence).toEqual(['export value "Radiology"']);
+    // "Dates of service" is not the signature date
+    expect(draft.unmapped).toEqual(["Text4"]);
+    expect(draft.missing).toEqual(["date", "signature"]);
+    expect(draft.signaturePosition).toBeUndefined();
+  });
+
+  test("suggestions under the confidence threshold are reported, not drafted", async () => {
+    const draft = await suggestMappings(await genericForm(), { minConfidence: 0.95 });
+    expect(draft.fieldMappings.patientName).toBeUndefined();
+    expect(draft.uncertain.map((s) => s.key)).toContain("patientName");
+    expect(draft.missing).toContain("patientName");
+  });
+});
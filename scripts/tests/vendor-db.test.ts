@@ -0,0 +1,100 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for the vendor database snapshot cache
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  diffVendors,
+  listSnapshots,
+  loadAnalysis,
+  loadVendorDb,
+  pinnedSnapshotId,
+  pinSnapshot,
+  saveSnapshot,
+  type Vendor,
+} from "../_vendor-db";
+
+const EPIC: Vendor = { developer: "Epic Systems", product_name: "EpicCare", slug: "epic", grade: "A", export_formats: ["TSV"] };
+const ATHENA: Vendor = { developer: "athenahealth", product_name: "athenaClinicals", slug: "athena", grade: "B", export_formats: ["CSV"] };
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "vendor-db-test-"));
+  process.env.VENDOR_CACHE_DIR = tempDir;
+  // Nothing listens on port 9, so every fetch fails fast
+  process.env.VENDOR_DB_URL = "http://127.0.0.1:9";
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+  delete process.env.VENDOR_CACHE_DIR;
+  delete process.env.VENDOR_DB_URL;
+});
+
+describe("snapshots", () => {
+  test("identical vendors.json reuses the existing snapshot", () => {
+    const json = JSON.stringify([EPIC]);
+    const first = saveSnapshot(json, { epic: "# Epic" }, new Date("2026-01-01T00:00:00Z"));
+    const second = saveSnapshot(json, {}, new Date("2026-02-01T00:00:00Z"));
+    expect(first.created).toBe(true);
+    expect(first.meta.id).toBe("20260101T000000Z");
+    expect(second.created).toBe(false);
+    expect(second.meta.id).toBe(first.meta.id);
+    expect(listSnapshots()).toHaveLength(1);
+  });
+
+  test("pinning requires an existing snapshot", () => {
+    const { meta } = saveSnapshot(JSON.stringify([EPIC]));
+    pinSnapshot(meta.id);
+    expect(pinnedSnapshotId()).toBe(meta.id);
+    expect(() => pinSnapshot("19990101T000000Z")).toThrow(/No vendor snapshot/);
+  });
+});
+
+describe("loadVendorDb", () => {
+  test("uses the pinned snapshot without fetching", async () => {
+    const { meta } = saveSnapshot(JSON.stringify([EPIC, ATHENA]), { epic: "# Epic" });
+    pinSnapshot(meta.id);
+    const db = await loadVendorDb();
+    expect(db.snapshot).toBe(meta.id);
+    expect(db.vendors).toHaveLength(2);
+    expect(db.warning).toBeUndefined();
+    expect(await loadAnalysis(db, "epic")).toBe("# Epic");
+    expect(await loadAnalysis(db, "athena")).toBeNull();
+  });
+
+  test("live lookup falls back to the pinned snapshot when the fetch fails", async () => {
+    const { meta } = saveSnapshot(JSON.stringify([EPIC]));
+    pinSnapshot(meta.id);
+    const db = await loadVendorDb({ live: true });
+    expect(db.snapshot).toBe(meta.id);
+    expect(db.warning).toContain("using cached snapshot");
+  });
+
+  test("fails clearly with an empty cache and no network", async () => {
+    await expect(loadVendorDb()).rejects.toThrow(/no cached snapshot/);
+  });
+});
+
+describe("diffVendors", () => {
+  test("reports added, removed and changed vendors", () => {
+    const next = { ...ATHENA, grade: "A", export_formats: ["CSV", "JSON"], ehi_documentation_url: "https://example.com/ehi" };
+    const added: Vendor = { developer: "New Co", product_name: "NewEHR", slug: "new" };
+    const diff = diffVendors([EPIC, ATHENA], [next, added]);
+    expect(diff.added.map((v) => v.slug)).toEqual(["new"]);
+    expect(diff.removed.map((v) => v.slug)).toEqual(["epic"]);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].changes.map((c) => c.field)).toEqual(["grade", "export_formats", "ehi_documentation_url"]);
+    expect(diff.changed[0].changes[0]).toEqual({ field: "grade", from: "B", to: "A" });
+  });
+
+  test("ignores fields it doesn't track", () => {
+    const diff = diffVendors([EPIC], [{ ...EPIC, summary: "Updated summary" }]);
+    expect(diff.changed).toHaveLength(0);
+  });
+});
@@ -0,0 +1,91 @@
+#!/usr/bin/env bun
+/**
+ * Unit tests for ranked vendor matching and portal inference
+ */
+
+import { describe, test, expect } from "bun:test";
+import type { Vendor } from "../_vendor-db";
+import {
+  editDistance,
+  inferVendorFromPortal,
+  rankVendors,
+  rankVendorsForPortal,
+  scoreVendor,
+} from "../_vendor-match";
+
+const VENDORS: Vendor[] = [
+  { developer: "Epic Systems Corporation", product_name: "EpicCare Ambulatory EHR", slug: "epic-ambulatory" },
+  { developer: "athenahealth, Inc.", product_name: "athenaClinicals", slug: "athenaclinicals" },
+  { developer: "Oracle Health", product_name: "Millennium", family: "Cerner", slug: "cerner-millennium" },
+  { developer: "Veradigm", product_name: "Allscripts TouchWorks EHR", slug: "touchworks" },
+  { developer: "NextGen Healthcare", product_name: "NextGen Enterprise EHR", slug: "nextgen-enterprise" },
+];
+
+const names = (query: string) => rankVendors(VENDORS, query).map((m) => m.vendor.slug);
+
+describe("editDistance", () => {
+  test("counts an adjacent transposition as one edit", () => {
+    expect(editDistance("athena", "ahtena")).toBe(1);
+    expect(editDistance("cerner", "cerner")).toBe(0);
+    expect(editDistance("athenahealth", "athenahelth")).toBe(1);
+  });
+});
+
+describe("rankVendors", () => {
+  test("plain substring still matches", () => {
+    expect(names("epic")[0]).toBe("epic-ambulatory");
+  });
+
+  test("ignores spacing and punctuation", () => {
+    expect(names("athena health")[0]).toBe("athenaclinicals");
+  });
+
+  test("tolerates typos", () => {
+    expect(names("athenahelth")[0]).toBe("athenaclinicals");
+    expect(names("Cernr")[0]).toBe("cerner-millennium");
+  });
+
+  test("terms may come from different fields", () => {
+    expect(names("Cerner Millennium")[0]).toBe("cerner-millennium");
+    expect(names("allscripts touchworks")[0]).toBe("touchworks");
+  });
+
+  test("exact matches outrank partial ones", () => {
+    const [first, second] = rankVendors(
+      [{ developer: "Epic Systems", product_name: "Epic" }, { developer: "Epicenter Health", product_name: "Clinic" }],
+      "epic",
+    );
+    expect(first.vendor.developer).toBe("Epic Systems");
+    expect(first.score).toBeGreaterThan(second.score);
+  });
+
+  test("unrelated queries match nothing", () => {
+    expect(names("zzzz")).toEqual([]);
+    expect(scoreVendor(VENDORS[0], "   ")).toBe(0);
+  });
+});
+
+describe("inferVendorFromPortal", () => {
+  test("MyChart subdomains and paths", () => {
+    expect(inferVendorFromPortal("mychart.example.org")?.portal).toBe("MyChart");
+    expect(inferVendorFromPortal("https://www.example.org/MyChart/Authentication/Login")?.portal).toBe("MyChart");
+  });
+
+  test("vendor-hosted portal domains", () => {
+    const athena = inferVendorFromPortal("https://12345.portal.athenahealth.com/");
+    expect(athena?.portal).toBe("athenaPatient");
+    expect(athena?.host).toBe("12345.portal.athenahealth.com");
+    expect(inferVendorFromPortal("followmyhealth.com")?.vendorTerms).toContain("allscripts");
+  });
+
+  test("lookalike and unknown hosts don't match", () => {
+    expect(inferVendorFromPortal("notathenahealth.com")).toBeNull();
+    expect(inferVendorFromPortal("portal.example.org")).toBeNull();
+    expect(inferVendorFromPortal("not a url")).toBeNull();
+  });
+
+  test("rankVendorsForPortal returns the portal vendor's products", () => {
+    const inference = inferVendorFromPortal("example.followmyhealth.com")!;
+    expect(rankVendorsForPortal(VENDORS, inference).map((m) => m.vendor.slug)).toEqual(["touchworks"]);
+  });
+});
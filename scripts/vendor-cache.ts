@@ -0,0 +1,108 @@
+#!/usr/bin/env bun
+/**
+ * Manage the local cache of the EHI Export vendor database.
+ *
+ * Usage:
+ *   bun vendor-cache.ts refresh [--no-pin]     Fetch a new snapshot and pin it
+ *   bun vendor-cache.ts list                   List cached snapshots
+ *   bun vendor-cache.ts pin <snapshot-id>      Pin a snapshot for lookups
+ *   bun vendor-cache.ts diff [<from> [<to>]] [--json]
+ *                                              Show vendors that were added, removed, or changed
+ *                                              grade, coverage, formats, or documentation URL.
+ *                                              Defaults: <to> is the pinned snapshot, <from> the
+ *                                              snapshot before it.
+ *
+ * The cache lives at ~/.request-my-ehi/vendors (override with VENDOR_CACHE_DIR).
+ * See _vendor-db.ts for the layout.
+ */
+import {
+  cacheDir,
+  diffVendors,
+  listSnapshots,
+  loadSnapshot,
+  pinnedSnapshotId,
+  pinSnapshot,
+  refreshSnapshot,
+  type VendorDiff,
+} from './_vendor-db.ts';
+
+const argv = Bun.argv.slice(2);
+const args = argv.filter((a) => !a.startsWith('--'));
+const [command, ...rest] = args;
+
+function fail(message: string): never {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+}
+
+function printDiff(from: string, to: string, diff: VendorDiff) {
+  console.log(`Vendor database changes from ${from} to ${to}:\n`);
+  if (!diff.added.length && !diff.removed.length && !diff.changed.length) {
+    console.log('  (no changes)');
+    return;
+  }
+  for (const v of diff.added) console.log(`+ ${v.developer} | ${v.product_name} (grade ${v.grade || '?'})`);
+  for (const v of diff.removed) console.log(`- ${v.developer} | ${v.product_name}`);
+  for (const c of diff.changed) {
+    console.log(`~ ${c.developer} | ${c.product_name}`);
+    for (const { field, from, to } of c.changes) {
+      const show = (value: unknown) => (Array.isArray(value) ? value.join(', ') : value ?? '—');
+      console.log(`    ${field}: ${show(from)} -> ${show(to)}`);
+    }
+  }
+  console.log(`\n${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed.`);
+}
+
+switch (command) {
+  case 'refresh': {
+    try {
+      const { meta, created } = await refreshSnapshot({ pin: !argv.includes('--no-pin') });
+      console.log(created
+        ? `Fetched snapshot ${meta.id}: ${meta.vendorCount} vendors, ${meta.analysisCount} analyses`
+        : `Vendor database unchanged since snapshot ${meta.id}`);
+      if (!argv.includes('--no-pin')) console.log(`Pinned ${meta.id}`);
+    } catch (err) {
+      fail(`Could not refresh the vendor database: ${(err as Error).message}`);
+    }
+    break;
+  }
+
+  case 'list': {
+    const pinned = pinnedSnapshotId();
+    const snapshots = listSnapshots();
+    if (!snapshots.length) {
+      console.log(`No snapshots in ${cacheDir()}. Run: bun vendor-cache.ts refresh`);
+      break;
+    }
+    for (const s of snapshots) {
+      console.log(`${s.id === pinned ? '*' : ' '} ${s.id}  ${s.vendorCount} vendors  ${s.analysisCount} analyses  fetched ${s.fetchedAt}`);
+    }
+    break;
+  }
+
+  case 'pin': {
+    if (!rest[0]) fail('Usage: bun vendor-cache.ts pin <snapshot-id>');
+    try { pinSnapshot(rest[0]); } catch (err) { fail((err as Error).message); }
+    console.log(`Pinned ${rest[0]}`);
+    break;
+  }
+
+  case 'diff': {
+    const ids = listSnapshots().map((s) => s.id);
+    const to = rest[1] ?? (rest[0] ? pinnedSnapshotId() : pinnedSnapshotId() ?? ids.at(-1));
+    const from = rest[0] ?? (to ? ids[ids.indexOf(to) - 1] : undefined);
+    if (!from || !to) fail('Need two snapshots to compare; run refresh again later, or pass <from> <to>');
+    let diff: VendorDiff;
+    try { diff = diffVendors(loadSnapshot(from), loadSnapshot(to)); } catch (err) { fail((err as Error).message); }
+    if (argv.includes('--json')) {
+      console.log(JSON.stringify({ from, to, ...diff }, null, 2));
+    } else {
+      printDiff(from, to, diff);
+    }
+    break;
+  }
+
+  default:
+    console.error('Usage: bun vendor-cache.ts <refresh|list|pin|diff> [...]');
+    process.exit(1);
+}
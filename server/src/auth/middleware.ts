@@ -0,0 +1,57 @@
+/**
+ * Who is calling - requireScope() resolves the caller's bearer token and
+ * guards an endpoint with one of its scopes
+ *
+ * Unless REQUIRE_API_TOKEN is set, a caller may come without a token: what it
+ * creates has no owner and is open to anyone holding its id, as before tokens.
+ * A token that is sent must still be valid and carry the scope. Jobs and
+ * sessions created with a token are visible to that token only.
+ */
+
+import type { Context, MiddlewareHandler } from "hono";
+import { config } from "../config.ts";
+import { logger } from "../logger.ts";
+import { findToken, type ApiToken, type Scope } from "./tokens.ts";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    apiToken?: ApiToken;
+  }
+}
+
+export function bearerToken(c: Context): string | undefined {
+  return c.req.header("authorization")?.match(/^Bearer\s+(\S+)\s*$/i)?.[1];
+}
+
+export function requireScope(scope: Scope): MiddlewareHandler {
+  return async (c, next) => {
+    const secret = bearerToken(c);
+    if (!secret) {
+      if (config.requireApiToken) {
+        return c.json({ error: "An API token is required", code: "token_required" }, 401);
+      }
+      return next();
+    }
+    const token = findToken(secret);
+    if (!token) {
+      logger.apiTokenRejected("invalid");
+      return c.json({ error: "Invalid or revoked API token", code: "invalid_token" }, 401);
+    }
+    if (!token.scopes.includes(scope)) {
+      logger.apiTokenRejected("missing_scope", token.id);
+      return c.json({ error: `API token lacks the '${scope}' scope`, code: "missing_scope", scope }, 403);
+    }
+    c.set("apiToken", token);
+    await next();
+  };
+}
+
+/** The id of the caller's token, to record as the owner of what it creates */
+export function callerId(c: Context): string | undefined {
+  return c.get("apiToken")?.id;
+}
+
+/** Whether the caller may see a job or session; others get a 404, as if it didn't exist */
+export function isVisibleTo(c: Context, record: { owner?: string }): boolean {
+  return !record.owner || record.owner === callerId(c);
+}
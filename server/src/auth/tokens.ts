@@ -0,0 +1,91 @@
+/**
+ * API tokens - issued by the relay's operator (see manage-tokens.ts), sent by
+ * clients as `Authorization: Bearer <token>`
+ *
+ * A token carries scopes, and the fax jobs and signature sessions created with
+ * it belong to it (their `owner` is the token's id). Only a SHA-256 of the
+ * secret is stored, in the same SQLite database as the events, whichever
+ * STORE_BACKEND holds the jobs; the secret itself is shown once, when issued.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { db } from "../db.ts";
+
+export const SCOPES = ["fax:send", "fax:read", "signature:create"] as const;
+export type Scope = (typeof SCOPES)[number];
+
+export interface ApiToken {
+  id: string; // public; what jobs and sessions record as their owner
+  name: string; // who it was issued to, e.g. "Alice (volunteer)"
+  scopes: Scope[];
+  createdAt: string;
+  revokedAt?: string;
+}
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS api_tokens (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    token_sha256 TEXT NOT NULL UNIQUE,
+    scopes TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    revoked_at TEXT
+  )
+`);
+
+type TokenRow = { id: string; name: string; scopes: string; created_at: string; revoked_at: string | null };
+
+function fromRow(row: TokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    scopes: row.scopes.split(",").filter(Boolean) as Scope[],
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at ?? undefined,
+  };
+}
+
+function sha256(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+export function resolveScopes(raw: string[]): Scope[] {
+  if (!raw.length) throw new Error(`at least one scope is required (${SCOPES.join(", ")})`);
+  for (const scope of raw) {
+    if (!SCOPES.includes(scope as Scope)) {
+      throw new Error(`unknown scope "${scope}" (expected ${SCOPES.join(", ")})`);
+    }
+  }
+  return [...new Set(raw)] as Scope[];
+}
+
+/** Create a token; `secret` is what the client sends and is not kept */
+export function issueToken(name: string, scopes: Scope[]): { token: ApiToken; secret: string } {
+  const token: ApiToken = {
+    id: `tok_${randomBytes(6).toString("hex")}`,
+    name,
+    scopes,
+    createdAt: new Date().toISOString(),
+  };
+  const secret = `ehi_${randomBytes(32).toString("base64url")}`;
+  db.prepare("INSERT INTO api_tokens (id, name, token_sha256, scopes, created_at) VALUES (?, ?, ?, ?, ?)")
+    .run(token.id, name, sha256(secret), scopes.join(","), token.createdAt);
+  return { token, secret };
+}
+
+/** The live (unrevoked) token `secret` belongs to */
+export function findToken(secret: string): ApiToken | undefined {
+  const row = db.query("SELECT * FROM api_tokens WHERE token_sha256 = ? AND revoked_at IS NULL").get(sha256(secret));
+  return row ? fromRow(row as TokenRow) : undefined;
+}
+
+export function listTokens(): ApiToken[] {
+  return (db.query("SELECT * FROM api_tokens ORDER BY created_at").all() as TokenRow[]).map(fromRow);
+}
+
+/** Returns false if there is no such token, or it was already revoked */
+export function revokeToken(id: string): boolean {
+  const result = db.prepare("UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL")
+    .run(new Date().toISOString(), id);
+  return result.changes > 0;
+}
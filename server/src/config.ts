@@ -1,5 +1,45 @@
+// Premium-rate NANP numbers and the Caribbean countries that share +1; calls
+// there are billed at international rates, which is where fax fraud goes
+const DEFAULT_BLOCKED_FAX_PREFIXES =
+  "+1900,+1976,+1242,+1246,+1264,+1268,+1284,+1345,+1441,+1473,+1649,+1658,+1664,+1721," +
+  "+1758,+1767,+1784,+1809,+1829,+1849,+1868,+1869,+1876";
+
+const prefixList = (value: string) => value.split(",").map((s) => s.trim()).filter(Boolean);
+
 export const config = {
   port: parseInt(process.env.PORT || "8000", 10),
   baseUrl: process.env.BASE_URL || `http://localhost:${process.env.PORT || "8000"}`,
   sessionTtlMs: parseInt(process.env.SESSION_TTL_MS || "900000", 10), // 15 min default
+  signaturePreviewMaxBytes: parseInt(process.env.SIGNATURE_PREVIEW_MAX_BYTES || "15000000", 10), // base64 ciphertext
+  // Reverse proxies in front of the relay that append to X-Forwarded-For; 0 =
+  // clients connect directly, and the header is ignored (anyone can send it)
+  trustProxyHops: parseInt(process.env.TRUST_PROXY_HOPS || "0", 10),
+  requireApiToken: process.env.REQUIRE_API_TOKEN === "true", // else anonymous callers are still served
+  storeBackend: process.env.STORE_BACKEND || "sqlite", // "sqlite" | "memory"
+  faxProviders: (process.env.FAX_PROVIDERS || "").split(",").map((s) => s.trim()).filter(Boolean), // failover order, see fax/index.ts
+  faxMaxPages: parseInt(process.env.FAX_MAX_PAGES || "50", 10),
+  faxMaxUploadBytes: parseInt(process.env.FAX_MAX_UPLOAD_BYTES || "20000000", 10), // the PDF, before base64
+  faxDailyQuota: parseInt(process.env.FAX_DAILY_QUOTA || "500", 10), // dial attempts, all clients together, per UTC day
+  faxAllowedPrefixes: prefixList(process.env.FAX_ALLOWED_PREFIXES ?? "+1"), // empty = anywhere not blocked
+  faxBlockedPrefixes: prefixList(process.env.FAX_BLOCKED_PREFIXES ?? DEFAULT_BLOCKED_FAX_PREFIXES),
+  faxReceiptSigningKey: process.env.FAX_RECEIPT_SIGNING_KEY, // Ed25519 PKCS#8 PEM; generated into data/ if unset
+  faxRecordRetentionDays: parseInt(process.env.FAX_RECORD_RETENTION_DAYS || "90", 10), // status and receipt data; the PDF goes after an hour
+  faxWebhookMaxAgeMs: parseInt(process.env.FAX_WEBHOOK_MAX_AGE_MS || "3600000", 10), // 1 hour
+  faxRetry: {
+    maxAttempts: parseInt(process.env.FAX_RETRY_MAX_ATTEMPTS || "3", 10),
+    backoffMs: parseInt(process.env.FAX_RETRY_BACKOFF_MS || "300000", 10), // 5 min before first retry
+    backoffMultiplier: parseFloat(process.env.FAX_RETRY_BACKOFF_MULTIPLIER || "2"),
+    // Bounds on what a client may ask for in a send's `retry`
+    maxAttemptsLimit: parseInt(process.env.FAX_RETRY_MAX_ATTEMPTS_LIMIT || "5", 10),
+    minBackoffMs: parseInt(process.env.FAX_RETRY_MIN_BACKOFF_MS || "60000", 10), // 1 min
+    maxFallbackNumbers: parseInt(process.env.FAX_RETRY_MAX_FALLBACK_NUMBERS || "3", 10),
+  },
+  // Per client, in fixed windows; 0 turns a limit off. See limits.ts
+  rateLimits: {
+    windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || "3600000", 10), // 1 hour
+    signatureSessionsPerIp: parseInt(process.env.RATE_LIMIT_SIGNATURE_SESSIONS_PER_IP || "60", 10),
+    signatureSessionsPerToken: parseInt(process.env.RATE_LIMIT_SIGNATURE_SESSIONS_PER_TOKEN || "600", 10),
+    faxSendsPerIp: parseInt(process.env.RATE_LIMIT_FAX_SENDS_PER_IP || "30", 10), // dial attempts, like the daily quota
+    faxSendsPerToken: parseInt(process.env.RATE_LIMIT_FAX_SENDS_PER_TOKEN || "300", 10),
+  },
 };
@@ -1,6 +1,7 @@
 /**
  * SQLite database for persistent event logging and dashboard stats.
- * Uses Bun's built-in SQLite support.
+ * Uses Bun's built-in SQLite support. The same database also backs the
+ * sqlite store (store/sqlite.ts).
  */
 import { Database } from "bun:sqlite";
 import { join, dirname } from "path";
@@ -11,7 +12,7 @@ const dbPath = join(dirname(import.meta.dir), "data", "events.db");
 import { mkdirSync } from "fs";
 mkdirSync(dirname(dbPath), { recursive: true });
 
-const db = new Database(dbPath);
+export const db = new Database(dbPath);
 
 // Create events table
 db.run(`
@@ -33,7 +34,8 @@ export type EventType =
   | "fax_sent"
   | "fax_delivered"
   | "fax_failed"
-  | "skill_download";
+  | "skill_download"
+  | "rate_limited";
 
 export function recordEvent(eventType: EventType, metadata: Record<string, unknown> = {}) {
   const stmt = db.prepare(
@@ -57,6 +59,7 @@ export function getDashboardStats(): DashboardStats {
     "fax_delivered",
     "fax_failed",
     "skill_download",
+    "rate_limited",
   ];
 
   const emptyCount = (): Record<EventType, number> => 
@@ -0,0 +1,146 @@
+/**
+ * Fax transmittal (cover) sheet, rendered with pdf-lib
+ */
+
+import { PDFDocument, rgb, StandardFonts, type PDFFont, type PDFPage, type RGB } from "pdf-lib";
+
+export interface CoverSheetParty {
+  name?: string;
+  organization?: string;
+  phone?: string;
+  fax?: string;
+}
+
+export interface CoverSheetOptions {
+  from?: CoverSheetParty;
+  to?: CoverSheetParty;
+  subject?: string;
+  note?: string;
+}
+
+const DARK_BLUE = rgb(0x1a / 255, 0x3c / 255, 0x5e / 255);
+const GRAY = rgb(0.45, 0.45, 0.45);
+const BLACK = rgb(0, 0, 0);
+
+const PAGE_W = 612, PAGE_H = 792;
+const ML = 58, MR = 58;
+const CW = PAGE_W - ML - MR;
+
+const CONFIDENTIALITY_NOTICE =
+  "CONFIDENTIALITY NOTICE: This facsimile contains protected health information that is " +
+  "privileged and confidential under federal and state law. It is intended only for the use of " +
+  "the recipient named above. If you are not the intended recipient, any review, disclosure, " +
+  "copying, or distribution is prohibited. If you received this fax in error, please notify the " +
+  "sender immediately and destroy all copies.";
+
+/**
+ * Render a one-page cover sheet. `totalPages` is the full transmission,
+ * cover sheet included.
+ */
+export async function renderCoverSheet(
+  options: CoverSheetOptions,
+  to: string,
+  totalPages: number
+): Promise<PDFDocument> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([PAGE_W, PAGE_H]);
+  const hb = await doc.embedFont(StandardFonts.HelveticaBold);
+  const h = await doc.embedFont(StandardFonts.Helvetica);
+  const ho = await doc.embedFont(StandardFonts.HelveticaOblique);
+
+  let y = PAGE_H - 72;
+  page.drawText("FAX", { x: ML, y, size: 36, font: hb, color: DARK_BLUE });
+  y -= 20;
+  page.drawText("Transmittal Sheet", { x: ML, y, size: 12, font: ho, color: GRAY });
+  y -= 14;
+  page.drawLine({ start: { x: ML, y }, end: { x: PAGE_W - MR, y }, thickness: 0.75, color: DARK_BLUE });
+  y -= 30;
+
+  const party = (p: CoverSheetParty | undefined) =>
+    [p?.name, p?.organization].filter(Boolean).join(", ") || "—";
+
+  const rows: Array<[string, string]> = [
+    ["To:", party(options.to)],
+    ["Fax:", options.to?.fax || to],
+    ["From:", party(options.from)],
+  ];
+  if (options.from?.phone) rows.push(["Phone:", options.from.phone]);
+  if (options.from?.fax) rows.push(["Reply fax:", options.from.fax]);
+  rows.push(["Date:", new Date().toLocaleDateString("en-US", { month: "2-digit", day: "2-digit", year: "numeric" })]);
+  rows.push(["Pages:", `${totalPages} (including this cover sheet)`]);
+  if (options.subject) rows.push(["Re:", options.subject]);
+
+  for (const [label, value] of rows) {
+    page.drawText(label, { x: ML, y, size: 12, font: hb, color: DARK_BLUE });
+    y = drawWrapped(page, value, ML + 90, y, 12, CW - 90, 17, h, BLACK);
+    y -= 8;
+  }
+
+  if (options.note) {
+    y -= 16;
+    page.drawText("Message:", { x: ML, y, size: 12, font: hb, color: DARK_BLUE });
+    y -= 18;
+    y = drawWrapped(page, options.note, ML, y, 11, CW, 16, h, BLACK);
+  }
+
+  // Confidentiality notice pinned to the bottom of the page
+  page.drawLine({ start: { x: ML, y: 150 }, end: { x: PAGE_W - MR, y: 150 }, thickness: 0.3, color: GRAY });
+  drawWrapped(page, CONFIDENTIALITY_NOTICE, ML, 132, 9, CW, 13, ho, GRAY);
+
+  return doc;
+}
+
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+
+/**
+ * `text` as `font` can draw it. The standard fonts only cover WinAnsi, and
+ * names and file names come from clients, so accents are dropped where that
+ * helps ("Zoë" → "Zoe") and anything else becomes "?" rather than an error.
+ */
+export function encodableText(text: string, font: PDFFont): string {
+  let charset = characterSets.get(font);
+  if (!charset) {
+    charset = new Set(font.getCharacterSet());
+    characterSets.set(font, charset);
+  }
+  let out = "";
+  for (const char of text) {
+    if (/\s/.test(char) || charset.has(char.codePointAt(0)!)) {
+      out += char;
+      continue;
+    }
+    const base = char.normalize("NFKD").replace(/\p{M}/gu, "");
+    out += base && [...base].every((c) => charset.has(c.codePointAt(0)!)) ? base : "?";
+  }
+  return out;
+}
+
+/** Draw `text` wrapped to `maxWidth`; returns the y below the last line */
+export function drawWrapped(
+  page: PDFPage,
+  text: string,
+  x: number,
+  y: number,
+  size: number,
+  maxWidth: number,
+  leading: number,
+  font: PDFFont,
+  color: RGB
+): number {
+  for (const paragraph of encodableText(text, font).split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+        page.drawText(line, { x, y, size, font, color });
+        y -= leading;
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) page.drawText(line, { x, y, size, font, color });
+    y -= leading;
+  }
+  return y;
+}
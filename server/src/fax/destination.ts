@@ -0,0 +1,48 @@
+/**
+ * Fax destination policy - which numbers the relay will dial
+ *
+ * Numbers are normalized to +<country code><number>. A number has to start
+ * with one of config.faxAllowedPrefixes (by default +1, the US and Canada) and
+ * must not start with any of config.faxBlockedPrefixes (premium-rate and
+ * Caribbean area codes that share +1). Medical records offices are domestic;
+ * a fax gateway that dials anywhere is a toll-fraud target.
+ */
+
+import { config } from "../config.ts";
+
+export class DestinationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DestinationError";
+  }
+}
+
+export interface DestinationPolicy {
+  allowedPrefixes: string[];
+  blockedPrefixes: string[];
+}
+
+/** "(555) 123-4567" / "1-555-123-4567" / "011 44 20..." -> "+15551234567" / "+4420..." */
+export function normalizeFaxNumber(number: string): string {
+  const digits = number.replace(/\D/g, "");
+  if (number.trim().startsWith("+")) return `+${digits}`;
+  if (digits.startsWith("011")) return `+${digits.slice(3)}`;
+  if (digits.length === 10) return `+1${digits}`;
+  return `+${digits}`;
+}
+
+/** Throws DestinationError if `number` is not one the policy lets the relay dial */
+export function checkDestination(
+  number: string,
+  policy: DestinationPolicy = { allowedPrefixes: config.faxAllowedPrefixes, blockedPrefixes: config.faxBlockedPrefixes }
+): void {
+  const normalized = normalizeFaxNumber(number);
+  const matches = (prefix: string) => normalized.startsWith(normalizeFaxNumber(prefix));
+  if (policy.allowedPrefixes.length && !policy.allowedPrefixes.some(matches)) {
+    throw new DestinationError(`This relay only sends faxes to numbers starting ${policy.allowedPrefixes.join(", ")}`);
+  }
+  const blocked = policy.blockedPrefixes.find(matches);
+  if (blocked) {
+    throw new DestinationError(`This relay does not send faxes to numbers starting ${blocked} (premium-rate or international)`);
+  }
+}
@@ -1,32 +1,96 @@
 /**
- * Fax provider factory - returns configured provider based on env
+ * Fax provider factory - builds the provider failover chain from config
+ *
+ * FAX_PROVIDERS is an ordered, comma-separated list. Each entry is a provider
+ * name ("sinch", "phaxio", "simulated") or a simulated stand-in for one
+ * ("simulated:<name>", with a ":fail" suffix for one whose sends always error).
+ * Unset, it falls back to Sinch if configured, otherwise simulated.
  */
 
-import type { FaxProvider } from "./types.ts";
-import { simulatedProvider } from "./simulated.ts";
+import { config } from "../config.ts";
+import type { FaxProvider, FaxSendRequest, FaxResult } from "./types.ts";
+import { simulatedProvider, createSimulatedProvider, isSimulatedProvider } from "./simulated.ts";
 import { sinchProvider, isConfigured as sinchConfigured } from "./sinch.ts";
+import { phaxioProvider, isConfigured as phaxioConfigured } from "./phaxio.ts";
 
-export type { FaxProvider, FaxSendRequest, FaxResult, FaxStatusResult } from "./types.ts";
-export { simulateStatusChange } from "./simulated.ts";
+export type { FaxProvider, FaxSendRequest, FaxResult, FaxStatusResult, FaxWebhookEvent } from "./types.ts";
+export { simulateStatusChange, simulatedCallbackUrl, createSimulatedProvider, isSimulatedProvider } from "./simulated.ts";
 
-let _isSimulatedMode: boolean | null = null;
+const realProviders: Record<string, { provider: FaxProvider; isConfigured: () => boolean }> = {
+  sinch: { provider: sinchProvider, isConfigured: sinchConfigured },
+  phaxio: { provider: phaxioProvider, isConfigured: phaxioConfigured },
+};
 
-export function isSimulatedMode(): boolean {
-  if (_isSimulatedMode === null) {
-    _isSimulatedMode = !sinchConfigured();
+function buildProviderChain(): FaxProvider[] {
+  const entries = config.faxProviders;
+  if (entries.length === 0) {
+    return [sinchConfigured() ? sinchProvider : simulatedProvider];
   }
-  return _isSimulatedMode;
+
+  return entries.map((entry) => {
+    const [kind, standInFor, flag] = entry.split(":");
+    if (kind === "simulated") {
+      return standInFor
+        ? createSimulatedProvider(standInFor, {
+            failSends: flag === "fail",
+            parseWebhook: realProviders[standInFor]?.provider.parseWebhook,
+          })
+        : simulatedProvider;
+    }
+    const real = realProviders[kind];
+    if (!real) {
+      throw new Error(`Unknown fax provider "${kind}" in FAX_PROVIDERS`);
+    }
+    if (!real.isConfigured()) {
+      throw new Error(`Fax provider "${kind}" is listed in FAX_PROVIDERS but not configured`);
+    }
+    return real.provider;
+  });
 }
 
-export function getFaxProvider(): FaxProvider {
-  // Use Sinch if configured, otherwise simulated
-  if (sinchConfigured()) {
-    console.log("[Fax] Using Sinch provider");
-    return sinchProvider;
+let _chain: FaxProvider[] | null = null;
+
+export function getFaxProviderChain(): FaxProvider[] {
+  if (_chain === null) {
+    _chain = buildProviderChain();
+    console.log(`[Fax] Provider chain: ${_chain.map((p) => p.name).join(" -> ")}`);
+  }
+  return _chain;
+}
+
+export function getFaxProviderByName(name: string | undefined): FaxProvider | undefined {
+  return getFaxProviderChain().find((p) => p.name === name);
+}
+
+export function isSimulatedMode(): boolean {
+  return getFaxProviderChain().every(isSimulatedProvider);
+}
+
+/**
+ * Send via the first provider in the chain that accepts the fax. A provider
+ * that throws is logged and skipped, and its error returned in `failures`;
+ * if every provider throws, so does this.
+ */
+export async function sendWithFailover(
+  request: Omit<FaxSendRequest, "callbackUrl">,
+  callbackUrlFor: (provider: string) => string
+): Promise<FaxResult & { provider: string; failures: string[] }> {
+  const errors: string[] = [];
+  for (const provider of getFaxProviderChain()) {
+    try {
+      const result = await provider.send({
+        ...request,
+        callbackUrl: callbackUrlFor(provider.name),
+      });
+      return { ...result, provider: provider.name, failures: errors };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[Fax] ${provider.name} send failed, trying next provider: ${message}`);
+      errors.push(`${provider.name}: ${message}`);
+    }
   }
-  console.log("[Fax] Using simulated provider");
-  return simulatedProvider;
+  throw new Error(errors.join("; "));
 }
 
 // Export for explicit selection
-export { simulatedProvider, sinchProvider };
+export { simulatedProvider, sinchProvider, phaxioProvider };
@@ -0,0 +1,148 @@
+/**
+ * Phaxio fax provider
+ * https://www.phaxio.com/docs/api/v2.1/
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { config } from "../config.ts";
+import type { FaxProvider, FaxSendRequest, FaxResult, FaxStatusResult, FaxWebhookEvent } from "./types.ts";
+
+const API_KEY = process.env.PHAXIO_API_KEY || '';
+const API_SECRET = process.env.PHAXIO_API_SECRET || '';
+const CALLBACK_TOKEN = process.env.PHAXIO_CALLBACK_TOKEN || '';
+const BASE_URL = process.env.PHAXIO_BASE_URL || 'https://api.phaxio.com/v2.1';
+
+function getAuthHeader(): string {
+  return `Basic ${Buffer.from(`${API_KEY}:${API_SECRET}`).toString('base64')}`;
+}
+
+function mapStatus(phaxioStatus: string): FaxResult["status"] {
+  switch (phaxioStatus) {
+    case "queued":
+    case "pendingbatch": return "queued";
+    case "inprogress": return "sending";
+    case "success": return "delivered";
+    case "failure":
+    case "partialsuccess": return "failed";
+    default: return "queued";
+  }
+}
+
+// Phaxio reports errors per recipient; we only ever send to one
+function errorMessage(fax: any): string | undefined {
+  return fax.error_message || fax.recipients?.[0]?.error_message || undefined;
+}
+
+export function isConfigured(): boolean {
+  return !!(API_KEY && API_SECRET);
+}
+
+export const phaxioProvider: FaxProvider = {
+  name: "phaxio",
+
+  async send(request: FaxSendRequest): Promise<FaxResult> {
+    const to = request.to.startsWith('+') ? request.to : `+${request.to}`;
+    const filename = request.filename || 'document.pdf';
+
+    const formData = new FormData();
+    formData.append('to', to);
+    formData.append('file', new Blob([request.fileBuffer], { type: 'application/pdf' }), filename);
+    if (request.callbackUrl && request.callbackUrl.startsWith('http')) {
+      formData.append('callback_url', request.callbackUrl);
+    }
+
+    console.log(`[Phaxio] Sending fax to ${to}`);
+
+    const response = await fetch(`${BASE_URL}/faxes`, {
+      method: 'POST',
+      headers: { 'Authorization': getAuthHeader() },
+      body: formData,
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      console.error(`[Phaxio] Error ${response.status}: ${text}`);
+      throw new Error(`Phaxio API error: ${text}`);
+    }
+
+    const result = JSON.parse(text);
+    if (!result.success) {
+      throw new Error(`Phaxio API error: ${result.message}`);
+    }
+    const id = String(result.data.id);
+    console.log(`[Phaxio] Created fax ${id}`);
+
+    return { providerFaxId: id, status: "queued" };
+  },
+
+  async getStatus(providerFaxId: string): Promise<FaxStatusResult> {
+    const response = await fetch(`${BASE_URL}/faxes/${providerFaxId}`, {
+      method: 'GET',
+      headers: { 'Authorization': getAuthHeader() },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Phaxio API error: ${text}`);
+    }
+
+    const { data: fax } = await response.json();
+    return {
+      status: mapStatus(fax.status),
+      pageCount: fax.num_pages,
+      completedAt: fax.completed_at,
+      error: errorMessage(fax),
+    };
+  },
+
+  // Phaxio posts multipart/form-data with the fax object as a "fax" JSON part
+  async parseWebhook(request: Request): Promise<FaxWebhookEvent | null> {
+    const contentType = request.headers.get("content-type") || "";
+    let fax: any;
+    if (contentType.includes("multipart/form-data")) {
+      const faxJson = (await request.formData()).get("fax");
+      if (faxJson && typeof faxJson === "string") fax = JSON.parse(faxJson);
+    } else {
+      const body = await request.json();
+      fax = body.fax || body;
+    }
+
+    if (!fax?.id) return null;
+    return {
+      providerFaxId: String(fax.id),
+      status: mapStatus(fax.status),
+      pageCount: fax.num_pages,
+      error: errorMessage(fax),
+      timestamp: fax.completed_at || fax.created_at,
+    };
+  },
+
+  // X-Phaxio-Signature: HMAC-SHA1 (keyed with the account's callback token)
+  // over the callback URL, then each sorted form field's name and value, then
+  // each sorted file's name and SHA-1. Skipped when no token is configured.
+  async verifyWebhook(request: Request): Promise<boolean> {
+    if (!CALLBACK_TOKEN) return true;
+    const signature = request.headers.get("x-phaxio-signature");
+    if (!signature) return false;
+
+    // Phaxio signs the URL it called, which is the public one we handed it
+    const url = new URL(request.url);
+    let signed = `${config.baseUrl}${url.pathname}${url.search}`;
+
+    const contentType = request.headers.get("content-type") || "";
+    if (contentType.includes("multipart/form-data") || contentType.includes("x-www-form-urlencoded")) {
+      const entries = Array.from((await request.formData()).entries());
+      const fields = entries.filter(([, v]) => typeof v === "string").sort(([a], [b]) => a.localeCompare(b));
+      const files = entries.filter(([, v]) => typeof v !== "string").sort(([a], [b]) => a.localeCompare(b));
+      for (const [name, value] of fields) signed += name + value;
+      for (const [name, file] of files) {
+        const bytes = Buffer.from(await (file as unknown as Blob).arrayBuffer());
+        signed += name + createHash("sha1").update(bytes).digest("hex");
+      }
+    }
+
+    const expected = Buffer.from(createHmac("sha1", CALLBACK_TOKEN).update(signed).digest("hex"));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  },
+};
@@ -0,0 +1,66 @@
+/**
+ * Fax preflight - validate the document before it reaches a provider
+ *
+ * Parses the upload with pdf-lib, rejects anything that isn't an unencrypted
+ * PDF, counts pages, enforces the page limit, and optionally prepends a
+ * transmittal sheet.
+ */
+
+import { PDFDocument } from "pdf-lib";
+import { config } from "../config.ts";
+import { renderCoverSheet, type CoverSheetOptions } from "./cover-sheet.ts";
+
+export type { CoverSheetOptions } from "./cover-sheet.ts";
+
+export class PreflightError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PreflightError";
+  }
+}
+
+export interface PreflightResult {
+  fileBuffer: Buffer;
+  pages: number; // total transmitted pages, cover sheet included
+  coverSheet: boolean;
+}
+
+export async function preflightFax(
+  fileBuffer: Buffer,
+  options: { to: string; coverSheet?: CoverSheetOptions; maxPages?: number }
+): Promise<PreflightResult> {
+  const maxPages = options.maxPages ?? config.faxMaxPages;
+
+  if (fileBuffer.subarray(0, 1024).indexOf("%PDF-") === -1) {
+    throw new PreflightError("File is not a PDF");
+  }
+
+  let doc: PDFDocument;
+  try {
+    doc = await PDFDocument.load(fileBuffer, { ignoreEncryption: true });
+  } catch (err) {
+    throw new PreflightError(`Could not parse PDF: ${err instanceof Error ? err.message : err}`);
+  }
+  if (doc.isEncrypted) {
+    throw new PreflightError("PDF is encrypted or password-protected; fax machines cannot open it");
+  }
+
+  const documentPages = doc.getPageCount();
+  if (documentPages === 0) {
+    throw new PreflightError("PDF has no pages");
+  }
+
+  const pages = documentPages + (options.coverSheet ? 1 : 0);
+  if (pages > maxPages) {
+    throw new PreflightError(`Fax has ${pages} pages; the limit is ${maxPages}`);
+  }
+
+  if (!options.coverSheet) {
+    return { fileBuffer, pages, coverSheet: false };
+  }
+
+  const merged = await renderCoverSheet(options.coverSheet, options.to, pages);
+  const copied = await merged.copyPages(doc, doc.getPageIndices());
+  for (const page of copied) merged.addPage(page);
+  return { fileBuffer: Buffer.from(await merged.save()), pages, coverSheet: true };
+}
@@ -0,0 +1,205 @@
+/**
+ * Delivery confirmation receipts for delivered faxes
+ *
+ * A receipt is proof that a request went out, and when - the date that starts
+ * the provider's 30-day HIPAA clock. The receipt data is signed with the
+ * relay's Ed25519 key (public half at GET /api/fax/receipt-key), rendered as
+ * a PDF (one page, plus continuation pages for a long transmission history),
+ * and the signed JSON is attached to the PDF so the receipt
+ * can be checked without the relay's database.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, type KeyObject } from "crypto";
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import { join, dirname } from "path";
+import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
+import { config } from "../config.ts";
+import type { FaxJob } from "../store/types.ts";
+import { drawWrapped } from "./cover-sheet.ts";
+
+export class ReceiptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReceiptError";
+  }
+}
+
+export interface FaxReceipt {
+  faxId: string;
+  provider: string;
+  providerFaxId: string;
+  to: string;
+  filename: string;
+  pages?: number;
+  documentSha256: string;
+  submittedAt: string;
+  deliveredAt: string;
+  events: FaxJob["events"];
+  issuedAt: string;
+}
+
+export interface SignedFaxReceipt {
+  receipt: FaxReceipt;
+  algorithm: "Ed25519";
+  keyFingerprint: string;
+  signature: string; // base64, over JSON.stringify(receipt)
+}
+
+const DARK_BLUE = rgb(0x1a / 255, 0x3c / 255, 0x5e / 255);
+const GRAY = rgb(0.45, 0.45, 0.45);
+const BLACK = rgb(0, 0, 0);
+
+const PAGE_W = 612, PAGE_H = 792;
+const ML = 58, MR = 58;
+const CW = PAGE_W - ML - MR;
+
+const keyPath = join(dirname(import.meta.dir), "..", "data", "receipt-signing-key.pem");
+
+let signingKey: KeyObject | undefined;
+
+// FAX_RECEIPT_SIGNING_KEY (PKCS#8 PEM) if set; otherwise a key generated on
+// first use and kept next to the database, so receipts stay verifiable
+// across restarts.
+function getSigningKey(): KeyObject {
+  if (signingKey) return signingKey;
+  if (config.faxReceiptSigningKey) {
+    signingKey = createPrivateKey(config.faxReceiptSigningKey);
+  } else if (existsSync(keyPath)) {
+    signingKey = createPrivateKey(readFileSync(keyPath, "utf8"));
+  } else {
+    const { privateKey } = generateKeyPairSync("ed25519");
+    mkdirSync(dirname(keyPath), { recursive: true });
+    writeFileSync(keyPath, privateKey.export({ type: "pkcs8", format: "pem" }), { mode: 0o600 });
+    signingKey = privateKey;
+  }
+  return signingKey;
+}
+
+export function receiptPublicKeyPem(): string {
+  return createPublicKey(getSigningKey()).export({ type: "spki", format: "pem" }).toString();
+}
+
+function keyFingerprint(): string {
+  const der = createPublicKey(getSigningKey()).export({ type: "spki", format: "der" });
+  return createHash("sha256").update(der).digest("hex");
+}
+
+export function buildSignedReceipt(job: FaxJob, now = new Date()): SignedFaxReceipt {
+  if (job.status !== "delivered") {
+    throw new ReceiptError(`Fax is ${job.status}; receipts are only issued for delivered faxes`);
+  }
+
+  const receipt: FaxReceipt = {
+    faxId: job.id,
+    provider: job.provider || "simulated",
+    providerFaxId: job.providerFaxId || "",
+    to: job.currentNumber ?? job.to,
+    filename: job.filename,
+    pages: job.pages,
+    documentSha256: job.documentSha256 ?? createHash("sha256").update(Buffer.from(job.fileBase64, "base64")).digest("hex"),
+    submittedAt: job.createdAt,
+    deliveredAt: job.completedAt || now.toISOString(),
+    events: job.events,
+    issuedAt: now.toISOString(),
+  };
+
+  return {
+    receipt,
+    algorithm: "Ed25519",
+    keyFingerprint: keyFingerprint(),
+    signature: sign(null, Buffer.from(JSON.stringify(receipt)), getSigningKey()).toString("base64"),
+  };
+}
+
+export async function renderReceipt(signed: SignedFaxReceipt): Promise<Uint8Array> {
+  const { receipt } = signed;
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Fax Delivery Confirmation ${receipt.faxId}`);
+  const page = doc.addPage([PAGE_W, PAGE_H]);
+  const hb = await doc.embedFont(StandardFonts.HelveticaBold);
+  const h = await doc.embedFont(StandardFonts.Helvetica);
+  const ho = await doc.embedFont(StandardFonts.HelveticaOblique);
+  const mono = await doc.embedFont(StandardFonts.Courier);
+
+  let y = PAGE_H - 72;
+  page.drawText("Fax Delivery Confirmation", { x: ML, y, size: 22, font: hb, color: DARK_BLUE });
+  y -= 14;
+  page.drawLine({ start: { x: ML, y }, end: { x: PAGE_W - MR, y }, thickness: 0.75, color: DARK_BLUE });
+  y -= 28;
+
+  const rows: Array<[string, string]> = [
+    ["Delivered to:", receipt.to],
+    ["Pages:", receipt.pages ? String(receipt.pages) : "—"],
+    ["Submitted:", formatTimestamp(receipt.submittedAt)],
+    ["Delivered:", formatTimestamp(receipt.deliveredAt)],
+    ["Document:", receipt.filename],
+    ["Provider:", `${receipt.provider} (fax id ${receipt.providerFaxId || "—"})`],
+    ["Relay fax id:", receipt.faxId],
+  ];
+  for (const [label, value] of rows) {
+    page.drawText(label, { x: ML, y, size: 11, font: hb, color: DARK_BLUE });
+    y = drawWrapped(page, value, ML + 100, y, 11, CW - 100, 15, h, BLACK);
+    y -= 4;
+  }
+
+  y -= 8;
+  page.drawText("Document SHA-256:", { x: ML, y, size: 11, font: hb, color: DARK_BLUE });
+  y -= 15;
+  page.drawText(receipt.documentSha256, { x: ML, y, size: 8.5, font: mono, color: BLACK });
+  y -= 28;
+
+  page.drawText("Transmission history", { x: ML, y, size: 12, font: hb, color: DARK_BLUE });
+  y -= 18;
+  // The first page keeps room for the signature block; the rest of a long
+  // history goes on continuation pages
+  let historyPage = page;
+  let bottom = 200;
+  for (const event of receipt.events) {
+    if (y < bottom) {
+      historyPage = doc.addPage([PAGE_W, PAGE_H]);
+      bottom = 72;
+      y = PAGE_H - 72;
+      historyPage.drawText(`Transmission history (continued) - fax ${receipt.faxId}`, {
+        x: ML, y, size: 12, font: hb, color: DARK_BLUE,
+      });
+      y -= 24;
+    }
+    historyPage.drawText(formatTimestamp(event.timestamp), { x: ML, y, size: 9.5, font: h, color: GRAY });
+    y = drawWrapped(
+      historyPage,
+      event.detail ? `${event.status} - ${event.detail}` : event.status,
+      ML + 170, y, 9.5, CW - 170, 13, h, BLACK
+    );
+  }
+
+  // Signature block pinned to the bottom of the page
+  page.drawLine({ start: { x: ML, y: 170 }, end: { x: PAGE_W - MR, y: 170 }, thickness: 0.3, color: GRAY });
+  let sy = drawWrapped(
+    page,
+    `Issued ${formatTimestamp(receipt.issuedAt)} by the fax relay at ${config.baseUrl}. ` +
+      "The receipt data is attached to this PDF as fax-receipt.json and signed with the relay's " +
+      `Ed25519 key (${config.baseUrl}/api/fax/receipt-key).`,
+    ML, 152, 9, CW, 13, ho, GRAY
+  );
+  sy -= 4;
+  page.drawText(`Key fingerprint (SHA-256): ${signed.keyFingerprint}`, { x: ML, y: sy, size: 7, font: mono, color: GRAY });
+  sy -= 12;
+  for (let i = 0; i < signed.signature.length; i += 88) {
+    page.drawText(i === 0 ? `Signature: ${signed.signature.slice(i, i + 88)}` : signed.signature.slice(i, i + 88), {
+      x: ML, y: sy, size: 7, font: mono, color: GRAY,
+    });
+    sy -= 10;
+  }
+
+  await doc.attach(Buffer.from(JSON.stringify(signed, null, 2)), "fax-receipt.json", {
+    mimeType: "application/json",
+    description: "Signed fax delivery receipt",
+  });
+
+  return doc.save();
+}
+
+function formatTimestamp(iso: string): string {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toUTCString().replace("GMT", "UTC");
+}
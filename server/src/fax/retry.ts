@@ -0,0 +1,73 @@
+/**
+ * Fax retry policy - exponential backoff with optional fallback numbers
+ *
+ * Attempts rotate through [job.to, ...fallbackNumbers], so a busy records
+ * line alternates with its fallback instead of being hammered in a row. A
+ * client's policy has to stay within the operator's bounds (config.faxRetry):
+ * every attempt dials someone's fax line.
+ */
+
+import { config } from "../config.ts";
+import type { FaxJob, FaxRetryPolicy } from "../store/types.ts";
+
+const MAX_BACKOFF_MULTIPLIER = 10;
+
+export function resolveRetryPolicy(overrides: Partial<FaxRetryPolicy> = {}): FaxRetryPolicy {
+  const defaults = config.faxRetry;
+  // The operator's own defaults are always within bounds
+  const maxAttemptsLimit = Math.max(defaults.maxAttemptsLimit, defaults.maxAttempts);
+  const minBackoffMs = Math.min(defaults.minBackoffMs, defaults.backoffMs);
+  const { maxFallbackNumbers } = defaults;
+  const policy: FaxRetryPolicy = {
+    maxAttempts: overrides.maxAttempts ?? defaults.maxAttempts,
+    backoffMs: overrides.backoffMs ?? defaults.backoffMs,
+    backoffMultiplier: overrides.backoffMultiplier ?? defaults.backoffMultiplier,
+    fallbackNumbers: (overrides.fallbackNumbers ?? []).filter(Boolean),
+  };
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1 || policy.maxAttempts > maxAttemptsLimit) {
+    throw new Error(`retry.maxAttempts must be an integer from 1 to ${maxAttemptsLimit}`);
+  }
+  if (!(policy.backoffMs >= minBackoffMs)) {
+    throw new Error(`retry.backoffMs must be at least ${minBackoffMs}`);
+  }
+  if (!(policy.backoffMultiplier >= 1 && policy.backoffMultiplier <= MAX_BACKOFF_MULTIPLIER)) {
+    throw new Error(`retry.backoffMultiplier must be from 1 to ${MAX_BACKOFF_MULTIPLIER}`);
+  }
+  if (policy.fallbackNumbers.length > maxFallbackNumbers) {
+    throw new Error(`retry.fallbackNumbers can hold at most ${maxFallbackNumbers} numbers`);
+  }
+  return policy;
+}
+
+/** Delay before attempt `attempt + 1`, after attempt `attempt` (1-based) failed */
+export function retryDelayMs(policy: FaxRetryPolicy, attempt: number): number {
+  return Math.round(policy.backoffMs * Math.pow(policy.backoffMultiplier, attempt - 1));
+}
+
+/** Number to dial for a given 1-based attempt */
+export function numberForAttempt(job: Pick<FaxJob, "to" | "retryPolicy">, attempt: number): string {
+  const numbers = [job.to, ...(job.retryPolicy?.fallbackNumbers ?? [])];
+  return numbers[(attempt - 1) % numbers.length];
+}
+
+/**
+ * Periodically hand jobs whose backoff has elapsed to `sendAttempt`.
+ * The store schedules retries (see updateFaxJobStatus) and finds the due
+ * ones (`listDueJobs`); this only dispatches them.
+ */
+export function startRetryScheduler(
+  listDueJobs: (now: Date) => FaxJob[],
+  sendAttempt: (job: FaxJob) => Promise<unknown>,
+  intervalMs = 5000
+) {
+  const inFlight = new Set<string>();
+  return setInterval(() => {
+    for (const job of listDueJobs(new Date())) {
+      if (inFlight.has(job.id)) continue;
+      inFlight.add(job.id);
+      sendAttempt(job)
+        .catch((err) => console.error(`[Fax] Retry of job ${job.id} failed:`, err))
+        .finally(() => inFlight.delete(job.id));
+    }
+  }, intervalMs);
+}
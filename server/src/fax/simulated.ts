@@ -1,49 +1,85 @@
 /**
  * Simulated fax provider - for testing/demo
  * Faxes go to in-memory outbox, status changed via UI
+ *
+ * createSimulatedProvider() can stand in for a real provider by name (e.g.
+ * FAX_PROVIDERS=simulated:phaxio:fail,simulated:sinch to exercise failover),
+ * accepting that provider's webhook payloads.
  */
 
-import type { FaxProvider, FaxSendRequest, FaxResult, FaxStatusResult } from "./types.ts";
+import type { FaxProvider, FaxSendRequest, FaxResult, FaxStatusResult, FaxWebhookEvent } from "./types.ts";
 
-// In-memory store for simulated faxes
+// In-memory store for simulated faxes (shared by every simulated instance)
 const simulatedFaxes = new Map<string, {
   status: FaxResult["status"];
   pageCount?: number;
   completedAt?: string;
+  callbackUrl?: string;
 }>();
 
-export const simulatedProvider: FaxProvider = {
-  name: "simulated",
-
-  async send(request: FaxSendRequest): Promise<FaxResult> {
-    const id = crypto.randomUUID();
-    
-    // Estimate pages from PDF size (~50KB per page)
-    const estimatedPages = Math.max(1, Math.round(request.fileBuffer.length / 50000));
-    
-    simulatedFaxes.set(id, { 
-      status: "queued",
-      pageCount: estimatedPages,
-    });
-    
-    return {
-      providerFaxId: id,
-      status: "queued",
-    };
-  },
-
-  async getStatus(providerFaxId: string): Promise<FaxStatusResult> {
-    const fax = simulatedFaxes.get(providerFaxId);
-    if (!fax) {
-      return { status: "failed", error: "Fax not found" };
-    }
-    return {
-      status: fax.status,
-      pageCount: fax.pageCount,
-      completedAt: fax.completedAt,
-    };
-  },
-};
+const simulatedInstances = new WeakSet<FaxProvider>();
+
+export function createSimulatedProvider(
+  name = "simulated",
+  options: { failSends?: boolean; parseWebhook?: FaxProvider["parseWebhook"] } = {}
+): FaxProvider {
+  const provider: FaxProvider = {
+    name,
+
+    async send(request: FaxSendRequest): Promise<FaxResult> {
+      if (options.failSends) {
+        throw new Error(`Simulated ${name} send failure`);
+      }
+
+      const id = crypto.randomUUID();
+      
+      simulatedFaxes.set(id, { 
+        status: "queued",
+        pageCount: request.pageCount,
+        callbackUrl: request.callbackUrl,
+      });
+      
+      return {
+        providerFaxId: id,
+        status: "queued",
+      };
+    },
+
+    async getStatus(providerFaxId: string): Promise<FaxStatusResult> {
+      const fax = simulatedFaxes.get(providerFaxId);
+      if (!fax) {
+        return { status: "failed", error: "Fax not found" };
+      }
+      return {
+        status: fax.status,
+        pageCount: fax.pageCount,
+        completedAt: fax.completedAt,
+      };
+    },
+
+    // Stand-ins borrow the real provider's callback parsing; otherwise the
+    // callback body is already a FaxWebhookEvent
+    parseWebhook: options.parseWebhook ?? parseSimulatedWebhook,
+  };
+  simulatedInstances.add(provider);
+  return provider;
+}
+
+async function parseSimulatedWebhook(request: Request): Promise<FaxWebhookEvent | null> {
+  const body = await request.json();
+  return body?.providerFaxId ? (body as FaxWebhookEvent) : null;
+}
+
+export const simulatedProvider = createSimulatedProvider();
+
+export function isSimulatedProvider(provider: FaxProvider): boolean {
+  return simulatedInstances.has(provider);
+}
+
+// What a fax was told to call back, as a real provider's dashboard shows it
+export function simulatedCallbackUrl(providerFaxId: string): string | undefined {
+  return simulatedFaxes.get(providerFaxId)?.callbackUrl;
+}
 
 // For the simulate endpoint - allows UI to change status
 export function simulateStatusChange(
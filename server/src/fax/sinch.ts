@@ -3,7 +3,7 @@
  * https://developers.sinch.com/docs/fax/api-reference/fax/
  */
 
-import type { FaxProvider, FaxSendRequest, FaxResult, FaxStatusResult } from "./types.ts";
+import type { FaxProvider, FaxSendRequest, FaxResult, FaxStatusResult, FaxWebhookEvent } from "./types.ts";
 
 const ACCESS_KEY = process.env.SINCH_ACCESS_KEY || '';
 const ACCESS_SECRET = process.env.SINCH_ACCESS_SECRET || '';
@@ -88,4 +88,30 @@ export const sinchProvider: FaxProvider = {
       error: result.errorMessage,
     };
   },
+
+  // Sinch posts multipart/form-data (a "fax" JSON part) by default, or JSON
+  async parseWebhook(request: Request): Promise<FaxWebhookEvent | null> {
+    let faxData: any;
+    const contentType = request.headers.get("content-type") || "";
+
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const faxJson = formData.get("fax");
+      if (faxJson && typeof faxJson === "string") {
+        faxData = JSON.parse(faxJson);
+      }
+    } else {
+      const body = await request.json();
+      faxData = body.fax || body;
+    }
+
+    if (!faxData?.id) return null;
+    return {
+      providerFaxId: faxData.id,
+      status: mapStatus(faxData.status),
+      pageCount: faxData.numberOfPages,
+      error: faxData.errorMessage,
+      timestamp: faxData.completedTime || faxData.createTime,
+    };
+  },
 };
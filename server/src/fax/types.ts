@@ -7,6 +7,7 @@ export interface FaxSendRequest {
   fileBuffer: Buffer;
   filename?: string;
   callbackUrl?: string;
+  pageCount?: number; // counted during preflight
 }
 
 export interface FaxResult {
@@ -22,8 +23,21 @@ export interface FaxStatusResult {
   error?: string;
 }
 
+export interface FaxWebhookEvent {
+  providerFaxId: string;
+  status: "queued" | "sending" | "delivered" | "failed";
+  pageCount?: number;
+  error?: string;
+  timestamp?: string; // when the provider says the event happened
+  deliveryId?: string; // provider's id for this callback, if it sends one
+}
+
 export interface FaxProvider {
   readonly name: string;
   send(request: FaxSendRequest): Promise<FaxResult>;
   getStatus(providerFaxId: string): Promise<FaxStatusResult>;
+  // Normalize a status callback; null when the payload isn't a fax status update
+  parseWebhook?(request: Request): Promise<FaxWebhookEvent | null>;
+  // Check the provider's own callback signature, for providers that sign
+  verifyWebhook?(request: Request): Promise<boolean>;
 }
@@ -0,0 +1,59 @@
+/**
+ * Fax callback authentication and replay protection
+ *
+ * Every job gets a random callback token that is embedded in the callback URL
+ * handed to the provider, so only the provider we sent the fax through can
+ * report on it. On top of that, providers that sign their callbacks verify
+ * the signature (FaxProvider.verifyWebhook), event timestamps must be recent,
+ * and each delivery is processed at most once per job.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { config } from "../config.ts";
+import type { FaxJob } from "../store/types.ts";
+import type { FaxWebhookEvent } from "./types.ts";
+
+// Allowance for provider clocks running ahead of ours
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+// Delivery ids remembered per job
+const MAX_DELIVERY_IDS = 50;
+
+export function createCallbackToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function callbackUrlFor(provider: string, job: Pick<FaxJob, "id" | "callbackToken">): string {
+  const params = new URLSearchParams({ job: job.id, token: job.callbackToken ?? "" });
+  return `${config.baseUrl}/api/fax/webhook/${provider}?${params}`;
+}
+
+export function verifyCallbackToken(job: FaxJob, token: string | undefined): boolean {
+  if (!job.callbackToken || !token) return false;
+  const expected = Buffer.from(job.callbackToken);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Returns a rejection reason, or null if the event's timestamp is acceptable */
+export function checkEventTimestamp(event: FaxWebhookEvent, job: FaxJob, now = Date.now()): string | null {
+  if (!event.timestamp) return null;
+  const ts = new Date(event.timestamp).getTime();
+  if (Number.isNaN(ts)) return "invalid_timestamp";
+  if (ts > now + CLOCK_SKEW_MS) return "timestamp_in_future";
+  if (ts < now - config.faxWebhookMaxAgeMs) return "timestamp_too_old";
+  if (ts < new Date(job.createdAt).getTime() - CLOCK_SKEW_MS) return "timestamp_before_job";
+  return null;
+}
+
+/** Provider-supplied delivery id, or a digest of the raw callback body */
+export function webhookDeliveryId(event: FaxWebhookEvent, rawBody: Uint8Array): string {
+  return event.deliveryId ?? createHash("sha256").update(rawBody).digest("hex");
+}
+
+/** Record a delivery on the job; false if it was already processed */
+export function recordDelivery(job: FaxJob, deliveryId: string): boolean {
+  const seen = job.webhookDeliveryIds ?? [];
+  if (seen.includes(deliveryId)) return false;
+  job.webhookDeliveryIds = [...seen, deliveryId].slice(-MAX_DELIVERY_IDS);
+  return true;
+}
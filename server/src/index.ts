@@ -5,8 +5,8 @@ import { config } from "./config.ts";
 import { signatureRoutes } from "./routes/signature.ts";
 import { faxRoutes } from "./routes/fax.ts";
 import { dashboardRoutes } from "./routes/dashboard.ts";
-import { isSimulatedMode } from "./fax/index.ts";
-import { getSession } from "./store.ts";
+import { isSimulatedMode, getFaxProviderChain } from "./fax/index.ts";
+import { getSession } from "./store/index.ts";
 import { logger } from "./logger.ts";
 
 // Build client-side QR code bundle at startup
@@ -247,7 +247,7 @@ console.log(`  Signature UI: ${config.baseUrl}/sign/<sessionId>`);
 if (isSimulatedMode()) {
   console.log(`  Fax Outbox (simulated): ${config.baseUrl}/fax-outbox`);
 } else {
-  console.log(`  Fax Provider: Sinch (real faxes)`);
+  console.log(`  Fax Providers: ${getFaxProviderChain().map((p) => p.name).join(" -> ")} (real faxes)`);
 }
 
 export default {
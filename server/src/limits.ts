@@ -0,0 +1,198 @@
+/**
+ * Abuse limits for the public endpoints: request rates per client, the daily
+ * fax quota, and request body sizes.
+ *
+ * A client is its IP address and, when it sends one, its API token (see
+ * auth/). Every request counts against the IP, so switching tokens doesn't get
+ * around a limit. The IP is the socket's, unless TRUST_PROXY_HOPS says the
+ * relay sits behind proxies; see clientIp(). Addresses are kept only as salted hashes. Counters live in memory
+ * in fixed windows (a day window starts at UTC midnight), so a restart resets
+ * them.
+ *
+ * Fax limits count dial attempts, not requests: a send reserves every attempt
+ * its retry policy allows up front, since the retry scheduler later dials with
+ * no client to charge.
+ *
+ * Over a limit, the response is a 429:
+ *   { "error": "...", "code": "rate_limited" | "quota_exceeded", "limit": "fax_sends_per_ip",
+ *     "max": 30, "windowSeconds": 3600, "retryAfterSeconds": 1234 }
+ * with a matching Retry-After header.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import type { Context, MiddlewareHandler } from "hono";
+import { getConnInfo } from "hono/bun";
+import { bodyLimit } from "hono/body-limit";
+import { config } from "./config.ts";
+import { logger } from "./logger.ts";
+
+export interface Limit {
+  name: string;
+  scope: "ip" | "token" | "relay"; // "relay" counts every client together
+  max: number; // 0 = no limit
+  windowMs: number;
+  what: string; // for the error message, e.g. "fax attempts per IP address"
+  code: "rate_limited" | "quota_exceeded";
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const { windowMs } = config.rateLimits;
+
+export const limits = {
+  signatureSessionsPerIp: {
+    name: "signature_sessions_per_ip", scope: "ip", max: config.rateLimits.signatureSessionsPerIp, windowMs,
+    what: "signature sessions per IP address", code: "rate_limited",
+  },
+  signatureSessionsPerToken: {
+    name: "signature_sessions_per_token", scope: "token", max: config.rateLimits.signatureSessionsPerToken, windowMs,
+    what: "signature sessions per API token", code: "rate_limited",
+  },
+  faxSendsPerIp: {
+    name: "fax_sends_per_ip", scope: "ip", max: config.rateLimits.faxSendsPerIp, windowMs,
+    what: "fax attempts per IP address", code: "rate_limited",
+  },
+  faxSendsPerToken: {
+    name: "fax_sends_per_token", scope: "token", max: config.rateLimits.faxSendsPerToken, windowMs,
+    what: "fax attempts per API token", code: "rate_limited",
+  },
+  faxDaily: {
+    name: "fax_daily_quota", scope: "relay", max: config.faxDailyQuota, windowMs: DAY_MS,
+    what: "fax attempts from this relay", code: "quota_exceeded",
+  },
+} satisfies Record<string, Limit>;
+
+export interface LimitExceeded {
+  limit: Limit;
+  retryAfterSeconds: number;
+}
+
+const SALT = randomBytes(16);
+const MAX_COUNTERS = 100_000;
+const counters = new Map<string, { windowEnd: number; count: number }>();
+
+// Drop counters whose window has passed
+function sweepCounters(now: number) {
+  for (const [key, counter] of counters) {
+    if (now >= counter.windowEnd) counters.delete(key);
+  }
+}
+
+setInterval(() => sweepCounters(Date.now()), 60_000);
+
+function hash(value: string): string {
+  return createHash("sha256").update(SALT).update(value).digest("base64url");
+}
+
+/**
+ * The caller's address. Directly connected, that is the socket's. Behind
+ * TRUST_PROXY_HOPS proxies, it is the X-Forwarded-For entry the outermost of
+ * them added, counting from the right: entries left of it come from the
+ * client and can say anything.
+ */
+export function clientIp(c: Context): string {
+  const hops = config.trustProxyHops;
+  const forwarded = hops > 0 ? c.req.header("x-forwarded-for")?.split(",").map((s) => s.trim()) : undefined;
+  if (forwarded && forwarded.length >= hops && forwarded[forwarded.length - hops]) {
+    return forwarded[forwarded.length - hops];
+  }
+  try {
+    return getConnInfo(c).remote.address ?? "unknown";
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * The counter key for this request under `limit`; undefined when it doesn't
+ * apply (no token). Token limits go after requireScope(), which resolves it.
+ */
+function counterKey(c: Context, limit: Limit): string | undefined {
+  const tokenId = c.get("apiToken")?.id;
+  let client: string | undefined;
+  if (limit.scope === "ip") client = `ip:${clientIp(c)}`;
+  else if (limit.scope === "token") client = tokenId && `token:${tokenId}`;
+  else client = "relay";
+  return client && `${limit.name}:${hash(client)}`;
+}
+
+function counterFor(key: string, limit: Limit, now: number) {
+  const windowEnd = (Math.floor(now / limit.windowMs) + 1) * limit.windowMs;
+  let counter = counters.get(key);
+  if (!counter || counter.windowEnd !== windowEnd) {
+    if (!counter && counters.size >= MAX_COUNTERS) {
+      sweepCounters(now);
+      // Still full of live counters: forget the oldest rather than grow without bound
+      if (counters.size >= MAX_COUNTERS) counters.delete(counters.keys().next().value!);
+    }
+    counter = { windowEnd, count: 0 };
+    counters.set(key, counter);
+  }
+  return counter;
+}
+
+/** The first of `checked` that `count` more would go over, without counting them */
+export function checkLimits(c: Context, checked: Limit[], count = 1): LimitExceeded | undefined {
+  const now = Date.now();
+  for (const limit of checked) {
+    const key = counterKey(c, limit);
+    if (!limit.max || !key) continue;
+    const counter = counterFor(key, limit, now);
+    if (counter.count + count > limit.max) {
+      return { limit, retryAfterSeconds: Math.ceil((counter.windowEnd - now) / 1000) };
+    }
+  }
+  return undefined;
+}
+
+/** Count `count` (this request, by default) against each of `counted` */
+export function countLimits(c: Context, counted: Limit[], count = 1) {
+  const now = Date.now();
+  for (const limit of counted) {
+    const key = counterKey(c, limit);
+    if (limit.max && key) counterFor(key, limit, now).count += count;
+  }
+}
+
+function describeWindow(ms: number): string {
+  if (ms === DAY_MS) return "day";
+  if (ms === 60 * 60 * 1000) return "hour";
+  if (ms === 60 * 1000) return "minute";
+  return `${Math.round(ms / 1000)} seconds`;
+}
+
+export function limitExceededResponse(c: Context, { limit, retryAfterSeconds }: LimitExceeded) {
+  logger.rateLimited(limit.name);
+  c.header("Retry-After", String(retryAfterSeconds));
+  const kind = limit.code === "quota_exceeded" ? "Quota exceeded" : "Rate limit exceeded";
+  return c.json({
+    error: `${kind}: at most ${limit.max} ${limit.what} per ${describeWindow(limit.windowMs)}`,
+    code: limit.code,
+    limit: limit.name,
+    max: limit.max,
+    windowSeconds: Math.round(limit.windowMs / 1000),
+    retryAfterSeconds,
+  }, 429);
+}
+
+/** Middleware: turn away requests over any of `applied`, and count the rest */
+export function rateLimit(...applied: Limit[]): MiddlewareHandler {
+  return async (c, next) => {
+    const exceeded = checkLimits(c, applied);
+    if (exceeded) return limitExceededResponse(c, exceeded);
+    countLimits(c, applied);
+    await next();
+  };
+}
+
+export function uploadTooLargeResponse(c: Context, what: string, maxBytes: number) {
+  return c.json({ error: `${what} is too large (over ${maxBytes} bytes)`, code: "upload_too_large", maxBytes }, 413);
+}
+
+/**
+ * Request bodies over `maxBodyBytes` get a 413 before they are read. The
+ * response reports `maxBytes`, the limit on the upload itself, which the body
+ * exceeds by its encoding and other fields.
+ */
+export function uploadLimit(maxBodyBytes: number, what: string, maxBytes = maxBodyBytes): MiddlewareHandler {
+  return bodyLimit({ maxSize: maxBodyBytes, onError: (c) => uploadTooLargeResponse(c, what, maxBytes) });
+}
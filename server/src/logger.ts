@@ -59,6 +59,24 @@ export const logger = {
     // Don't record webhooks separately - faxStatusChanged handles it
   },
 
+  faxWebhookRejected(provider: string, reason: string, faxId?: string) {
+    log("fax_webhook_rejected", { provider, reason, faxId });
+  },
+
+  faxReceiptIssued(faxId: string) {
+    log("fax_receipt_issued", { faxId });
+  },
+
+  apiTokenRejected(reason: "invalid" | "missing_scope", tokenId?: string) {
+    log("api_token_rejected", { reason, tokenId });
+  },
+
+  // The limit's name only; who hit it stays out of the logs
+  rateLimited(limit: string) {
+    log("rate_limited", { limit });
+    recordEvent("rate_limited", { limit });
+  },
+
   skillDownload() {
     log("skill_download", {});
     recordEvent("skill_download");
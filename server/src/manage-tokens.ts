@@ -0,0 +1,57 @@
+#!/usr/bin/env bun
+/**
+ * Issue, list and revoke the relay's API tokens (see auth/tokens.ts).
+ * Run from the server/ directory, on the machine that holds data/events.db.
+ *
+ * Usage:
+ *   bun run src/manage-tokens.ts issue --name <name> [--scopes <scope,scope>]
+ *   bun run src/manage-tokens.ts list
+ *   bun run src/manage-tokens.ts revoke <token-id>
+ *
+ * Scopes: fax:send, fax:read, signature:create (default: all three)
+ *
+ * Output (JSON to stdout); `issue` prints the secret this once:
+ *   { id, name, scopes, createdAt, token }
+ */
+import { issueToken, listTokens, resolveScopes, revokeToken, SCOPES } from "./auth/tokens.ts";
+
+const args = Bun.argv.slice(2);
+
+function getArg(name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 && idx + 1 < args.length ? args[idx + 1] : undefined;
+}
+
+function fail(message: string): never {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+}
+
+switch (args[0]) {
+  case "issue": {
+    const name = getArg("--name");
+    if (!name) fail("--name is required");
+    let scopes;
+    try {
+      scopes = resolveScopes((getArg("--scopes") ?? SCOPES.join(",")).split(",").map((s) => s.trim()).filter(Boolean));
+    } catch (err) {
+      fail(`Invalid --scopes: ${(err as Error).message}`);
+    }
+    const { token, secret } = issueToken(name, scopes);
+    console.log(JSON.stringify({ ...token, token: secret }, null, 2));
+    break;
+  }
+  case "list":
+    console.log(JSON.stringify(listTokens(), null, 2));
+    break;
+  case "revoke": {
+    const id = args[1];
+    if (!id) fail("revoke needs a token id");
+    if (!revokeToken(id)) fail(`No live token ${id}`);
+    console.log(JSON.stringify({ id, revoked: true }));
+    break;
+  }
+  default:
+    console.error("Usage: bun run src/manage-tokens.ts issue --name <name> [--scopes fax:send,fax:read,signature:create] | list | revoke <token-id>");
+    process.exit(1);
+}
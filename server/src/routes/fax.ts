@@ -1,20 +1,103 @@
-import { Hono } from "hono";
-import { createFaxJob, getFaxJob, getAllFaxJobs, updateFaxJobStatus } from "../store.ts";
-import { getFaxProvider, simulateStatusChange, isSimulatedMode } from "../fax/index.ts";
-import { config } from "../config.ts";
+import { Hono, type Context } from "hono";
+import {
+  createFaxJob,
+  getFaxJob,
+  getAllFaxJobs,
+  getDueFaxJobs,
+  saveFaxJob,
+  updateFaxJobStatus,
+} from "../store/index.ts";
+import type { FaxJob, FaxRetryPolicy } from "../store/index.ts";
+import {
+  sendWithFailover,
+  getFaxProviderByName,
+  simulateStatusChange,
+  simulatedCallbackUrl,
+  isSimulatedMode,
+  isSimulatedProvider,
+  type FaxWebhookEvent,
+} from "../fax/index.ts";
+import { resolveRetryPolicy, startRetryScheduler } from "../fax/retry.ts";
+import {
+  callbackUrlFor,
+  verifyCallbackToken,
+  checkEventTimestamp,
+  webhookDeliveryId,
+  recordDelivery,
+} from "../fax/webhook-auth.ts";
+import { checkDestination, DestinationError } from "../fax/destination.ts";
+import { preflightFax, PreflightError, type CoverSheetOptions, type PreflightResult } from "../fax/preflight.ts";
+import { buildSignedReceipt, renderReceipt, receiptPublicKeyPem, ReceiptError } from "../fax/receipt.ts";
 import { logger } from "../logger.ts";
+import { callerId, isVisibleTo, requireScope } from "../auth/middleware.ts";
+import { config } from "../config.ts";
+import { checkLimits, countLimits, limitExceededResponse, limits, rateLimit, uploadLimit, uploadTooLargeResponse } from "../limits.ts";
 
 export const faxRoutes = new Hono();
 
-const provider = getFaxProvider();
+// Send one attempt of a job through the provider chain. Used for the first
+// attempt and by the retry scheduler; if every provider errors, that counts
+// as a failed attempt.
+async function sendAttempt(job: FaxJob): Promise<FaxJob> {
+  const to = job.currentNumber ?? job.to;
+  try {
+    const result = await sendWithFailover({
+      to,
+      fileBuffer: Buffer.from(job.fileBase64, "base64"),
+      filename: job.filename,
+      pageCount: job.pages,
+    }, (provider) => callbackUrlFor(provider, job));
+
+    // Update job with provider info
+    job.providerFaxId = result.providerFaxId;
+    job.provider = result.provider;
+    job.nextAttemptAt = undefined;
+    if (result.failures.length) {
+      job.events.push({
+        timestamp: new Date().toISOString(),
+        status: job.status,
+        detail: `Sent via ${result.provider} after ${result.failures.join("; ")}`,
+      });
+    }
+    if ((job.attempt ?? 1) > 1) {
+      job.events.push({
+        timestamp: new Date().toISOString(),
+        status: job.status,
+        detail: `Attempt ${job.attempt} sent to ${to}`,
+      });
+    }
+    saveFaxJob(job);
+
+    logger.faxSent(job.id, result.provider);
+    return job;
+  } catch (err) {
+    return updateFaxJobStatus(job.id, "failed", err instanceof Error ? err.message : "Unknown error")!;
+  }
+}
+
+startRetryScheduler(getDueFaxJobs, sendAttempt);
+
+// Optional JSON options arrive as objects in JSON bodies and as strings in multipart
+function parseJsonOption<T>(raw: unknown): T | undefined {
+  if (raw === undefined || raw === null || raw === "") return undefined;
+  return (typeof raw === "string" ? JSON.parse(raw) : raw) as T;
+}
+
+// The file arrives base64-encoded in JSON bodies; leave room for that and the other fields
+const maxSendBodyBytes = Math.ceil(config.faxMaxUploadBytes * 4 / 3) + 1_000_000;
 
 // Send a fax
+faxRoutes.use("/send", requireScope("fax:send"));
+faxRoutes.use("/send", rateLimit(limits.faxSendsPerIp, limits.faxSendsPerToken));
+faxRoutes.use("/send", uploadLimit(maxSendBodyBytes, "Fax upload", config.faxMaxUploadBytes));
 faxRoutes.post("/send", async (c) => {
   const contentType = c.req.header("content-type") || "";
   
   let to: string;
   let fileBuffer: Buffer;
   let filename = "document.pdf";
+  let retryOptions: unknown;
+  let coverSheetOptions: unknown;
 
   if (contentType.includes("multipart/form-data")) {
     const formData = await c.req.formData();
@@ -25,6 +108,8 @@ faxRoutes.post("/send", async (c) => {
     }
     fileBuffer = Buffer.from(await file.arrayBuffer());
     filename = file.name || filename;
+    retryOptions = formData.get("retry");
+    coverSheetOptions = formData.get("coverSheet");
   } else {
     // JSON with base64 file
     const body = await c.req.json();
@@ -34,54 +119,105 @@ faxRoutes.post("/send", async (c) => {
     }
     fileBuffer = Buffer.from(body.fileBase64, "base64");
     filename = body.filename || filename;
+    retryOptions = body.retry;
+    coverSheetOptions = body.coverSheet;
   }
 
-  // Store locally
-  const job = createFaxJob({ to, filename, fileBase64: fileBuffer.toString("base64") });
+  if (fileBuffer.length > config.faxMaxUploadBytes) {
+    return uploadTooLargeResponse(c, "Fax upload", config.faxMaxUploadBytes);
+  }
+
+  let retryPolicy: FaxRetryPolicy;
+  try {
+    retryPolicy = resolveRetryPolicy(parseJsonOption<Partial<FaxRetryPolicy>>(retryOptions));
+  } catch (err) {
+    return c.json({ error: `Invalid 'retry': ${err instanceof Error ? err.message : err}` }, 400);
+  }
+
+  // Fallback numbers get dialed too
+  try {
+    for (const number of [to, ...retryPolicy.fallbackNumbers]) checkDestination(number);
+  } catch (err) {
+    if (err instanceof DestinationError) {
+      return c.json({ error: err.message, code: "destination_blocked" }, 403);
+    }
+    throw err;
+  }
 
-  // Send via provider
+  // Validate the PDF, count pages, and prepend the cover sheet if requested
+  let preflight: PreflightResult;
   try {
-    const result = await provider.send({
+    const coverSheet = coverSheetOptions === true || coverSheetOptions === "true"
+      ? {}
+      : parseJsonOption<CoverSheetOptions | false>(coverSheetOptions) || undefined;
+    preflight = await preflightFax(fileBuffer, { to, coverSheet });
+  } catch (err) {
+    if (err instanceof PreflightError || err instanceof SyntaxError) {
+      return c.json({ error: err.message }, 400);
+    }
+    throw err;
+  }
+
+  // Retries and fallback numbers dial too, and the scheduler has no client to
+  // charge for them, so reserve every attempt now. rateLimit() counted the first
+  // against the client's limits already.
+  const attempts = retryPolicy.maxAttempts;
+  const clientLimits = [limits.faxSendsPerIp, limits.faxSendsPerToken];
+  const overLimit = checkLimits(c, clientLimits, attempts - 1) ?? checkLimits(c, [limits.faxDaily], attempts);
+  if (overLimit) return limitExceededResponse(c, overLimit);
+  countLimits(c, clientLimits, attempts - 1);
+  countLimits(c, [limits.faxDaily], attempts);
+
+  // Store locally
+  const job = await sendAttempt(
+    createFaxJob({
       to,
-      fileBuffer,
       filename,
-      callbackUrl: `${config.baseUrl}/api/fax/webhook`,
-    });
-    
-    // Update job with provider info
-    (job as any).providerFaxId = result.providerFaxId;
-    (job as any).provider = provider.name;
-    
-    logger.faxSent(job.id, provider.name);
-    
-    return c.json({
-      faxId: job.id,
-      providerFaxId: result.providerFaxId,
-      provider: provider.name,
-      status: result.status,
-    }, 201);
-  } catch (err) {
-    updateFaxJobStatus(job.id, "failed", err instanceof Error ? err.message : "Unknown error");
-    return c.json({ error: err instanceof Error ? err.message : "Failed to send fax" }, 500);
+      fileBase64: preflight.fileBuffer.toString("base64"),
+      pages: preflight.pages,
+      retryPolicy,
+      owner: callerId(c),
+    })
+  );
+
+  if (job.status === "failed") {
+    return c.json({ error: job.errorMessage || "Failed to send fax" }, 500);
   }
+
+  return c.json({
+    faxId: job.id,
+    providerFaxId: job.providerFaxId,
+    provider: job.provider,
+    status: job.status,
+    pages: job.pages,
+    coverSheet: preflight.coverSheet,
+    attempt: job.attempt,
+    maxAttempts: retryPolicy.maxAttempts,
+    nextAttemptAt: job.nextAttemptAt,
+  }, 201);
 });
 
 // Check fax status
+faxRoutes.use("/status/:id", requireScope("fax:read"));
 faxRoutes.get("/status/:id", async (c) => {
-  const job = getFaxJob(c.req.param("id"));
-  if (!job) {
+  let job = getFaxJob(c.req.param("id"));
+  if (!job || !isVisibleTo(c, job)) {
     return c.json({ error: "Fax job not found" }, 404);
   }
 
   // If we have a provider fax ID and it's not terminal, fetch latest
-  const providerFaxId = (job as any).providerFaxId;
-  if (providerFaxId && !["delivered", "failed"].includes(job.status)) {
+  const providerFaxId = job.providerFaxId;
+  const jobProvider = getFaxProviderByName(job.provider);
+  if (providerFaxId && jobProvider && !["delivered", "failed"].includes(job.status)) {
     try {
-      const status = await provider.getStatus(providerFaxId);
+      const status = await jobProvider.getStatus(providerFaxId);
       if (status.status !== job.status) {
-        updateFaxJobStatus(job.id, status.status, status.error);
+        job = updateFaxJobStatus(job.id, status.status, status.error) ?? job;
+      }
+      if (status.pageCount) {
+        job.pages = status.pageCount;
+        saveFaxJob(job);
       }
-      if (status.pageCount) job.pages = status.pageCount;
     } catch (err) {
       console.error("Failed to fetch provider status:", err);
     }
@@ -90,11 +226,15 @@ faxRoutes.get("/status/:id", async (c) => {
   return c.json({
     faxId: job.id,
     providerFaxId,
-    provider: (job as any).provider || "simulated",
+    provider: job.provider || "simulated",
     status: job.status,
     to: job.to,
     filename: job.filename,
     pages: job.pages,
+    attempt: job.attempt,
+    maxAttempts: job.retryPolicy?.maxAttempts,
+    currentNumber: job.currentNumber,
+    nextAttemptAt: job.nextAttemptAt,
     createdAt: job.createdAt,
     completedAt: job.completedAt,
     errorMessage: job.errorMessage,
@@ -102,73 +242,137 @@ faxRoutes.get("/status/:id", async (c) => {
   });
 });
 
-// Webhook for Sinch callbacks (multipart/form-data or JSON)
-faxRoutes.post("/webhook", async (c) => {
-  let faxData: any;
-  const contentType = c.req.header("content-type") || "";
-  
-  if (contentType.includes("multipart/form-data")) {
-    // Sinch sends multipart by default
-    const formData = await c.req.formData();
-    const faxJson = formData.get("fax");
-    if (faxJson && typeof faxJson === "string") {
-      faxData = JSON.parse(faxJson);
+// Delivery confirmation receipt - PDF by default, ?format=json for the signed data
+faxRoutes.use("/receipt/:id", requireScope("fax:read"));
+faxRoutes.get("/receipt/:id", async (c) => {
+  const job = getFaxJob(c.req.param("id"));
+  if (!job || !isVisibleTo(c, job)) {
+    return c.json({ error: "Fax job not found" }, 404);
+  }
+
+  let signed;
+  try {
+    signed = buildSignedReceipt(job);
+  } catch (err) {
+    if (err instanceof ReceiptError) {
+      return c.json({ error: err.message, status: job.status }, 409);
     }
-  } else {
-    // JSON callback
-    const body = await c.req.json();
-    faxData = body.fax || body;
+    throw err;
   }
-  
-  if (!faxData?.id) {
+  logger.faxReceiptIssued(job.id);
+
+  if (c.req.query("format") === "json") {
+    return c.json(signed);
+  }
+  const pdfBytes = Buffer.from(await renderReceipt(signed));
+  return new Response(pdfBytes, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="fax-receipt-${job.id}.pdf"`,
+    },
+  });
+});
+
+// Public key for checking receipt signatures
+faxRoutes.get("/receipt-key", (c) => {
+  return c.text(receiptPublicKeyPem(), 200, { "Content-Type": "application/x-pem-file" });
+});
+
+// Provider status callbacks. Each provider normalizes its own payload;
+// the bare /webhook path is the Sinch callback URL from before providers
+// were pluggable. See fax/webhook-auth.ts for what is checked.
+async function handleWebhook(c: Context, providerName: string) {
+  const webhookProvider = getFaxProviderByName(providerName);
+  if (!webhookProvider?.parseWebhook) {
+    return c.json({ error: `Unknown fax provider "${providerName}"` }, 404);
+  }
+
+  const reject = (reason: string, faxId?: string) => {
+    logger.faxWebhookRejected(providerName, reason, faxId);
+    return c.json({ error: "Webhook rejected" }, 401);
+  };
+
+  // The callback URL names the job it reports on and carries its token
+  const job = getFaxJob(c.req.query("job") || "");
+  if (!job) return reject("unknown_job");
+  if (!verifyCallbackToken(job, c.req.query("token"))) return reject("bad_token", job.id);
+
+  // Buffer the body: the signature check and the parser both need to read it
+  const rawBody = new Uint8Array(await c.req.arrayBuffer());
+  const bodyRequest = () => new Request(c.req.url, { method: "POST", headers: c.req.raw.headers, body: rawBody });
+
+  let event: FaxWebhookEvent | null;
+  try {
+    if (webhookProvider.verifyWebhook && !(await webhookProvider.verifyWebhook(bodyRequest()))) {
+      return reject("bad_signature", job.id);
+    }
+    event = await webhookProvider.parseWebhook(bodyRequest());
+  } catch (err) {
+    logger.faxWebhookRejected(providerName, "malformed_body", job.id);
+    return c.json({ error: `Malformed callback body: ${err instanceof Error ? err.message : err}` }, 400);
+  }
+  if (!event) {
     logger.faxWebhookReceived(false);
     return c.json({ received: true, processed: false });
   }
 
-  // Find job by provider fax ID
-  const jobs = getAllFaxJobs();
-  const job = jobs.find(j => (j as any).providerFaxId === faxData.id);
+  // No awaits from here on: the job is re-read after the ones above, so two
+  // copies of one callback arriving together can't both pass the replay check
+  const current = getFaxJob(job.id);
+  if (!current) return reject("unknown_job", job.id);
+
+  // A late callback for an earlier attempt, or for some other fax
+  if (current.provider !== webhookProvider.name || event.providerFaxId !== current.providerFaxId) {
+    logger.faxWebhookRejected(providerName, "fax_id_mismatch", job.id);
+    return c.json({ received: true, processed: false });
+  }
+
+  const timestampProblem = checkEventTimestamp(event, current);
+  if (timestampProblem) return reject(timestampProblem, job.id);
+
+  if (!recordDelivery(current, webhookDeliveryId(event, rawBody))) {
+    logger.faxWebhookRejected(providerName, "duplicate", job.id);
+    return c.json({ received: true, processed: false, duplicate: true });
+  }
+  saveFaxJob(current);
+
+  const updated = updateFaxJobStatus(job.id, event.status, event.error)!;
+  logger.faxStatusChanged(job.id, updated.status);
   
-  if (job) {
-    // Map Sinch status to our status
-    let status: "queued" | "sending" | "delivered" | "failed" = "queued";
-    switch (faxData.status) {
-      case "QUEUED": status = "queued"; break;
-      case "IN_PROGRESS": status = "sending"; break;
-      case "COMPLETED": status = "delivered"; break;
-      case "FAILURE": status = "failed"; break;
-    }
-    
-    updateFaxJobStatus(job.id, status, faxData.errorMessage);
-    logger.faxStatusChanged(job.id, status);
-    
-    if (faxData.numberOfPages) {
-      job.pages = faxData.numberOfPages;
-    }
-    
-    logger.faxWebhookReceived(true, status);
-    return c.json({ received: true, processed: true, faxId: job.id });
+  if (event.pageCount) {
+    updated.pages = event.pageCount;
+    saveFaxJob(updated);
   }
   
-  logger.faxWebhookReceived(false);
-  return c.json({ received: true, processed: false });
-});
+  logger.faxWebhookReceived(true, event.status);
+  return c.json({ received: true, processed: true, faxId: job.id });
+}
 
-// List all fax jobs (for outbox UI - only in simulated mode)
+faxRoutes.post("/webhook", (c) => handleWebhook(c, "sinch"));
+faxRoutes.post("/webhook/:provider", (c) => handleWebhook(c, c.req.param("provider")));
+
+// List fax jobs: the caller's own with a token; without one, for the outbox
+// UI, the jobs that have no owner either, in simulated mode only
+faxRoutes.use("/jobs", requireScope("fax:read"));
 faxRoutes.get("/jobs", (c) => {
-  if (!isSimulatedMode()) {
-    return c.json({ error: "Fax job list only available in simulated mode" }, 403);
+  const owner = callerId(c);
+  if (!owner && !isSimulatedMode()) {
+    return c.json({ error: "Listing fax jobs needs an API token with the 'fax:read' scope", code: "token_required" }, 401);
   }
-  const jobs = getAllFaxJobs();
+  const jobs = getAllFaxJobs().filter((j) => j.owner === owner);
   return c.json(
     jobs.map((j) => ({
       faxId: j.id,
-      providerFaxId: (j as any).providerFaxId,
-      provider: (j as any).provider || "simulated",
+      providerFaxId: j.providerFaxId,
+      provider: j.provider || "simulated",
       to: j.to,
       filename: j.filename,
       status: j.status,
       pages: j.pages,
+      attempt: j.attempt,
+      maxAttempts: j.retryPolicy?.maxAttempts,
+      currentNumber: j.currentNumber,
+      nextAttemptAt: j.nextAttemptAt,
       createdAt: j.createdAt,
       completedAt: j.completedAt,
       errorMessage: j.errorMessage,
@@ -179,18 +383,20 @@ faxRoutes.get("/jobs", (c) => {
 });
 
 // Simulate a workflow event (only in simulated mode)
+faxRoutes.use("/jobs/:id/simulate", requireScope("fax:send"));
 faxRoutes.post("/jobs/:id/simulate", async (c) => {
   if (!isSimulatedMode()) {
     return c.json({ error: "Simulation only available in simulated mode" }, 403);
   }
   
   const job = getFaxJob(c.req.param("id"));
-  if (!job) {
+  if (!job || !isVisibleTo(c, job)) {
     return c.json({ error: "Fax job not found" }, 404);
   }
 
-  if ((job as any).provider === "sinch") {
-    return c.json({ error: "Cannot simulate Sinch fax - check real status" }, 400);
+  const jobProvider = getFaxProviderByName(job.provider);
+  if (jobProvider && !isSimulatedProvider(jobProvider)) {
+    return c.json({ error: `Cannot simulate ${jobProvider.name} fax - check real status` }, 400);
   }
 
   const body = await c.req.json();
@@ -208,7 +414,7 @@ faxRoutes.post("/jobs/:id/simulate", async (c) => {
   }
 
   // Update both our store and simulated provider
-  const providerFaxId = (job as any).providerFaxId;
+  const providerFaxId = job.providerFaxId;
   if (providerFaxId) {
     simulateStatusChange(providerFaxId, action, detail);
   }
@@ -221,16 +427,39 @@ faxRoutes.post("/jobs/:id/simulate", async (c) => {
   });
 });
 
+// The callback URL the simulated provider was given, for testing webhooks
+// against it (only in simulated mode)
+faxRoutes.use("/jobs/:id/callback", requireScope("fax:read"));
+faxRoutes.get("/jobs/:id/callback", (c) => {
+  if (!isSimulatedMode()) {
+    return c.json({ error: "Callback URLs only available in simulated mode" }, 403);
+  }
+
+  const job = getFaxJob(c.req.param("id"));
+  if (!job || !isVisibleTo(c, job)) {
+    return c.json({ error: "Fax job not found" }, 404);
+  }
+  const callbackUrl = job.providerFaxId && simulatedCallbackUrl(job.providerFaxId);
+  if (!callbackUrl) {
+    return c.json({ error: "No callback URL for this fax's current attempt" }, 404);
+  }
+  return c.json({ faxId: job.id, provider: job.provider, callbackUrl });
+});
+
 // Download the fax PDF (only in simulated mode - real faxes go directly to Sinch)
+faxRoutes.use("/jobs/:id/download", requireScope("fax:read"));
 faxRoutes.get("/jobs/:id/download", (c) => {
   if (!isSimulatedMode()) {
     return c.json({ error: "Download only available in simulated mode" }, 403);
   }
   
   const job = getFaxJob(c.req.param("id"));
-  if (!job) {
+  if (!job || !isVisibleTo(c, job)) {
     return c.text("Not found", 404);
   }
+  if (job.documentPurgedAt) {
+    return c.text("Document no longer kept", 410);
+  }
 
   const pdfBytes = Buffer.from(job.fileBase64, "base64");
   return new Response(pdfBytes, {
@@ -1,12 +1,22 @@
 import { Hono } from "hono";
-import { createSession, getSession } from "../store.ts";
+import { createSession, getSession, saveSession, addSessionWaiter, notifySessionWaiters } from "../store/index.ts";
 import { config } from "../config.ts";
 import { logger } from "../logger.ts";
-import type { SignatureSession } from "../store.ts";
+import { resolveSignatureSlots } from "../signature/slots.ts";
+import { clientIp, limits, rateLimit, uploadLimit } from "../limits.ts";
+import { callerId, isVisibleTo, requireScope } from "../auth/middleware.ts";
+import { PreviewTooLargeError, resolveConsent, resolvePreview } from "../signature/consent.ts";
+import type { EncryptedPreview, SignatureSession, SignatureSlot } from "../store/index.ts";
 
 export const signatureRoutes = new Hono();
 
+// The preview is most of a session's body; the rest (key, instructions, slots) is small
+const maxSessionBodyBytes = config.signaturePreviewMaxBytes + 1_000_000;
+
 // Create a new signature session
+signatureRoutes.use("/sessions", requireScope("signature:create"));
+signatureRoutes.use("/sessions", rateLimit(limits.signatureSessionsPerIp, limits.signatureSessionsPerToken));
+signatureRoutes.use("/sessions", uploadLimit(maxSessionBodyBytes, "Preview", config.signaturePreviewMaxBytes));
 signatureRoutes.post("/sessions", async (c) => {
   const body = await c.req.json();
   const { publicKey, instructions, signerName, expiryMinutes, requestDriversLicense } = body;
@@ -15,12 +25,30 @@ signatureRoutes.post("/sessions", async (c) => {
     return c.json({ error: "publicKey and instructions are required" }, 400);
   }
 
+  let slots: SignatureSlot[] | undefined;
+  try {
+    slots = resolveSignatureSlots(body.slots);
+  } catch (err) {
+    return c.json({ error: `Invalid 'slots': ${err instanceof Error ? err.message : err}` }, 400);
+  }
+
+  let encryptedPreview: EncryptedPreview | undefined;
+  try {
+    encryptedPreview = resolvePreview(body.preview);
+  } catch (err) {
+    const message = `Invalid 'preview': ${err instanceof Error ? err.message : err}`;
+    return c.json({ error: message }, err instanceof PreviewTooLargeError ? 413 : 400);
+  }
+
   const session = createSession({
     publicKeyJwk: publicKey,
     instructions,
     signerName,
     expiryMinutes,
     requestDriversLicense,
+    slots,
+    encryptedPreview,
+    owner: callerId(c),
   });
 
   logger.signatureSessionCreated(session.id);
@@ -50,15 +78,36 @@ signatureRoutes.get("/sessions/:id/info", (c) => {
     instructions: session.instructions,
     signerName: session.signerName,
     requestDriversLicense: session.requestDriversLicense,
+    slots: session.slots,
+    hasPreview: !!session.encryptedPreview,
   });
 });
 
-// Long-poll for session completion (agent calls this)
-signatureRoutes.get("/sessions/:id/poll", async (c) => {
+// Encrypted document preview (the signing page decrypts it with the key in its URL fragment)
+signatureRoutes.get("/sessions/:id/preview", (c) => {
   const session = getSession(c.req.param("id"));
   if (!session) {
     return c.json({ error: "Session not found" }, 404);
   }
+  if (session.status === "expired") {
+    return c.json({ error: "Session expired" }, 410);
+  }
+  if (session.status === "completed") {
+    return c.json({ error: "Session already completed" }, 409);
+  }
+  if (!session.encryptedPreview) {
+    return c.json({ error: "Session has no preview" }, 404);
+  }
+  return c.json(session.encryptedPreview);
+});
+
+// Long-poll for session completion (agent calls this, with the token that created the session)
+signatureRoutes.use("/sessions/:id/poll", requireScope("signature:create"));
+signatureRoutes.get("/sessions/:id/poll", async (c) => {
+  const session = getSession(c.req.param("id"));
+  if (!session || !isVisibleTo(c, session)) {
+    return c.json({ error: "Session not found" }, 404);
+  }
 
   const timeoutSec = Math.min(parseInt(c.req.query("timeout") || "30", 10), 60);
 
@@ -69,7 +118,7 @@ signatureRoutes.get("/sessions/:id/poll", async (c) => {
   // Long-poll: wait for completion or timeout
   const result = await Promise.race([
     new Promise<SignatureSession>((resolve) => {
-      session.waiters.push(resolve);
+      addSessionWaiter(session.id, resolve);
     }),
     new Promise<null>((resolve) => {
       setTimeout(() => resolve(null), timeoutSec * 1000);
@@ -105,22 +154,35 @@ signatureRoutes.post("/sessions/:id/submit", async (c) => {
     return c.json({ error: "ciphertext, iv, and ephemeralPublicKey are required" }, 400);
   }
 
+  let consent: ReturnType<typeof resolveConsent>;
+  try {
+    consent = resolveConsent(body.consent);
+  } catch (err) {
+    return c.json({ error: `Invalid 'consent': ${err instanceof Error ? err.message : err}` }, 400);
+  }
+
+  const now = new Date().toISOString();
+  const ip = clientIp(c);
+  const userAgent = c.req.header("user-agent") || undefined;
   session.encryptedPayload = { ciphertext, iv, ephemeralPublicKey };
   session.status = "completed";
+  // The preview has served its purpose; don't keep the (encrypted) document around
+  delete session.encryptedPreview;
   session.auditLog.push({
-    timestamp: new Date().toISOString(),
-    event: "submitted",
-    ip: c.req.header("x-forwarded-for") || c.req.header("cf-connecting-ip") || undefined,
-    userAgent: c.req.header("user-agent") || undefined,
+    timestamp: now,
+    event: "consented",
+    consentText: consent.text,
+    documentSha256: consent.documentSha256,
   });
+  session.auditLog.push({ timestamp: now, event: "submitted", ip, userAgent });
+  saveSession(session);
 
   // Check if payload includes driver's license (without decrypting - just check size heuristic)
   const hasDriversLicense = ciphertext.length > 50000; // DL images make payload much larger
   logger.signatureSessionSubmitted(session.id, hasDriversLicense);
 
   // Wake up all long-poll waiters
-  for (const resolve of session.waiters) resolve(session);
-  session.waiters = [];
+  notifySessionWaiters(session);
 
   return c.json({ status: "completed" });
 });
@@ -0,0 +1,59 @@
+/**
+ * Document preview and e-sign consent
+ *
+ * The preview is the document to sign, encrypted by create-signature-session.ts
+ * under a key that only the sign URL's #fragment carries, so the relay stores
+ * it without being able to read it. On submit, the signing page reports the
+ * consent text the signer checked and a SHA-256 of each document it showed;
+ * neither is PHI, so they go into the audit log in the clear (and also into
+ * the encrypted payload, for the requester).
+ */
+
+import { config } from "../config.ts";
+import type { EncryptedPreview } from "../store/types.ts";
+
+export const MAX_CONSENT_TEXT = 2000;
+export const MAX_PREVIEW_DOCUMENTS = 20;
+
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+/** Thrown for a preview over the size limit (413), as opposed to a malformed one (400) */
+export class PreviewTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PreviewTooLargeError";
+  }
+}
+
+export function resolvePreview(preview: unknown): EncryptedPreview | undefined {
+  if (preview === undefined || preview === null) return undefined;
+  const { ciphertext, iv } = preview as Record<string, unknown>;
+  if (typeof ciphertext !== "string" || !ciphertext || typeof iv !== "string" || !iv) {
+    throw new Error("preview needs ciphertext and iv (base64 strings)");
+  }
+  if (ciphertext.length > config.signaturePreviewMaxBytes) {
+    throw new PreviewTooLargeError(
+      `preview is ${ciphertext.length} bytes; the limit is ${config.signaturePreviewMaxBytes}`
+    );
+  }
+  return { ciphertext, iv };
+}
+
+/** A submit without the signer's consent is refused: the e-sign record needs it */
+export function resolveConsent(consent: unknown): { text: string; documentSha256: string[] } {
+  if (consent === undefined || consent === null) {
+    throw new Error("the signer's consent is required (consent.text and consent.documentSha256)");
+  }
+  const { text, documentSha256 = [] } = consent as Record<string, unknown>;
+  if (typeof text !== "string" || !text.trim() || text.length > MAX_CONSENT_TEXT) {
+    throw new Error(`consent.text must be a non-empty string of at most ${MAX_CONSENT_TEXT} characters`);
+  }
+  if (
+    !Array.isArray(documentSha256) ||
+    documentSha256.length > MAX_PREVIEW_DOCUMENTS ||
+    !documentSha256.every((h) => typeof h === "string" && SHA256_HEX.test(h))
+  ) {
+    throw new Error("consent.documentSha256 must be a list of lowercase hex SHA-256 digests");
+  }
+  return { text, documentSha256 };
+}
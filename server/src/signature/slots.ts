@@ -0,0 +1,46 @@
+/**
+ * Signature capture slots - the named captures a signing session asks for
+ *
+ * A session without slots collects one drawn signature. With slots, the
+ * signing page walks through them in order: e.g. the patient's initials beside
+ * each sensitive category, then the patient's and a guardian's signatures.
+ */
+
+import type { SignatureSlot, SignatureSlotKind } from "../store/types.ts";
+
+export const SLOT_KINDS: readonly SignatureSlotKind[] = ["signature", "initials", "typedName"];
+export const MAX_SLOTS = 20;
+
+// Slot ids become file names (<id>.png), so keep them to a safe alphabet
+const SLOT_ID = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export function resolveSignatureSlots(slots: unknown): SignatureSlot[] | undefined {
+  if (slots === undefined || slots === null) return undefined;
+  if (!Array.isArray(slots) || slots.length === 0) {
+    throw new Error("slots must be a non-empty array");
+  }
+  if (slots.length > MAX_SLOTS) {
+    throw new Error(`slots may list at most ${MAX_SLOTS} captures`);
+  }
+  const seen = new Set<string>();
+  return slots.map((slot, i) => {
+    const where = `slots[${i}]`;
+    if (typeof slot !== "object" || slot === null) throw new Error(`${where} must be an object`);
+    const { id, kind, signer, label } = slot as Record<string, unknown>;
+    if (typeof id !== "string" || !SLOT_ID.test(id)) {
+      throw new Error(`${where}.id must be letters, digits, "-" or "_" (at most 64)`);
+    }
+    if (seen.has(id)) throw new Error(`${where}.id "${id}" is used twice`);
+    seen.add(id);
+    if (!SLOT_KINDS.includes(kind as SignatureSlotKind)) {
+      throw new Error(`${where}.kind must be one of ${SLOT_KINDS.join(", ")}`);
+    }
+    if (typeof signer !== "string" || !signer.trim()) {
+      throw new Error(`${where}.signer is required`);
+    }
+    if (label !== undefined && typeof label !== "string") {
+      throw new Error(`${where}.label must be a string`);
+    }
+    return { id, kind: kind as SignatureSlotKind, signer: signer.trim(), ...(label ? { label } : {}) };
+  });
+}
@@ -0,0 +1,237 @@
+/**
+ * Session and fax job store - backend selected by config (STORE_BACKEND)
+ */
+
+import { createHash } from "crypto";
+import { config } from "../config.ts";
+import type { Store, SignatureSession, SignatureSlot, EncryptedPreview, FaxJob, FaxRetryPolicy } from "./types.ts";
+import { createMemoryStore } from "./memory.ts";
+import { createSqliteStore } from "./sqlite.ts";
+import { resolveRetryPolicy, retryDelayMs, numberForAttempt } from "../fax/retry.ts";
+import { createCallbackToken } from "../fax/webhook-auth.ts";
+
+export type { Store, SignatureSession, SignatureSlot, SignatureSlotKind, FaxJob, FaxRetryPolicy, AuditEntry, EncryptedPayload, EncryptedPreview } from "./types.ts";
+export { createMemoryStore, createSqliteStore };
+
+function createStore(): Store {
+  switch (config.storeBackend) {
+    case "memory":
+      console.log("[Store] Using in-memory store (data is lost on restart)");
+      return createMemoryStore();
+    case "sqlite":
+      console.log("[Store] Using SQLite store");
+      return createSqliteStore();
+    default:
+      throw new Error(`Unknown STORE_BACKEND "${config.storeBackend}" (expected "sqlite" or "memory")`);
+  }
+}
+
+const store = createStore();
+
+// Long-poll waiters are tied to open HTTP requests, so they live in-process
+// regardless of backend.
+const sessionWaiters = new Map<string, Array<(session: SignatureSession) => void>>();
+
+// TTL for data cleanup (1 hour of inactivity)
+const DATA_TTL_MS = 60 * 60 * 1000; // 1 hour
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cleanup expired sessions and old fax jobs every 60s
+setInterval(() => {
+  const now = Date.now();
+  
+  // Clean up signature sessions
+  for (const session of store.listSessions()) {
+    if (now > session.expiresAt && session.status === "waiting") {
+      session.status = "expired";
+      session.auditLog.push({ timestamp: new Date().toISOString(), event: "expired" });
+      store.saveSession(session);
+      // Resolve any waiting long-pollers
+      notifySessionWaiters(session);
+    }
+    // Remove sessions that expired more than 1 hour ago
+    if (now > session.expiresAt + DATA_TTL_MS) {
+      console.log(`[Cleanup] Removing expired signature session ${session.id}`);
+      store.deleteSession(session.id);
+      sessionWaiters.delete(session.id);
+    }
+  }
+  
+  // Fax jobs: the document is dropped an hour after the fax is delivered or
+  // finally fails, but the status and receipt data stay for the retention
+  // period, so ledger syncs and receipts still work days later. Queued,
+  // sending and retry-pending jobs keep everything.
+  for (const job of store.listFaxJobs()) {
+    const lastActivity = Math.max(
+      new Date(job.events.at(-1)?.timestamp ?? job.createdAt).getTime(),
+      job.nextAttemptAt ? new Date(job.nextAttemptAt).getTime() : 0,
+    );
+    const finished = job.status === "delivered" || job.status === "failed";
+
+    if (now - lastActivity > config.faxRecordRetentionDays * DAY_MS) {
+      console.log(`[Cleanup] Removing old fax job ${job.id} (status: ${job.status})`);
+      store.deleteFaxJob(job.id);
+    } else if (finished && !job.documentPurgedAt && now - lastActivity > DATA_TTL_MS) {
+      console.log(`[Cleanup] Removing the document of fax job ${job.id} (status: ${job.status})`);
+      job.fileBase64 = "";
+      job.documentPurgedAt = new Date(now).toISOString();
+      store.saveFaxJob(job);
+    }
+  }
+}, 60000);
+
+export function createSession(params: {
+  publicKeyJwk: JsonWebKey;
+  instructions: string;
+  signerName?: string;
+  requestDriversLicense?: boolean;
+  slots?: SignatureSlot[];
+  encryptedPreview?: EncryptedPreview;
+  expiryMinutes?: number;
+  owner?: string;
+}): SignatureSession {
+  const id = crypto.randomUUID();
+  const ttl = (params.expiryMinutes ?? 60) * 60 * 1000;
+  const session: SignatureSession = {
+    id,
+    publicKeyJwk: params.publicKeyJwk,
+    instructions: params.instructions,
+    signerName: params.signerName,
+    requestDriversLicense: params.requestDriversLicense,
+    slots: params.slots,
+    encryptedPreview: params.encryptedPreview,
+    owner: params.owner,
+    status: "waiting",
+    createdAt: Date.now(),
+    expiresAt: Date.now() + ttl,
+    auditLog: [{ timestamp: new Date().toISOString(), event: "created" }],
+  };
+  store.saveSession(session);
+  return session;
+}
+
+export function getSession(id: string): SignatureSession | undefined {
+  return store.getSession(id);
+}
+
+export function saveSession(session: SignatureSession): void {
+  store.saveSession(session);
+}
+
+export function addSessionWaiter(id: string, resolve: (session: SignatureSession) => void): void {
+  const waiters = sessionWaiters.get(id) ?? [];
+  waiters.push(resolve);
+  sessionWaiters.set(id, waiters);
+}
+
+export function notifySessionWaiters(session: SignatureSession): void {
+  const waiters = sessionWaiters.get(session.id) ?? [];
+  sessionWaiters.delete(session.id);
+  for (const resolve of waiters) resolve(session);
+}
+
+export function createFaxJob(params: {
+  to: string;
+  filename: string;
+  fileBase64: string;
+  pages?: number;
+  retryPolicy?: FaxRetryPolicy;
+  owner?: string;
+}): FaxJob {
+  const id = crypto.randomUUID();
+  const job: FaxJob = {
+    id,
+    to: params.to,
+    filename: params.filename,
+    fileBase64: params.fileBase64,
+    documentSha256: createHash("sha256").update(Buffer.from(params.fileBase64, "base64")).digest("hex"),
+    owner: params.owner,
+    status: "queued",
+    pages: params.pages,
+    retryPolicy: params.retryPolicy ?? resolveRetryPolicy(),
+    attempt: 1,
+    currentNumber: params.to,
+    callbackToken: createCallbackToken(),
+    createdAt: new Date().toISOString(),
+    events: [{ timestamp: new Date().toISOString(), status: "queued", detail: "Fax job created" }],
+  };
+  store.saveFaxJob(job);
+  return job;
+}
+
+export function getFaxJob(id: string): FaxJob | undefined {
+  return store.getFaxJob(id);
+}
+
+export function getFaxJobByProviderFaxId(providerFaxId: string): FaxJob | undefined {
+  return store.getFaxJobByProviderFaxId(providerFaxId);
+}
+
+export function saveFaxJob(job: FaxJob): void {
+  store.saveFaxJob(job);
+}
+
+export function getAllFaxJobs(): FaxJob[] {
+  return store.listFaxJobs().sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
+
+/** Jobs waiting on a retry whose backoff has run out */
+export function getDueFaxJobs(now = new Date()): FaxJob[] {
+  return store.listDueFaxJobs(now.toISOString());
+}
+
+export function updateFaxJobStatus(
+  id: string,
+  status: FaxJob["status"],
+  detail?: string
+): FaxJob | undefined {
+  const job = store.getFaxJob(id);
+  if (!job) return undefined;
+  if (status === "failed" && scheduleRetry(job, detail)) {
+    store.saveFaxJob(job);
+    return job;
+  }
+  job.status = status;
+  if (status === "delivered" || status === "failed") {
+    job.completedAt = new Date().toISOString();
+  }
+  if (status === "failed" && detail) {
+    job.errorMessage = detail;
+  }
+  job.events.push({ timestamp: new Date().toISOString(), status, detail });
+  store.saveFaxJob(job);
+  return job;
+}
+
+// A failed attempt only finalizes the job once its retry policy is used up;
+// otherwise the job goes back to "queued" until the retry scheduler resends it.
+function scheduleRetry(job: FaxJob, detail?: string): boolean {
+  const policy = job.retryPolicy ?? resolveRetryPolicy();
+  const attempt = job.attempt ?? 1;
+  if (attempt >= policy.maxAttempts) return false;
+
+  const nextAttempt = attempt + 1;
+  const nextNumber = numberForAttempt(job, nextAttempt);
+  const nextAttemptAt = new Date(Date.now() + retryDelayMs(policy, attempt)).toISOString();
+  const now = new Date().toISOString();
+  job.events.push({
+    timestamp: now,
+    status: "failed",
+    detail: `Attempt ${attempt}/${policy.maxAttempts} to ${job.currentNumber ?? job.to} failed` + (detail ? `: ${detail}` : ""),
+  });
+  job.events.push({
+    timestamp: now,
+    status: "retry_scheduled",
+    detail: `Attempt ${nextAttempt}/${policy.maxAttempts} to ${nextNumber} at ${nextAttemptAt}`,
+  });
+  job.status = "queued";
+  job.attempt = nextAttempt;
+  job.currentNumber = nextNumber;
+  job.nextAttemptAt = nextAttemptAt;
+  job.errorMessage = detail;
+  // Late callbacks for the failed attempt must not touch the retry
+  job.providerFaxId = undefined;
+  return true;
+}
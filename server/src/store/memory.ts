@@ -0,0 +1,65 @@
+/**
+ * In-memory store - for tests and throwaway dev servers
+ * Everything is lost when the process exits. Records are copied in and out,
+ * so callers get them by value as from the SQLite store.
+ */
+
+import type { Store, SignatureSession, FaxJob } from "./types.ts";
+
+function copy<T>(record: T | undefined): T | undefined {
+  return record && structuredClone(record);
+}
+
+export function createMemoryStore(): Store {
+  const sessions = new Map<string, SignatureSession>();
+  const faxJobs = new Map<string, FaxJob>();
+
+  return {
+    name: "memory",
+
+    getSession(id) {
+      return copy(sessions.get(id));
+    },
+
+    saveSession(session) {
+      sessions.set(session.id, structuredClone(session));
+    },
+
+    deleteSession(id) {
+      sessions.delete(id);
+    },
+
+    listSessions() {
+      return Array.from(sessions.values(), (session) => structuredClone(session));
+    },
+
+    getFaxJob(id) {
+      return copy(faxJobs.get(id));
+    },
+
+    getFaxJobByProviderFaxId(providerFaxId) {
+      for (const job of faxJobs.values()) {
+        if (job.providerFaxId === providerFaxId) return structuredClone(job);
+      }
+      return undefined;
+    },
+
+    saveFaxJob(job) {
+      faxJobs.set(job.id, structuredClone(job));
+    },
+
+    deleteFaxJob(id) {
+      faxJobs.delete(id);
+    },
+
+    listFaxJobs() {
+      return Array.from(faxJobs.values(), (job) => structuredClone(job));
+    },
+
+    listDueFaxJobs(now) {
+      return Array.from(faxJobs.values())
+        .filter((job) => job.status === "queued" && job.nextAttemptAt && job.nextAttemptAt <= now)
+        .map((job) => structuredClone(job));
+    },
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * SQLite store - survives restarts and redeploys
+ * Shares the bun:sqlite database opened in db.ts. Each record is kept as a
+ * JSON blob, with the columns we query on (status, timestamps, provider id)
+ * pulled out alongside it.
+ */
+
+import type { Database } from "bun:sqlite";
+import { db } from "../db.ts";
+import type { Store, SignatureSession, FaxJob } from "./types.ts";
+
+// Append-only: each entry upgrades the schema by one version (PRAGMA user_version)
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE signature_sessions (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE fax_jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    provider_fax_id TEXT,
+    created_at TEXT NOT NULL,
+    completed_at TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX idx_fax_jobs_provider_fax_id ON fax_jobs(provider_fax_id);
+  `,
+  // So the retry scheduler can find due jobs without parsing every job
+  `
+  ALTER TABLE fax_jobs ADD COLUMN next_attempt_at TEXT;
+  UPDATE fax_jobs SET next_attempt_at = json_extract(data, '$.nextAttemptAt');
+  CREATE INDEX idx_fax_jobs_next_attempt_at ON fax_jobs(next_attempt_at);
+  `,
+];
+
+function migrate(database: Database) {
+  const { user_version: current } = database.query("PRAGMA user_version").get() as { user_version: number };
+  for (let version = current; version < MIGRATIONS.length; version++) {
+    database.transaction(() => {
+      database.exec(MIGRATIONS[version]);
+      database.exec(`PRAGMA user_version = ${version + 1}`);
+    })();
+    console.log(`[Store] Migrated SQLite schema to version ${version + 1}`);
+  }
+}
+
+export function createSqliteStore(database: Database = db): Store {
+  migrate(database);
+
+  const selectSession = database.prepare("SELECT data FROM signature_sessions WHERE id = ?");
+  const upsertSession = database.prepare(`
+    INSERT INTO signature_sessions (id, status, created_at, expires_at, data) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET status = excluded.status, expires_at = excluded.expires_at, data = excluded.data
+  `);
+  const deleteSessionStmt = database.prepare("DELETE FROM signature_sessions WHERE id = ?");
+  const selectAllSessions = database.prepare("SELECT data FROM signature_sessions");
+
+  const selectJob = database.prepare("SELECT data FROM fax_jobs WHERE id = ?");
+  const selectJobByProviderId = database.prepare("SELECT data FROM fax_jobs WHERE provider_fax_id = ?");
+  const selectDueJobs = database.prepare(
+    "SELECT data FROM fax_jobs WHERE status = 'queued' AND next_attempt_at IS NOT NULL AND next_attempt_at <= ?"
+  );
+  const upsertJob = database.prepare(`
+    INSERT INTO fax_jobs (id, status, provider_fax_id, created_at, completed_at, next_attempt_at, data)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      status = excluded.status,
+      provider_fax_id = excluded.provider_fax_id,
+      completed_at = excluded.completed_at,
+      next_attempt_at = excluded.next_attempt_at,
+      data = excluded.data
+  `);
+  const deleteJobStmt = database.prepare("DELETE FROM fax_jobs WHERE id = ?");
+  const selectAllJobs = database.prepare("SELECT data FROM fax_jobs");
+
+  const parse = <T>(row: unknown): T | undefined =>
+    row ? JSON.parse((row as { data: string }).data) : undefined;
+
+  return {
+    name: "sqlite",
+
+    getSession(id) {
+      return parse<SignatureSession>(selectSession.get(id));
+    },
+
+    saveSession(session) {
+      upsertSession.run(session.id, session.status, session.createdAt, session.expiresAt, JSON.stringify(session));
+    },
+
+    deleteSession(id) {
+      deleteSessionStmt.run(id);
+    },
+
+    listSessions() {
+      return selectAllSessions.all().map((row) => parse<SignatureSession>(row)!);
+    },
+
+    getFaxJob(id) {
+      return parse<FaxJob>(selectJob.get(id));
+    },
+
+    getFaxJobByProviderFaxId(providerFaxId) {
+      return parse<FaxJob>(selectJobByProviderId.get(providerFaxId));
+    },
+
+    saveFaxJob(job) {
+      upsertJob.run(
+        job.id,
+        job.status,
+        job.providerFaxId ?? null,
+        job.createdAt,
+        job.completedAt ?? null,
+        job.nextAttemptAt ?? null,
+        JSON.stringify(job)
+      );
+    },
+
+    deleteFaxJob(id) {
+      deleteJobStmt.run(id);
+    },
+
+    listFaxJobs() {
+      return selectAllJobs.all().map((row) => parse<FaxJob>(row)!);
+    },
+
+    listDueFaxJobs(now) {
+      return selectDueJobs.all(now).map((row) => parse<FaxJob>(row)!);
+    },
+  };
+}
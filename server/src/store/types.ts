@@ -0,0 +1,102 @@
+/**
+ * Store interface - implement for any persistence backend
+ */
+
+export interface AuditEntry {
+  timestamp: string;
+  event: string;
+  ip?: string;
+  userAgent?: string;
+  consentText?: string; // "consented": the e-sign consent the signer agreed to
+  documentSha256?: string[]; // "consented": SHA-256 of each document the signer was shown
+}
+
+export interface EncryptedPayload {
+  ciphertext: string; // base64
+  iv: string; // base64
+  ephemeralPublicKey: JsonWebKey;
+}
+
+/** The document to sign, AES-GCM encrypted under a key only the sign URL's #fragment carries */
+export interface EncryptedPreview {
+  ciphertext: string; // base64
+  iv: string; // base64
+}
+
+export type SignatureSlotKind = "signature" | "initials" | "typedName";
+
+/** One capture the signing page asks for, in order */
+export interface SignatureSlot {
+  id: string; // names the output file: <id>.png
+  kind: SignatureSlotKind;
+  signer: string; // who provides it, e.g. "Jane Doe (patient)"
+  label?: string; // shown above the capture, e.g. "Initial to release HIV test results"
+}
+
+export interface SignatureSession {
+  id: string;
+  publicKeyJwk: JsonWebKey;
+  instructions: string;
+  signerName?: string;
+  requestDriversLicense?: boolean;
+  slots?: SignatureSlot[]; // absent: one signature by signerName
+  encryptedPreview?: EncryptedPreview;
+  owner?: string; // id of the API token that created it; absent for anonymous callers
+  status: "waiting" | "completed" | "expired";
+  encryptedPayload?: EncryptedPayload;
+  createdAt: number;
+  expiresAt: number;
+  auditLog: AuditEntry[];
+}
+
+export interface FaxRetryPolicy {
+  maxAttempts: number; // total attempts, including the first
+  backoffMs: number; // delay before the first retry
+  backoffMultiplier: number; // each later retry waits this many times longer
+  fallbackNumbers: string[]; // alternates tried in rotation with `to`
+}
+
+export interface FaxJob {
+  id: string;
+  to: string;
+  filename: string;
+  fileBase64: string; // emptied an hour after the fax finishes (see store/index.ts)
+  documentSha256?: string; // kept for the receipt once the document is gone
+  documentPurgedAt?: string;
+  owner?: string; // id of the API token that sent it; absent for anonymous callers
+  status: "queued" | "sending" | "delivered" | "failed";
+  provider?: string;
+  providerFaxId?: string;
+  retryPolicy?: FaxRetryPolicy;
+  attempt?: number; // 1-based attempt currently in progress (or last made)
+  currentNumber?: string; // number dialled by the current attempt
+  nextAttemptAt?: string; // set while waiting out a retry backoff
+  callbackToken?: string; // embedded in provider callback URLs
+  webhookDeliveryIds?: string[]; // callbacks already processed (replay protection)
+  pages?: number;
+  createdAt: string;
+  completedAt?: string;
+  errorMessage?: string;
+  events: Array<{ timestamp: string; status: string; detail?: string }>;
+}
+
+/**
+ * Backends are synchronous (bun:sqlite is) and hand out records by value:
+ * callers mutate what they get back and must call save*() to persist it.
+ */
+export interface Store {
+  readonly name: string;
+
+  getSession(id: string): SignatureSession | undefined;
+  saveSession(session: SignatureSession): void;
+  deleteSession(id: string): void;
+  listSessions(): SignatureSession[];
+
+  getFaxJob(id: string): FaxJob | undefined;
+  getFaxJobByProviderFaxId(providerFaxId: string): FaxJob | undefined;
+  saveFaxJob(job: FaxJob): void;
+  deleteFaxJob(id: string): void;
+  listFaxJobs(): FaxJob[];
+  /** Queued jobs whose retry backoff (nextAttemptAt, ISO) is at or before `now` */
+  listDueFaxJobs(now: string): FaxJob[];
+}
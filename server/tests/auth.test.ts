@@ -0,0 +1,120 @@
+#!/usr/bin/env bun
+/**
+ * Tests for API tokens (auth/): what a missing, bad or revoked token gets,
+ * scopes, and who can see whose jobs and sessions. The routes here guard
+ * records the way routes/ does; importing routes/fax.ts would load the fax
+ * providers before fax-providers.test.ts configures them. Tokens go in
+ * data/events.db, like those manage-tokens.ts issues; each test's are revoked
+ * after it. Run with: cd server && bun test
+ */
+
+import { describe, test, expect, afterEach } from "bun:test";
+import { Hono } from "hono";
+
+// Read when the store is created
+const { config } = await import("../src/config.ts");
+config.storeBackend = "memory";
+const { issueToken, revokeToken } = await import("../src/auth/tokens.ts");
+const { isVisibleTo, requireScope } = await import("../src/auth/middleware.ts");
+const { createFaxJob, createSession, getFaxJob, getSession } = await import("../src/store/index.ts");
+import type { Scope } from "../src/auth/tokens.ts";
+
+const app = new Hono();
+app.use("/jobs/:id", requireScope("fax:read"));
+app.get("/jobs/:id", (c) => {
+  const job = getFaxJob(c.req.param("id"));
+  if (!job || !isVisibleTo(c, job)) return c.json({ error: "Fax job not found" }, 404);
+  return c.json({ faxId: job.id });
+});
+app.use("/sessions/:id", requireScope("signature:create"));
+app.get("/sessions/:id", (c) => {
+  const session = getSession(c.req.param("id"));
+  if (!session || !isVisibleTo(c, session)) return c.json({ error: "Session not found" }, 404);
+  return c.json({ sessionId: session.id });
+});
+
+const issued: string[] = [];
+
+function issue(scopes: Scope[]): { id: string; secret: string } {
+  const { token, secret } = issueToken("auth test", scopes);
+  issued.push(token.id);
+  return { id: token.id, secret };
+}
+
+function get(path: string, secret?: string) {
+  return app.request(path, { headers: secret ? { Authorization: `Bearer ${secret}` } : {} });
+}
+
+function queuedJob(owner?: string) {
+  return createFaxJob({ to: "+15555550100", filename: "test.pdf", fileBase64: "JVBERi0=", owner });
+}
+
+afterEach(() => {
+  config.requireApiToken = false;
+  for (const id of issued.splice(0)) revokeToken(id);
+});
+
+describe("requireScope", () => {
+  test("lets a caller without a token through, unless REQUIRE_API_TOKEN is set", async () => {
+    const job = queuedJob();
+    expect((await get(`/jobs/${job.id}`)).status).toBe(200);
+
+    config.requireApiToken = true;
+    const res = await get(`/jobs/${job.id}`);
+    expect(res.status).toBe(401);
+    expect((await res.json()).code).toBe("token_required");
+  });
+
+  test("turns away an unknown token", async () => {
+    const res = await get(`/jobs/${queuedJob().id}`, "ehi_not-a-real-token");
+    expect(res.status).toBe(401);
+    expect((await res.json()).code).toBe("invalid_token");
+  });
+
+  test("turns away a revoked token", async () => {
+    const reader = issue(["fax:read"]);
+    const job = queuedJob(reader.id);
+    expect((await get(`/jobs/${job.id}`, reader.secret)).status).toBe(200);
+
+    revokeToken(reader.id);
+    const res = await get(`/jobs/${job.id}`, reader.secret);
+    expect(res.status).toBe(401);
+    expect((await res.json()).code).toBe("invalid_token");
+  });
+
+  test("turns away a token without the endpoint's scope", async () => {
+    const signer = issue(["signature:create"]);
+    const res = await get(`/jobs/${queuedJob().id}`, signer.secret);
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ code: "missing_scope", scope: "fax:read" });
+  });
+});
+
+describe("isVisibleTo", () => {
+  test("hides a token's fax jobs from other tokens and from callers without one", async () => {
+    const owner = issue(["fax:read"]);
+    const other = issue(["fax:read"]);
+    const job = queuedJob(owner.id);
+
+    expect((await get(`/jobs/${job.id}`, owner.secret)).status).toBe(200);
+    expect((await get(`/jobs/${job.id}`, other.secret)).status).toBe(404);
+    expect((await get(`/jobs/${job.id}`)).status).toBe(404);
+  });
+
+  test("hides a token's signature sessions from other tokens and from callers without one", async () => {
+    const owner = issue(["signature:create"]);
+    const other = issue(["signature:create"]);
+    const session = createSession({ publicKeyJwk: {}, instructions: "test", owner: owner.id });
+
+    expect((await get(`/sessions/${session.id}`, owner.secret)).status).toBe(200);
+    expect((await get(`/sessions/${session.id}`, other.secret)).status).toBe(404);
+    expect((await get(`/sessions/${session.id}`)).status).toBe(404);
+  });
+
+  test("leaves records created without a token open to anyone with the id", async () => {
+    const reader = issue(["fax:read"]);
+    const job = queuedJob();
+    expect((await get(`/jobs/${job.id}`, reader.secret)).status).toBe(200);
+    expect((await get(`/jobs/${job.id}`)).status).toBe(200);
+  });
+});
@@ -0,0 +1,120 @@
+#!/usr/bin/env bun
+/**
+ * Tests for the provider failover chain (fax/index.ts) and the Phaxio
+ * adapter's callback handling (fax/phaxio.ts). Run with: cd server && bun test
+ */
+
+import { describe, test, expect } from "bun:test";
+import { createHash, createHmac } from "crypto";
+
+// Both are read when the modules load
+process.env.PHAXIO_CALLBACK_TOKEN = "test-callback-token";
+const { config } = await import("../src/config.ts");
+config.faxProviders = ["simulated:phaxio:fail", "simulated:sinch"];
+const { getFaxProviderChain, sendWithFailover, phaxioProvider } = await import("../src/fax/index.ts");
+
+const CALLBACK_URL = `${config.baseUrl}/api/fax/webhook/phaxio?job=job-1&token=secret`;
+
+function phaxioCallback(fax: object, headers: Record<string, string> = {}): Request {
+  const form = new FormData();
+  form.append("fax", JSON.stringify(fax));
+  form.append("success", "true");
+  return new Request(CALLBACK_URL, { method: "POST", body: form, headers });
+}
+
+/** X-Phaxio-Signature as Phaxio computes it: URL, then sorted fields, then sorted files' SHA-1 */
+function phaxioSignature(url: string, fields: Record<string, string>, files: Record<string, Uint8Array> = {}): string {
+  let signed = url;
+  for (const name of Object.keys(fields).sort()) signed += name + fields[name];
+  for (const name of Object.keys(files).sort()) signed += name + createHash("sha1").update(files[name]).digest("hex");
+  return createHmac("sha1", "test-callback-token").update(signed).digest("hex");
+}
+
+describe("sendWithFailover", () => {
+  test("a provider that errors falls through to the next, and its error is returned", async () => {
+    expect(getFaxProviderChain().map((p) => p.name)).toEqual(["phaxio", "sinch"]);
+    const callbacks: string[] = [];
+    const result = await sendWithFailover(
+      { to: "+15551234567", fileBuffer: Buffer.from("%PDF-1.4"), pageCount: 1 },
+      (provider) => {
+        callbacks.push(provider);
+        return `${config.baseUrl}/api/fax/webhook/${provider}`;
+      },
+    );
+    expect(result.provider).toBe("sinch");
+    expect(result.status).toBe("queued");
+    expect(result.failures).toEqual(["phaxio: Simulated phaxio send failure"]);
+    // Each provider gets a callback URL of its own
+    expect(callbacks).toEqual(["phaxio", "sinch"]);
+  });
+});
+
+describe("phaxioProvider.parseWebhook", () => {
+  test("normalizes Phaxio's statuses, page count and timestamp", async () => {
+    const cases: Array<[string, string]> = [
+      ["queued", "queued"],
+      ["pendingbatch", "queued"],
+      ["inprogress", "sending"],
+      ["success", "delivered"],
+      ["failure", "failed"],
+      ["partialsuccess", "failed"],
+    ];
+    for (const [status, expected] of cases) {
+      const event = await phaxioProvider.parseWebhook!(phaxioCallback({
+        id: 1234, status, num_pages: 3, created_at: "2026-02-18T18:00:00Z", completed_at: "2026-02-18T18:05:00Z",
+      }));
+      expect(event).toEqual({
+        providerFaxId: "1234",
+        status: expected as "queued",
+        pageCount: 3,
+        error: undefined,
+        timestamp: "2026-02-18T18:05:00Z",
+      });
+    }
+  });
+
+  test("takes the error from the recipient, and reads JSON bodies too", async () => {
+    const request = new Request(CALLBACK_URL, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        fax: { id: 99, status: "failure", created_at: "2026-02-18T18:00:00Z", recipients: [{ error_message: "Busy" }] },
+      }),
+    });
+    expect(await phaxioProvider.parseWebhook!(request)).toMatchObject({
+      providerFaxId: "99", status: "failed", error: "Busy", timestamp: "2026-02-18T18:00:00Z",
+    });
+  });
+
+  test("a payload without a fax id is not a status update", async () => {
+    expect(await phaxioProvider.parseWebhook!(phaxioCallback({ status: "success" }))).toBeNull();
+  });
+});
+
+describe("phaxioProvider.verifyWebhook", () => {
+  const fax = { id: 1234, status: "success" };
+  const fields = { fax: JSON.stringify(fax), success: "true" };
+
+  test("accepts a signature over the callback URL and fields", async () => {
+    const signature = phaxioSignature(CALLBACK_URL, fields);
+    expect(await phaxioProvider.verifyWebhook!(phaxioCallback(fax, { "X-Phaxio-Signature": signature }))).toBe(true);
+  });
+
+  test("rejects a missing signature, a wrong one, and one over a different body", async () => {
+    expect(await phaxioProvider.verifyWebhook!(phaxioCallback(fax))).toBe(false);
+    expect(await phaxioProvider.verifyWebhook!(phaxioCallback(fax, { "X-Phaxio-Signature": "0".repeat(40) }))).toBe(false);
+    const forOther = phaxioSignature(CALLBACK_URL, { ...fields, fax: JSON.stringify({ ...fax, status: "failure" }) });
+    expect(await phaxioProvider.verifyWebhook!(phaxioCallback(fax, { "X-Phaxio-Signature": forOther }))).toBe(false);
+  });
+
+  test("covers attached files by their SHA-1", async () => {
+    const file = new Uint8Array([1, 2, 3]);
+    const form = new FormData();
+    form.append("fax", fields.fax);
+    form.append("success", "true");
+    form.append("file", new Blob([file]), "fax.pdf");
+    const signature = phaxioSignature(CALLBACK_URL, fields, { file });
+    const request = new Request(CALLBACK_URL, { method: "POST", body: form, headers: { "X-Phaxio-Signature": signature } });
+    expect(await phaxioProvider.verifyWebhook!(request)).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+#!/usr/bin/env bun
+/**
+ * Tests for how the abuse limits (limits.ts) tell clients apart and count. Run with: cd server && bun test
+ */
+
+import { describe, test, expect, afterEach } from "bun:test";
+import { Hono } from "hono";
+import { config } from "../src/config.ts";
+import { checkLimits, clientIp, countLimits, type Limit } from "../src/limits.ts";
+
+const app = new Hono();
+app.get("/ip", (c) => c.text(clientIp(c)));
+
+async function ipFor(forwardedFor?: string): Promise<string> {
+  const res = await app.request("/ip", { headers: forwardedFor ? { "X-Forwarded-For": forwardedFor } : {} });
+  return res.text();
+}
+
+describe("clientIp", () => {
+  afterEach(() => {
+    config.trustProxyHops = 0;
+  });
+
+  // app.request() has no socket, so the socket's address comes back "unknown"
+  test("ignores X-Forwarded-For unless a proxy is trusted", async () => {
+    expect(await ipFor("203.0.113.24")).toBe("unknown");
+  });
+
+  test("behind one proxy, takes the entry it added, not what the client sent", async () => {
+    config.trustProxyHops = 1;
+    expect(await ipFor("203.0.113.24")).toBe("203.0.113.24");
+    expect(await ipFor("198.51.100.1, 203.0.113.24")).toBe("203.0.113.24");
+  });
+
+  test("behind two proxies, takes the outer one's entry", async () => {
+    config.trustProxyHops = 2;
+    expect(await ipFor("198.51.100.1, 203.0.113.24, 10.0.0.2")).toBe("203.0.113.24");
+    // Fewer entries than proxies: the header didn't come through them
+    expect(await ipFor("203.0.113.24")).toBe("unknown");
+  });
+});
+
+describe("checkLimits and countLimits", () => {
+  const limit: Limit = {
+    name: "test_attempts", scope: "relay", max: 5, windowMs: 60_000, what: "test attempts", code: "quota_exceeded",
+  };
+  const reserve = new Hono();
+  reserve.post("/reserve/:count", (c) => {
+    const count = Number(c.req.param("count"));
+    const exceeded = checkLimits(c, [limit], count);
+    if (exceeded) return c.json({ limit: exceeded.limit.name }, 429);
+    countLimits(c, [limit], count);
+    return c.json({ ok: true });
+  });
+
+  test("reserve several at once, and refuse a batch that doesn't fit", async () => {
+    expect((await reserve.request("/reserve/3", { method: "POST" })).status).toBe(200);
+    // 3 + 3 is over 5, even though the counter isn't full yet
+    expect((await reserve.request("/reserve/3", { method: "POST" })).status).toBe(429);
+    expect((await reserve.request("/reserve/2", { method: "POST" })).status).toBe(200);
+    expect((await reserve.request("/reserve/1", { method: "POST" })).status).toBe(429);
+    // Nothing more to count always fits
+    expect((await reserve.request("/reserve/0", { method: "POST" })).status).toBe(200);
+  });
+});
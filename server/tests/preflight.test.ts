@@ -0,0 +1,43 @@
+#!/usr/bin/env bun
+/**
+ * Tests for fax preflight and the cover sheet (fax/preflight.ts,
+ * fax/cover-sheet.ts). Run with: cd server && bun test
+ */
+
+import { describe, test, expect } from "bun:test";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { preflightFax, PreflightError } from "../src/fax/preflight.ts";
+import { encodableText } from "../src/fax/cover-sheet.ts";
+
+async function onePagePdf(): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  doc.addPage();
+  return Buffer.from(await doc.save());
+}
+
+describe("preflightFax", () => {
+  test("adds a cover sheet, even with names the fax font can't write", async () => {
+    const result = await preflightFax(await onePagePdf(), {
+      to: "+15551234567",
+      coverSheet: {
+        from: { name: "李小龙" },
+        to: { name: "Zoë Ångström", organization: "Clínica São José" },
+        subject: "Records request — “urgent” 📄",
+        note: "Привет\nThanks",
+      },
+    });
+    expect(result).toMatchObject({ pages: 2, coverSheet: true });
+    expect((await PDFDocument.load(result.fileBuffer)).getPageCount()).toBe(2);
+  });
+
+  test("refuses what isn't a PDF", async () => {
+    await expect(preflightFax(Buffer.from("hello"), { to: "+15551234567" })).rejects.toBeInstanceOf(PreflightError);
+  });
+});
+
+test("encodableText keeps what the font has, drops accents, and replaces the rest", async () => {
+  const font = await (await PDFDocument.create()).embedFont(StandardFonts.Helvetica);
+  expect(encodableText("Zoë – “café”", font)).toBe("Zoë – “café”");
+  expect(encodableText("Łukasz Dvořák", font)).toBe("?ukasz Dvorák");
+  expect(encodableText("李小龙 Lee", font)).toBe("??? Lee");
+});
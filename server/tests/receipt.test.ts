@@ -0,0 +1,54 @@
+#!/usr/bin/env bun
+/**
+ * Tests for the delivery receipt PDF (fax/receipt.ts). Run with: cd server && bun test
+ */
+
+import { describe, test, expect } from "bun:test";
+import { PDFDocument } from "pdf-lib";
+import { renderReceipt, type SignedFaxReceipt } from "../src/fax/receipt.ts";
+
+function signedReceipt(eventCount: number): SignedFaxReceipt {
+  const events = Array.from({ length: eventCount }, (_, i) => ({
+    timestamp: new Date(Date.UTC(2026, 1, 18, 18, i)).toISOString(),
+    status: "sending",
+    detail: `Attempt ${i + 1}`,
+  }));
+  return {
+    receipt: {
+      faxId: "fax-1",
+      provider: "simulated",
+      providerFaxId: "sim-1",
+      to: "+15551234567",
+      filename: "request.pdf",
+      pages: 2,
+      documentSha256: "0".repeat(64),
+      submittedAt: events[0]?.timestamp ?? "2026-02-18T18:00:00.000Z",
+      deliveredAt: "2026-02-18T20:00:00.000Z",
+      events,
+      issuedAt: "2026-02-18T20:00:00.000Z",
+    },
+    algorithm: "Ed25519",
+    keyFingerprint: "f".repeat(64),
+    signature: "A".repeat(88),
+  };
+}
+
+describe("renderReceipt", () => {
+  test("a short history fits on one page", async () => {
+    const pdf = await PDFDocument.load(await renderReceipt(signedReceipt(3)));
+    expect(pdf.getPageCount()).toBe(1);
+  });
+
+  test("a long history continues on further pages instead of being cut off", async () => {
+    const pdf = await PDFDocument.load(await renderReceipt(signedReceipt(120)));
+    expect(pdf.getPageCount()).toBeGreaterThan(2);
+  });
+
+  test("renders a file name and provider details the PDF font can't write", async () => {
+    const signed = signedReceipt(2);
+    signed.receipt.filename = "病历申请 Zoë.pdf";
+    signed.receipt.events[1].detail = "Доставлено ✓";
+    const pdf = await PDFDocument.load(await renderReceipt(signed));
+    expect(pdf.getPageCount()).toBe(1);
+  });
+});
@@ -0,0 +1,110 @@
+#!/usr/bin/env bun
+/**
+ * Tests for fax retries: the policy and its bounds, backoff and number
+ * rotation (fax/retry.ts), rescheduling in the store (store/index.ts) and the
+ * scheduler. Run with: cd server && bun test
+ */
+
+import { describe, test, expect } from "bun:test";
+
+// Read when the store is created
+const { config } = await import("../src/config.ts");
+config.storeBackend = "memory";
+const { numberForAttempt, resolveRetryPolicy, retryDelayMs, startRetryScheduler } = await import("../src/fax/retry.ts");
+const { createFaxJob, getDueFaxJobs, getFaxJob, updateFaxJobStatus } = await import("../src/store/index.ts");
+import type { FaxJob } from "../src/store/types.ts";
+
+describe("resolveRetryPolicy", () => {
+  test("fills in the relay's defaults", () => {
+    expect(resolveRetryPolicy()).toEqual({
+      maxAttempts: config.faxRetry.maxAttempts,
+      backoffMs: config.faxRetry.backoffMs,
+      backoffMultiplier: config.faxRetry.backoffMultiplier,
+      fallbackNumbers: [],
+    });
+  });
+
+  test("refuses a policy outside the relay's bounds", () => {
+    const { maxAttemptsLimit, minBackoffMs, maxFallbackNumbers } = config.faxRetry;
+    expect(() => resolveRetryPolicy({ maxAttempts: maxAttemptsLimit + 1 })).toThrow(/maxAttempts/);
+    expect(() => resolveRetryPolicy({ maxAttempts: 1000, backoffMs: 0 })).toThrow(/maxAttempts/);
+    expect(() => resolveRetryPolicy({ maxAttempts: 0 })).toThrow(/maxAttempts/);
+    expect(() => resolveRetryPolicy({ backoffMs: minBackoffMs - 1 })).toThrow(/backoffMs/);
+    expect(() => resolveRetryPolicy({ backoffMultiplier: 1000 })).toThrow(/backoffMultiplier/);
+    const numbers = Array.from({ length: maxFallbackNumbers + 1 }, (_, i) => `+1555555010${i}`);
+    expect(() => resolveRetryPolicy({ fallbackNumbers: numbers })).toThrow(/fallbackNumbers/);
+    expect(resolveRetryPolicy({ maxAttempts: maxAttemptsLimit, backoffMs: minBackoffMs }).maxAttempts).toBe(maxAttemptsLimit);
+  });
+});
+
+test("retryDelayMs backs off by the multiplier after each failed attempt", () => {
+  const policy = resolveRetryPolicy({ backoffMs: 60_000, backoffMultiplier: 3 });
+  expect([1, 2, 3].map((attempt) => retryDelayMs(policy, attempt))).toEqual([60_000, 180_000, 540_000]);
+});
+
+test("numberForAttempt rotates through the number and its fallbacks", () => {
+  const job = { to: "+15550000001", retryPolicy: resolveRetryPolicy({ fallbackNumbers: ["+15550000002", "+15550000003"] }) };
+  expect([1, 2, 3, 4, 5].map((attempt) => numberForAttempt(job, attempt))).toEqual([
+    "+15550000001", "+15550000002", "+15550000003", "+15550000001", "+15550000002",
+  ]);
+  expect(numberForAttempt({ to: "+15550000001" }, 3)).toBe("+15550000001");
+});
+
+describe("a failed attempt", () => {
+  const newJob = () => createFaxJob({
+    to: "+15550000001",
+    filename: "request.pdf",
+    fileBase64: "JVBERi0xLjQ=",
+    retryPolicy: resolveRetryPolicy({ maxAttempts: 2, backoffMs: 60_000, fallbackNumbers: ["+15550000002"] }),
+  });
+
+  test("is rescheduled to the next number while attempts are left", () => {
+    const before = Date.now();
+    const job = updateFaxJobStatus(newJob().id, "failed", "Line busy")!;
+    expect(job).toMatchObject({ status: "queued", attempt: 2, currentNumber: "+15550000002", errorMessage: "Line busy" });
+    const nextAttemptAt = new Date(job.nextAttemptAt!).getTime();
+    expect(nextAttemptAt).toBeGreaterThanOrEqual(before + 60_000);
+    expect(job.events.map((e) => e.status)).toEqual(["queued", "failed", "retry_scheduled"]);
+
+    // Due once its backoff has passed
+    expect(getDueFaxJobs(new Date(nextAttemptAt - 1)).some((j) => j.id === job.id)).toBe(false);
+    expect(getDueFaxJobs(new Date(nextAttemptAt)).some((j) => j.id === job.id)).toBe(true);
+  });
+
+  test("is final on the last attempt", () => {
+    const { id } = newJob();
+    updateFaxJobStatus(id, "failed", "Line busy");
+    const job = updateFaxJobStatus(id, "failed", "Still busy")!;
+    expect(job).toMatchObject({ status: "failed", attempt: 2, errorMessage: "Still busy" });
+    expect(job.completedAt).toBeDefined();
+    expect(getFaxJob(id)!.status).toBe("failed");
+  });
+});
+
+test("the scheduler sends each due job once until its attempt finishes", async () => {
+  const job = { id: "job-1" } as FaxJob;
+  const asked: Date[] = [];
+  const sent: string[] = [];
+  let finish!: () => void;
+  const timer = startRetryScheduler(
+    (now) => {
+      asked.push(now);
+      return [job];
+    },
+    async (due) => {
+      sent.push(due.id);
+      await new Promise<void>((resolve) => (finish = resolve));
+    },
+    5,
+  );
+  try {
+    await Bun.sleep(30);
+    expect(asked.length).toBeGreaterThan(1);
+    expect(sent).toEqual(["job-1"]); // still in flight
+    finish();
+    await Bun.sleep(30);
+    expect(sent.length).toBeGreaterThan(1);
+  } finally {
+    clearInterval(timer);
+  }
+});
@@ -0,0 +1,144 @@
+#!/usr/bin/env bun
+/**
+ * Tests for the store backends (store/memory.ts, store/sqlite.ts): both run
+ * the same cases. Run with: cd server && bun test
+ */
+
+import { describe, test, expect } from "bun:test";
+import { Database } from "bun:sqlite";
+import { createMemoryStore } from "../src/store/memory.ts";
+import { createSqliteStore } from "../src/store/sqlite.ts";
+import type { FaxJob, SignatureSession, Store } from "../src/store/types.ts";
+
+function session(id: string, fields: Partial<SignatureSession> = {}): SignatureSession {
+  return {
+    id,
+    publicKeyJwk: { kty: "EC", crv: "P-256", x: "x", y: "y" },
+    instructions: "Sign the request",
+    status: "waiting",
+    createdAt: 1_700_000_000_000,
+    expiresAt: 1_700_000_900_000,
+    auditLog: [{ timestamp: "2026-02-18T18:00:00.000Z", event: "created" }],
+    ...fields,
+  };
+}
+
+function faxJob(id: string, fields: Partial<FaxJob> = {}): FaxJob {
+  return {
+    id,
+    to: "+15551234567",
+    filename: "request.pdf",
+    fileBase64: "JVBERi0xLjQ=",
+    status: "queued",
+    createdAt: "2026-02-18T18:00:00.000Z",
+    events: [{ timestamp: "2026-02-18T18:00:00.000Z", status: "queued" }],
+    ...fields,
+  };
+}
+
+const backends: Array<[string, () => Store]> = [
+  ["memory", () => createMemoryStore()],
+  ["sqlite", () => createSqliteStore(new Database(":memory:"))],
+];
+
+for (const [name, create] of backends) {
+  describe(`${name} store`, () => {
+    test("saves, gets, lists and deletes signature sessions", () => {
+      const store = create();
+      store.saveSession(session("s1"));
+      store.saveSession(session("s2", { owner: "tok_1" }));
+      expect(store.getSession("s1")).toEqual(session("s1"));
+      expect(store.listSessions().map((s) => s.id).sort()).toEqual(["s1", "s2"]);
+      store.deleteSession("s1");
+      expect(store.getSession("s1")).toBeUndefined();
+      expect(store.listSessions().map((s) => s.id)).toEqual(["s2"]);
+    });
+
+    test("saves, gets, finds by provider fax id, lists and deletes fax jobs", () => {
+      const store = create();
+      store.saveFaxJob(faxJob("j1", { providerFaxId: "p1" }));
+      store.saveFaxJob(faxJob("j2"));
+      expect(store.getFaxJob("j1")).toEqual(faxJob("j1", { providerFaxId: "p1" }));
+      expect(store.getFaxJobByProviderFaxId("p1")?.id).toBe("j1");
+      expect(store.getFaxJobByProviderFaxId("p2")).toBeUndefined();
+
+      const job = store.getFaxJob("j1")!;
+      job.status = "delivered";
+      job.completedAt = "2026-02-18T18:05:00.000Z";
+      store.saveFaxJob(job);
+      expect(store.getFaxJob("j1")).toMatchObject({ status: "delivered", completedAt: "2026-02-18T18:05:00.000Z" });
+
+      store.deleteFaxJob("j2");
+      expect(store.listFaxJobs().map((j) => j.id)).toEqual(["j1"]);
+    });
+
+    test("finds the queued jobs whose retry is due", () => {
+      const store = create();
+      store.saveFaxJob(faxJob("due", { nextAttemptAt: "2026-02-18T18:05:00.000Z" }));
+      store.saveFaxJob(faxJob("later", { nextAttemptAt: "2026-02-18T18:15:00.000Z" }));
+      store.saveFaxJob(faxJob("first-attempt"));
+      store.saveFaxJob(faxJob("sending", { status: "sending", nextAttemptAt: "2026-02-18T18:05:00.000Z" }));
+      expect(store.listDueFaxJobs("2026-02-18T18:10:00.000Z").map((j) => j.id)).toEqual(["due"]);
+
+      // Sent again: no longer waiting
+      const job = store.getFaxJob("due")!;
+      job.nextAttemptAt = undefined;
+      store.saveFaxJob(job);
+      expect(store.listDueFaxJobs("2026-02-18T18:20:00.000Z").map((j) => j.id)).toEqual(["later"]);
+    });
+
+    test("hands out records by value: changes count only once saved", () => {
+      const store = create();
+      const saved = session("s1");
+      store.saveSession(saved);
+      saved.status = "completed";
+      const fetched = store.getSession("s1")!;
+      expect(fetched.status).toBe("waiting");
+      fetched.auditLog.push({ timestamp: "2026-02-18T18:01:00.000Z", event: "submitted" });
+      expect(store.getSession("s1")!.auditLog).toHaveLength(1);
+      expect(store.listSessions()[0].auditLog).toHaveLength(1);
+
+      store.saveFaxJob(faxJob("j1"));
+      store.getFaxJob("j1")!.events.push({ timestamp: "2026-02-18T18:01:00.000Z", status: "sending" });
+      store.listFaxJobs()[0].status = "failed";
+      expect(store.getFaxJob("j1")).toEqual(faxJob("j1"));
+    });
+  });
+}
+
+describe("sqlite migrations", () => {
+  const userVersion = (database: Database) =>
+    (database.query("PRAGMA user_version").get() as { user_version: number }).user_version;
+
+  test("bring a new database to the latest version, and run only once", () => {
+    const database = new Database(":memory:");
+    expect(userVersion(database)).toBe(0);
+    createSqliteStore(database).saveFaxJob(faxJob("j1"));
+    const version = userVersion(database);
+    expect(version).toBeGreaterThan(0);
+
+    // Opening it again migrates nothing and keeps the data
+    const reopened = createSqliteStore(database);
+    expect(userVersion(database)).toBe(version);
+    expect(reopened.getFaxJob("j1")).toEqual(faxJob("j1"));
+  });
+
+  test("version 2 picks up retry times saved before it", () => {
+    const database = new Database(":memory:");
+    // The version 1 schema, with a job waiting on a retry
+    database.exec(`
+      CREATE TABLE signature_sessions (id TEXT PRIMARY KEY, status TEXT NOT NULL, created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL, data TEXT NOT NULL);
+      CREATE TABLE fax_jobs (id TEXT PRIMARY KEY, status TEXT NOT NULL, provider_fax_id TEXT, created_at TEXT NOT NULL,
+        completed_at TEXT, data TEXT NOT NULL);
+      PRAGMA user_version = 1;
+    `);
+    const job = faxJob("j1", { nextAttemptAt: "2026-02-18T18:05:00.000Z" });
+    database.prepare("INSERT INTO fax_jobs (id, status, created_at, data) VALUES (?, ?, ?, ?)")
+      .run(job.id, job.status, job.createdAt, JSON.stringify(job));
+
+    const store = createSqliteStore(database);
+    expect(userVersion(database)).toBe(2);
+    expect(store.listDueFaxJobs("2026-02-18T18:10:00.000Z")).toEqual([job]);
+  });
+});
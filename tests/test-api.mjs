@@ -1,9 +1,23 @@
 /**
  * API test suite for the relay server (fax + signature endpoints)
  * Run with: bun tests/test-api.mjs
- * Requires the relay server running on localhost:8001
+ * Requires the relay server running on localhost:8001, started with
+ * TRUST_PROXY_HOPS=1, since the rate limit tests stand in for the proxy,
+ * telling clients apart by X-Forwarded-For, and FAX_RETRY_MIN_BACKOFF_MS=0,
+ * so the retry tests don't wait out a real backoff
+ *   PORT=8001 TRUST_PROXY_HOPS=1 FAX_RETRY_MIN_BACKOFF_MS=0 bun run src/index.ts
+ *
+ * To exercise provider failover, start the server with simulated stand-ins,
+ * and run the suite with the same FAX_PROVIDERS so it knows what to expect:
+ *   FAX_PROVIDERS=simulated:phaxio:fail,simulated:sinch bun run src/index.ts
+ *   FAX_PROVIDERS=simulated:phaxio:fail,simulated:sinch bun tests/test-api.mjs
+ *
+ * The API token tests issue tokens with server/src/manage-tokens.ts, so the
+ * server has to be this checkout's, using its server/data/events.db.
  */
 
+import { execFileSync } from 'child_process';
+import { createHash, verify } from 'crypto';
 import { existsSync, readFileSync } from 'fs';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
@@ -12,6 +26,15 @@ const __dirname = dirname(fileURLToPath(import.meta.url));
 const ROOT = join(__dirname, '..');
 const SERVER_URL = process.env.SERVER_URL || 'http://localhost:8001';
 
+// The provider chain the server was started with (see fax/index.ts): the
+// stand-ins that always fail, and the provider a send should end up with
+const FAX_CHAIN = (process.env.FAX_PROVIDERS || 'simulated').split(',').map((entry) => {
+  const [kind, standInFor, flag] = entry.trim().split(':');
+  return { name: standInFor || kind, fails: flag === 'fail' };
+});
+const FAILING_PROVIDERS = FAX_CHAIN.filter((p) => p.fails).map((p) => p.name);
+const SENDING_PROVIDER = FAX_CHAIN.find((p) => !p.fails)?.name;
+
 let passed = 0;
 let failed = 0;
 
@@ -69,9 +92,62 @@ await test('fax/send: queues a fax job', async () => {
   const data = await res.json();
   assert(data.faxId, 'Missing faxId');
   assert(data.status === 'queued', `Expected queued, got ${data.status}`);
+  assert(data.provider === SENDING_PROVIDER, `Expected provider ${SENDING_PROVIDER}, got ${data.provider}`);
   faxId = data.faxId;
 });
 
+await test('fax/send: records the providers that failed before one took the fax', async () => {
+  const data = await (await fetch(`${SERVER_URL}/api/fax/status/${faxId}`)).json();
+  const failover = data.events.find(e => e.detail?.startsWith('Sent via'));
+  if (!FAILING_PROVIDERS.length) {
+    assert(!failover, `No provider should have failed: ${failover?.detail}`);
+    return;
+  }
+  assert(failover, 'Missing the failover event');
+  for (const name of FAILING_PROVIDERS) {
+    assert(failover.detail.includes(`${name}: Simulated ${name} send failure`), `Missing ${name}'s failure: ${failover.detail}`);
+  }
+});
+
+await test('fax/send: records the true page count', async () => {
+  const res = await fetch(`${SERVER_URL}/api/fax/status/${faxId}`);
+  const data = await res.json();
+  assert(data.pages === 1, `Expected 1 page, got ${data.pages}`);
+});
+
+await test('fax/send: rejects non-PDF uploads', async () => {
+  const res = await fetch(`${SERVER_URL}/api/fax/send`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      to: '+1-555-TEST-001',
+      filename: 'notes.txt',
+      fileBase64: Buffer.from('just some text').toString('base64'),
+    }),
+  });
+  assert(res.status === 400, `Expected 400, got ${res.status}`);
+  const data = await res.json();
+  assert(data.error.includes('not a PDF'), `Unexpected error: ${data.error}`);
+});
+
+await test('fax/send: prepends a cover sheet when requested', async () => {
+  const pdfBytes = readFileSync(join(ROOT, 'templates/appendix.pdf'));
+  const res = await fetch(`${SERVER_URL}/api/fax/send`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      to: '+1-555-TEST-001',
+      filename: 'test.pdf',
+      fileBase64: pdfBytes.toString('base64'),
+      coverSheet: { from: { name: 'Test Patient' }, to: { name: 'Medical Records' } },
+    }),
+  });
+  assert(res.status === 201, `Expected 201, got ${res.status}`);
+  const data = await res.json();
+  assert(data.coverSheet === true, 'Expected coverSheet: true');
+  assert(data.pages === 2, `Expected 2 pages, got ${data.pages}`);
+});
+
 await test('fax/status: retrieves job status', async () => {
   const res = await fetch(`${SERVER_URL}/api/fax/status/${faxId}`);
   assert(res.ok, `Status ${res.status}`);
@@ -120,6 +196,218 @@ await test('fax/jobs/:id/download: returns PDF', async () => {
   assert(bytes.byteLength > 1000, 'PDF too small');
 });
 
+await test('fax/receipt/:id: returns a PDF for a delivered fax', async () => {
+  const res = await fetch(`${SERVER_URL}/api/fax/receipt/${faxId}`);
+  assert(res.ok, `Status ${res.status}`);
+  assert(res.headers.get('content-type') === 'application/pdf', 'Expected PDF content-type');
+  const bytes = Buffer.from(await res.arrayBuffer());
+  assert(bytes.subarray(0, 5).toString() === '%PDF-', 'Not a PDF');
+});
+
+await test('fax/receipt/:id: signed receipt verifies against the relay key', async () => {
+  const signed = await (await fetch(`${SERVER_URL}/api/fax/receipt/${faxId}?format=json`)).json();
+  const publicKey = await (await fetch(`${SERVER_URL}/api/fax/receipt-key`)).text();
+  const ok = verify(null, Buffer.from(JSON.stringify(signed.receipt)), publicKey, Buffer.from(signed.signature, 'base64'));
+  assert(ok, 'Signature does not verify');
+
+  const pdf = await (await fetch(`${SERVER_URL}/api/fax/jobs/${faxId}/download`)).arrayBuffer();
+  const sha = createHash('sha256').update(Buffer.from(pdf)).digest('hex');
+  assert(signed.receipt.documentSha256 === sha, 'Document hash mismatch');
+  assert(signed.receipt.to === '+1-555-TEST-001', 'Destination mismatch');
+  assert(signed.receipt.events.some(e => e.status === 'delivered'), 'Missing delivered event');
+});
+
+let retryFaxId;
+
+await test('fax/send: refuses a retry policy beyond the relay\'s bounds', async () => {
+  const pdfBytes = readFileSync(join(ROOT, 'templates/appendix.pdf'));
+  const res = await fetch(`${SERVER_URL}/api/fax/send`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      to: '+1-555-TEST-001',
+      filename: 'test.pdf',
+      fileBase64: pdfBytes.toString('base64'),
+      retry: { maxAttempts: 1000, backoffMs: 0 },
+    }),
+  });
+  assert(res.status === 400, `Expected 400, got ${res.status}`);
+  assert((await res.json()).error.includes('maxAttempts'), 'Error should name maxAttempts');
+});
+
+await test('fax/send: accepts a retry policy', async () => {
+  const pdfBytes = readFileSync(join(ROOT, 'templates/appendix.pdf'));
+  const res = await fetch(`${SERVER_URL}/api/fax/send`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      to: '+1-555-TEST-001',
+      filename: 'test.pdf',
+      fileBase64: pdfBytes.toString('base64'),
+      retry: { maxAttempts: 2, backoffMs: 0, fallbackNumbers: ['+1-555-TEST-002'] },
+    }),
+  });
+  assert(res.status === 201, `Expected 201, got ${res.status}`);
+  const data = await res.json();
+  assert(data.attempt === 1, `Expected attempt 1, got ${data.attempt}`);
+  assert(data.maxAttempts === 2, `Expected maxAttempts 2, got ${data.maxAttempts}`);
+  retryFaxId = data.faxId;
+});
+
+await test('fax retry: failed attempt is rescheduled to the fallback number', async () => {
+  const res = await fetch(`${SERVER_URL}/api/fax/jobs/${retryFaxId}/simulate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'failed', detail: 'Line busy' }),
+  });
+  assert(res.ok, `Status ${res.status}`);
+  const data = await res.json();
+  assert(data.status === 'queued', `Expected queued, got ${data.status}`);
+  assert(data.events.some(e => e.status === 'retry_scheduled'), 'Missing retry_scheduled event');
+
+  const status = await (await fetch(`${SERVER_URL}/api/fax/status/${retryFaxId}`)).json();
+  assert(status.attempt === 2, `Expected attempt 2, got ${status.attempt}`);
+  assert(status.currentNumber === '+1-555-TEST-002', `Expected fallback number, got ${status.currentNumber}`);
+});
+
+await test('fax retry: scheduler resends, and the last failure is final', async () => {
+  let status;
+  for (let i = 0; i < 20; i++) {
+    status = await (await fetch(`${SERVER_URL}/api/fax/status/${retryFaxId}`)).json();
+    if (status.providerFaxId) break;
+    await new Promise(r => setTimeout(r, 500));
+  }
+  assert(status.providerFaxId, 'Retry was never sent');
+  assert(!status.nextAttemptAt, 'nextAttemptAt should be cleared once sent');
+
+  const res = await fetch(`${SERVER_URL}/api/fax/jobs/${retryFaxId}/simulate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'failed', detail: 'Line busy' }),
+  });
+  const data = await res.json();
+  assert(data.status === 'failed', `Expected failed, got ${data.status}`);
+});
+
+await test('fax/receipt/:id: 409 until the fax is delivered', async () => {
+  const res = await fetch(`${SERVER_URL}/api/fax/receipt/${retryFaxId}`);
+  assert(res.status === 409, `Expected 409, got ${res.status}`);
+});
+
+await test('fax/webhook: 404 for unknown provider', async () => {
+  const res = await fetch(`${SERVER_URL}/api/fax/webhook/nonexistent`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({}),
+  });
+  assert(res.status === 404, `Expected 404, got ${res.status}`);
+});
+
+let webhookJob;
+const webhookPath = () => {
+  const url = new URL(webhookJob.callbackUrl);
+  return `${SERVER_URL}${url.pathname}`;
+};
+// The callback as the job's provider would shape it; stand-ins parse like the real one
+const SINCH_STATUSES = { queued: 'QUEUED', sending: 'IN_PROGRESS', delivered: 'COMPLETED', failed: 'FAILURE' };
+const PHAXIO_STATUSES = { queued: 'queued', sending: 'inprogress', delivered: 'success', failed: 'failure' };
+function providerPayload({ providerFaxId, status, timestamp, deliveryId }) {
+  switch (webhookJob.provider) {
+    case 'sinch':
+      return { fax: { id: providerFaxId, status: SINCH_STATUSES[status], createTime: timestamp } };
+    case 'phaxio':
+      return { fax: { id: providerFaxId, status: PHAXIO_STATUSES[status], created_at: timestamp } };
+    default:
+      return { providerFaxId, status, timestamp, deliveryId };
+  }
+}
+const postWebhook = (query, event) => fetch(`${webhookPath()}${query}`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(providerPayload(event)),
+});
+
+await test('fax/webhook: the simulated provider shows the callback URL it was given', async () => {
+  const pdfBytes = readFileSync(join(ROOT, 'templates/appendix.pdf'));
+  const sent = await (await fetch(`${SERVER_URL}/api/fax/send`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ to: '+1-555-TEST-001', filename: 'test.pdf', fileBase64: pdfBytes.toString('base64') }),
+  })).json();
+  const jobs = await (await fetch(`${SERVER_URL}/api/fax/jobs`)).json();
+  const listed = jobs.find(j => j.faxId === sent.faxId);
+  assert(listed && !('callbackUrl' in listed), 'The job list should not carry callback URLs');
+  const res = await fetch(`${SERVER_URL}/api/fax/jobs/${sent.faxId}/callback`);
+  assert(res.ok, `Status ${res.status}`);
+  const { callbackUrl } = await res.json();
+  assert(callbackUrl?.includes('token='), 'Missing callback token');
+  webhookJob = { ...listed, callbackUrl };
+});
+
+await test('fax/webhook: rejects a missing or wrong token', async () => {
+  const event = { providerFaxId: webhookJob.providerFaxId, status: 'delivered' };
+  let res = await postWebhook(`?job=${webhookJob.faxId}`, event);
+  assert(res.status === 401, `Expected 401 without token, got ${res.status}`);
+  res = await postWebhook(`?job=${webhookJob.faxId}&token=guessed`, event);
+  assert(res.status === 401, `Expected 401 with wrong token, got ${res.status}`);
+});
+
+await test('fax/webhook: rejects a stale timestamp', async () => {
+  const query = new URL(webhookJob.callbackUrl).search;
+  const res = await postWebhook(query, {
+    providerFaxId: webhookJob.providerFaxId,
+    status: 'delivered',
+    timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
+  });
+  assert(res.status === 401, `Expected 401, got ${res.status}`);
+});
+
+await test('fax/webhook: processes a valid callback once', async () => {
+  const query = new URL(webhookJob.callbackUrl).search;
+  const event = {
+    providerFaxId: webhookJob.providerFaxId,
+    status: 'sending',
+    timestamp: new Date().toISOString(),
+    deliveryId: 'test-delivery-1',
+  };
+  let data = await (await postWebhook(query, event)).json();
+  assert(data.processed === true, `Expected processed, got ${JSON.stringify(data)}`);
+
+  const res = await postWebhook(query, event);
+  assert(res.ok, `Status ${res.status}`);
+  data = await res.json();
+  assert(data.duplicate === true && !data.processed, 'Replay should be flagged as duplicate');
+
+  // The job list doesn't re-poll the (simulated) provider, so it shows what the webhook set
+  const jobs = await (await fetch(`${SERVER_URL}/api/fax/jobs`)).json();
+  const job = jobs.find(j => j.faxId === webhookJob.faxId);
+  assert(job.status === 'sending', `Expected sending, got ${job.status}`);
+  assert(job.events.filter(e => e.status === 'sending').length === 1, 'Replay should not add events');
+});
+
+await test('fax/webhook: concurrent copies of a callback are processed once', async () => {
+  const query = new URL(webhookJob.callbackUrl).search;
+  const event = {
+    providerFaxId: webhookJob.providerFaxId,
+    status: 'delivered',
+    timestamp: new Date().toISOString(),
+    deliveryId: 'test-delivery-2',
+  };
+  const results = await Promise.all([1, 2, 3].map(async () => (await postWebhook(query, event)).json()));
+  const processed = results.filter(r => r.processed).length;
+  assert(processed === 1, `Expected one processed, got ${processed}: ${JSON.stringify(results)}`);
+});
+
+await test('fax/webhook: a malformed body is a 400', async () => {
+  const query = new URL(webhookJob.callbackUrl).search;
+  const res = await fetch(`${webhookPath()}${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: '{"fax": ',
+  });
+  assert(res.status === 400, `Expected 400, got ${res.status}`);
+});
+
 await test('fax/send: rejects missing fields', async () => {
   const res = await fetch(`${SERVER_URL}/api/fax/send`, {
     method: 'POST',
@@ -179,6 +467,18 @@ await test('signatures/sessions/:id/poll: returns waiting', async () => {
   assert(data.status === 'waiting', `Expected waiting, got ${data.status}`);
 });
 
+await test('signatures/sessions/:id/submit: refuses a submit without consent', async () => {
+  const res = await fetch(`${SERVER_URL}/api/signatures/sessions/${sessionId}/submit`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ciphertext: 'x', iv: 'y', ephemeralPublicKey: {} }),
+  });
+  assert(res.status === 400, `Expected 400, got ${res.status}`);
+  assert((await res.json()).error.includes('consent'), 'Error should name the missing consent');
+  const info = await fetch(`${SERVER_URL}/api/signatures/sessions/${sessionId}/info`);
+  assert(info.ok, `Session should still be open to sign, got ${info.status}`);
+});
+
 await test('signatures/sessions/:id/submit: accepts encrypted payload', async () => {
   // Generate ephemeral keypair for submission
   const ephKeyPair = await crypto.subtle.generateKey(
@@ -199,6 +499,7 @@ await test('signatures/sessions/:id/submit: accepts encrypted payload', async ()
       ciphertext,
       iv,
       ephemeralPublicKey: ephPubJwk,
+      consent: { text: 'I agree to sign electronically', documentSha256: [] },
     }),
   });
   assert(res.ok, `Status ${res.status}`);
@@ -233,6 +534,100 @@ await test('signatures/sessions: rejects missing fields', async () => {
   assert(res.status === 400, `Expected 400, got ${res.status}`);
 });
 
+await test('signatures/sessions: declares capture slots, returned by info', async () => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const publicKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+  const slots = [
+    { id: 'initials-hiv', kind: 'initials', signer: 'Jane Doe', label: 'Initial to release HIV test results' },
+    { id: 'patient', kind: 'signature', signer: 'Jane Doe' },
+    { id: 'guardian', kind: 'signature', signer: 'John Doe (parent)' },
+    { id: 'guardian-name', kind: 'typedName', signer: 'John Doe (parent)' },
+  ];
+  const createRes = await fetch(`${SERVER_URL}/api/signatures/sessions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ publicKey: publicKeyJwk, instructions: 'test', slots }),
+  });
+  assert(createRes.status === 201, `Expected 201, got ${createRes.status}`);
+  const { sessionId: slotSessionId } = await createRes.json();
+
+  const res = await fetch(`${SERVER_URL}/api/signatures/sessions/${slotSessionId}/info`);
+  const data = await res.json();
+  assert(JSON.stringify(data.slots) === JSON.stringify(slots), `slots mismatch: ${JSON.stringify(data.slots)}`);
+});
+
+await test('signatures/sessions: rejects bad slots', async () => {
+  const bad = [
+    [],
+    [{ id: '../x', kind: 'signature', signer: 'Jane' }],
+    [{ id: 'a', kind: 'stamp', signer: 'Jane' }],
+    [{ id: 'a', kind: 'initials', signer: '' }],
+    [{ id: 'a', kind: 'initials', signer: 'Jane' }, { id: 'a', kind: 'signature', signer: 'Jane' }],
+  ];
+  for (const slots of bad) {
+    const res = await fetch(`${SERVER_URL}/api/signatures/sessions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ publicKey: { kty: 'EC' }, instructions: 'test', slots }),
+    });
+    assert(res.status === 400, `Expected 400 for ${JSON.stringify(slots)}, got ${res.status}`);
+    const data = await res.json();
+    assert(data.error.startsWith("Invalid 'slots'"), `Unexpected error: ${data.error}`);
+  }
+});
+
+await test('signatures/sessions: stores an encrypted preview and records consent on submit', async () => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const publicKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+  const preview = { ciphertext: Buffer.from('not really encrypted').toString('base64'), iv: 'AAAAAAAAAAAAAAAA' };
+  const createRes = await fetch(`${SERVER_URL}/api/signatures/sessions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ publicKey: publicKeyJwk, instructions: 'test', preview }),
+  });
+  assert(createRes.status === 201, `Expected 201, got ${createRes.status}`);
+  const { sessionId: previewSessionId } = await createRes.json();
+  const base = `${SERVER_URL}/api/signatures/sessions/${previewSessionId}`;
+
+  const info = await (await fetch(`${base}/info`)).json();
+  assert(info.hasPreview === true, 'hasPreview should be true');
+  const stored = await (await fetch(`${base}/preview`)).json();
+  assert(stored.ciphertext === preview.ciphertext && stored.iv === preview.iv, 'preview mismatch');
+
+  const documentSha256 = ['ab'.repeat(32)];
+  const badConsent = await fetch(`${base}/submit`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ciphertext: 'x', iv: 'y', ephemeralPublicKey: {}, consent: { text: 'I agree', documentSha256: ['nope'] } }),
+  });
+  assert(badConsent.status === 400, `Expected 400, got ${badConsent.status}`);
+
+  const submitRes = await fetch(`${base}/submit`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ciphertext: 'x', iv: 'y', ephemeralPublicKey: {}, consent: { text: 'I agree', documentSha256 } }),
+  });
+  assert(submitRes.ok, `Status ${submitRes.status}`);
+  const poll = await (await fetch(`${base}/poll`)).json();
+  const consented = poll.auditLog.find((e) => e.event === 'consented');
+  assert(consented?.consentText === 'I agree', 'consent text not in audit log');
+  assert(JSON.stringify(consented.documentSha256) === JSON.stringify(documentSha256), 'document hash not in audit log');
+  assert((await fetch(`${base}/preview`)).status === 409, 'preview should be gone once signed');
+});
+
+await test('signatures/sessions/:id/preview: 404 for a session without one', async () => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const publicKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+  const createRes = await fetch(`${SERVER_URL}/api/signatures/sessions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ publicKey: publicKeyJwk, instructions: 'test' }),
+  });
+  const { sessionId: plainSessionId } = await createRes.json();
+  const res = await fetch(`${SERVER_URL}/api/signatures/sessions/${plainSessionId}/preview`);
+  assert(res.status === 404, `Expected 404, got ${res.status}`);
+});
+
 // ───────────────────────────────────────────────────────────────────────────
 // Sign page
 // ───────────────────────────────────────────────────────────────────────────
@@ -260,6 +655,177 @@ await test('/sign/:sessionId: 404 for invalid session', async () => {
   assert(res.status === 404, `Expected 404, got ${res.status}`);
 });
 
+// ───────────────────────────────────────────────────────────────────────────
+// Abuse limits
+// ───────────────────────────────────────────────────────────────────────────
+console.log('\n--- Abuse Limits ---\n');
+
+await test('fax/send: refuses premium-rate and international destinations', async () => {
+  const pdfBytes = readFileSync(join(ROOT, 'templates/appendix.pdf'));
+  const send = (to, retry) => fetch(`${SERVER_URL}/api/fax/send`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ to, filename: 'test.pdf', fileBase64: pdfBytes.toString('base64'), retry }),
+  });
+  for (const [to, retry] of [['1-900-555-0100'], ['+44 20 7946 0000'], ['+1-555-TEST-001', { fallbackNumbers: ['+1 876 555 0100'] }]]) {
+    const res = await send(to, retry);
+    assert(res.status === 403, `Expected 403 for ${to}, got ${res.status}`);
+    const data = await res.json();
+    assert(data.code === 'destination_blocked', `Expected destination_blocked, got ${JSON.stringify(data)}`);
+  }
+});
+
+await test('fax/send: per-IP limit counts every attempt a retry policy allows', async () => {
+  const pdfBytes = readFileSync(join(ROOT, 'templates/appendix.pdf'));
+  const send = () => fetch(`${SERVER_URL}/api/fax/send`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': '203.0.113.40' },
+    body: JSON.stringify({ to: '+1-555-TEST-001', filename: 'test.pdf', fileBase64: pdfBytes.toString('base64'), retry: { maxAttempts: 5 } }),
+  });
+  let sent = 0;
+  let res;
+  for (let i = 0; i < 100; i++) {
+    res = await send();
+    if (res.status !== 201) break;
+    sent++;
+  }
+  assert(res.status === 429, `Expected 429, got ${res.status}`);
+  const data = await res.json();
+  assert(data.limit === 'fax_sends_per_ip', `Unexpected body ${JSON.stringify(data)}`);
+  assert(sent === Math.floor(data.max / 5), `Expected ${Math.floor(data.max / 5)} sends of 5 attempts each, got ${sent}`);
+});
+
+await test('signatures/sessions: per-IP rate limit answers 429 with the limit and when to retry', async () => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const publicKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+  // X-Forwarded-For as the trusted proxy would pass it on: whatever the client
+  // claimed, then the address the proxy saw
+  const create = (ip, claimed) => fetch(`${SERVER_URL}/api/signatures/sessions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': claimed ? `${claimed}, ${ip}` : ip },
+    body: JSON.stringify({ publicKey: publicKeyJwk, instructions: 'test' }),
+  });
+  let res;
+  for (let i = 0; i < 1000; i++) {
+    // A different made-up address each time doesn't get the client a fresh limit
+    res = await create('203.0.113.24', `198.51.100.${i % 250}`);
+    if (res.status !== 201) break;
+  }
+  assert(res.status === 429, `Expected 429, got ${res.status}`);
+  const data = await res.json();
+  assert(data.code === 'rate_limited' && data.limit === 'signature_sessions_per_ip', `Unexpected body ${JSON.stringify(data)}`);
+  assert(data.max > 0 && data.retryAfterSeconds > 0, 'Missing max or retryAfterSeconds');
+  assert(res.headers.get('retry-after') === String(data.retryAfterSeconds), 'Retry-After should match retryAfterSeconds');
+
+  const other = await create('203.0.113.25');
+  assert(other.status === 201, `Another address should not be limited, got ${other.status}`);
+});
+
+// ───────────────────────────────────────────────────────────────────────────
+// API tokens
+// ───────────────────────────────────────────────────────────────────────────
+console.log('\n--- API Tokens ---\n');
+
+function manageTokens(...args) {
+  return JSON.parse(execFileSync('bun', ['run', 'src/manage-tokens.ts', ...args], { cwd: join(ROOT, 'server') }).toString());
+}
+
+const sender = manageTokens('issue', '--name', 'API test sender', '--scopes', 'fax:send,fax:read');
+const reader = manageTokens('issue', '--name', 'API test reader', '--scopes', 'fax:read');
+const signer = manageTokens('issue', '--name', 'API test signatures', '--scopes', 'signature:create');
+const auth = (token, headers = {}) => ({ ...headers, Authorization: `Bearer ${token.token}` });
+
+async function sendAs(token) {
+  const pdfBytes = readFileSync(join(ROOT, 'templates/appendix.pdf'));
+  return fetch(`${SERVER_URL}/api/fax/send`, {
+    method: 'POST',
+    headers: auth(token, { 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ to: '+1-555-TEST-001', filename: 'test.pdf', fileBase64: pdfBytes.toString('base64') }),
+  });
+}
+
+let ownedFaxId;
+
+await test('tokens: an unknown token is refused, and a token needs the scope', async () => {
+  let res = await sendAs({ token: 'ehi_not-a-real-token' });
+  assert(res.status === 401, `Expected 401, got ${res.status}`);
+  assert((await res.json()).code === 'invalid_token', 'Expected invalid_token');
+  res = await sendAs(reader);
+  assert(res.status === 403, `Expected 403, got ${res.status}`);
+  const data = await res.json();
+  assert(data.code === 'missing_scope' && data.scope === 'fax:send', `Unexpected body ${JSON.stringify(data)}`);
+});
+
+await test('tokens: a fax belongs to the token that sent it', async () => {
+  const res = await sendAs(sender);
+  assert(res.status === 201, `Expected 201, got ${res.status}`);
+  ownedFaxId = (await res.json()).faxId;
+
+  const own = await fetch(`${SERVER_URL}/api/fax/status/${ownedFaxId}`, { headers: auth(sender) });
+  assert(own.ok, `Owner should see its fax, got ${own.status}`);
+  for (const headers of [auth(reader), {}]) {
+    const other = await fetch(`${SERVER_URL}/api/fax/status/${ownedFaxId}`, { headers });
+    assert(other.status === 404, `Others should get 404, got ${other.status}`);
+    const receipt = await fetch(`${SERVER_URL}/api/fax/receipt/${ownedFaxId}`, { headers });
+    assert(receipt.status === 404, `Others should get 404 for the receipt, got ${receipt.status}`);
+  }
+});
+
+await test('tokens: the job list holds only the caller\'s own jobs', async () => {
+  const own = await (await fetch(`${SERVER_URL}/api/fax/jobs`, { headers: auth(sender) })).json();
+  assert(own.length === 1 && own[0].faxId === ownedFaxId, `Expected just the owned fax, got ${own.length} jobs`);
+  const other = await (await fetch(`${SERVER_URL}/api/fax/jobs`, { headers: auth(reader) })).json();
+  assert(other.length === 0, `Expected no jobs for another token, got ${other.length}`);
+  const anonymous = await (await fetch(`${SERVER_URL}/api/fax/jobs`)).json();
+  assert(anonymous.length > 0 && !anonymous.some((j) => j.faxId === ownedFaxId), 'Anonymous callers should see only unowned jobs');
+});
+
+await test('tokens: others can\'t download, simulate or read the callback of an owned fax', async () => {
+  const simulate = (headers) => fetch(`${SERVER_URL}/api/fax/jobs/${ownedFaxId}/simulate`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'sending' }),
+  });
+  for (const headers of [auth(reader), {}]) {
+    for (const path of ['download', 'callback']) {
+      const res = await fetch(`${SERVER_URL}/api/fax/jobs/${ownedFaxId}/${path}`, { headers });
+      assert(res.status === 404, `Expected 404 for ${path}, got ${res.status}`);
+    }
+  }
+  let res = await simulate({});
+  assert(res.status === 404, `Expected 404 for simulate, got ${res.status}`);
+  res = await fetch(`${SERVER_URL}/api/fax/jobs/${ownedFaxId}/download`, { headers: auth(sender) });
+  assert(res.ok, `Owner should download its fax, got ${res.status}`);
+  res = await simulate(auth(sender));
+  assert(res.ok, `Owner should simulate its fax, got ${res.status}`);
+});
+
+await test('tokens: only the creating token can poll its signature session', async () => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const publicKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+  const createRes = await fetch(`${SERVER_URL}/api/signatures/sessions`, {
+    method: 'POST',
+    headers: auth(signer, { 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ publicKey: publicKeyJwk, instructions: 'test' }),
+  });
+  assert(createRes.status === 201, `Expected 201, got ${createRes.status}`);
+  const { sessionId } = await createRes.json();
+
+  let res = await fetch(`${SERVER_URL}/api/signatures/sessions/${sessionId}/poll?timeout=0`);
+  assert(res.status === 404, `Expected 404 without the token, got ${res.status}`);
+  res = await fetch(`${SERVER_URL}/api/signatures/sessions/${sessionId}/poll?timeout=0`, { headers: auth(signer) });
+  assert(res.ok, `Expected the owner to poll, got ${res.status}`);
+  // The signer's page needs no token
+  res = await fetch(`${SERVER_URL}/api/signatures/sessions/${sessionId}/info`);
+  assert(res.ok, `Expected info without a token, got ${res.status}`);
+});
+
+await test('tokens: a revoked token is refused', async () => {
+  for (const token of [sender, reader, signer]) manageTokens('revoke', token.id);
+  const res = await fetch(`${SERVER_URL}/api/fax/jobs`, { headers: auth(sender) });
+  assert(res.status === 401, `Expected 401, got ${res.status}`);
+});
+
 // ───────────────────────────────────────────────────────────────────────────
 // Summary
 // ───────────────────────────────────────────────────────────────────────────